@@ -9,16 +9,10 @@ export type SkillsSpeedEnemy = z.infer<typeof generated.skillsSpeedEnemySchema>;
 
 export type Enemy = z.infer<typeof generated.enemySchema>;
 
-export type Superman = z.infer<typeof generated.supermanSchema>;
-
-export type SupermanName = z.infer<typeof generated.supermanNameSchema>;
-
-export type SupermanInvinciblePower = z.infer<
-  typeof generated.supermanInvinciblePowerSchema
->;
-
 export type PersonTuple = z.infer<typeof generated.personTupleSchema>;
 
+export type Superman = z.infer<typeof generated.supermanSchema>;
+
 export type Villain = z.infer<typeof generated.villainSchema>;
 
 export type Story = z.infer<typeof generated.storySchema>;
@@ -37,6 +31,12 @@ export type HeroContact = z.infer<typeof generated.heroContactSchema>;
 
 export type SupermanEnemy = z.infer<typeof generated.supermanEnemySchema>;
 
+export type SupermanName = z.infer<typeof generated.supermanNameSchema>;
+
+export type SupermanInvinciblePower = z.infer<
+  typeof generated.supermanInvinciblePowerSchema
+>;
+
 export type EvilPlan = z.infer<typeof generated.evilPlanSchema>;
 
 export type EvilPlanDetails = z.infer<typeof generated.evilPlanDetailsSchema>;
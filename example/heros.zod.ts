@@ -9,10 +9,6 @@ import {
 
 import { personSchema } from "./person.zod";
 
-export const maybe = <T extends z.ZodTypeAny>(schema: T) => {
-  return schema.nullable().optional();
-};
-
 export const enemyPowerSchema = z.nativeEnum(EnemyPower);
 
 export const skillsSpeedEnemySchema = z.object({
@@ -30,6 +26,11 @@ export const enemySchema = personSchema.extend({
   ]),
 });
 
+export const personTupleSchema = z.tuple([personSchema]).rest(personSchema);
+
+export const maybeSchema = <T extends z.ZodTypeAny>(t: T) =>
+  z.union([t, z.undefined()]).nullable();
+
 export const supermanSchema = z.object({
   person: personSchema,
   name: z.union([
@@ -45,16 +46,9 @@ export const supermanSchema = z.object({
     z.literal("laser"),
     z.literal("invincible"),
   ]),
-  counters: maybe(z.array(enemyPowerSchema)).optional(),
+  counters: maybeSchema(z.array(enemyPowerSchema)).optional(),
 });
 
-export const supermanNameSchema = supermanSchema.shape.name;
-
-export const supermanInvinciblePowerSchema =
-  supermanSchema.shape.powers.items[2];
-
-export const personTupleSchema = z.tuple([personSchema]).rest(personSchema);
-
 export const villainSchema: z.ZodSchema<Villain> = z.lazy(() =>
   z.object({
     name: z.string(),
@@ -113,6 +107,11 @@ export const heroContactSchema = z.object({
 
 export const supermanEnemySchema = supermanSchema.shape.enemies.valueSchema;
 
+export const supermanNameSchema = supermanSchema.shape.name;
+
+export const supermanInvinciblePowerSchema =
+  supermanSchema.shape.powers.items[2];
+
 export const evilPlanSchema: z.ZodSchema<EvilPlan> = z.lazy(() =>
   z.object({
     owner: villainSchema,
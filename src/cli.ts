@@ -3,22 +3,50 @@ import chokidar from "chokidar";
 import { existsSync, outputFile, readFile } from "fs-extra";
 import inquirer from "inquirer";
 import ora from "ora";
-import { join, normalize, parse, relative } from "path";
+import { join, normalize, parse, relative, resolve } from "path";
 import prettier from "prettier";
 import slash from "slash";
 import ts from "typescript";
-import { Config, TsToZodConfig, InputOutputMapping } from "./config";
 import {
-  getSchemaNameSchema,
-  nameFilterSchema,
-  tsToZodConfigSchema,
-} from "./config.zod";
+  ClassStyle,
+  Config,
+  Configs,
+  EnumStyle,
+  TsToZodConfig,
+  InputOutputMapping,
+  ZodVersion,
+  SchemaLibrary,
+} from "./config";
+import { getSchemaNameSchema, nameFilterSchema } from "./config.zod";
 import { GenerateProps, generate } from "./core/generate";
 import { createConfig } from "./createConfig";
+import {
+  findConfigFile,
+  getConfigDependencies,
+  loadConfig,
+} from "./loadConfig";
 import {
   areImportPathsEqualIgnoringExtension,
   getImportPath,
 } from "./utils/getImportPath";
+import {
+  expandGlobConfig,
+  getBarrelFile,
+  isGlobInput,
+} from "./utils/globInputs";
+import { inlineImportedTypes } from "./utils/inlineImportedTypes";
+import { createUnifiedDiff } from "./utils/unifiedDiff";
+import {
+  getImportedInputs,
+  getInputsToRegenerate,
+} from "./utils/dependencyGraph";
+import {
+  cacheDirectory,
+  getCacheEntryPath,
+  getCacheKey,
+  isCacheUpToDate,
+  writeCacheEntry,
+} from "./utils/generationCache";
 import * as worker from "./worker";
 
 let config: TsToZodConfig | undefined;
@@ -34,15 +62,18 @@ function isEsm() {
   return false;
 }
 
-// Try to load `ts-to-zod.config.c?js`
+// Try to load the config file (`ts-to-zod.config.*`, `package.json` or `--config-file`)
 // We are doing this here to be able to infer the `flags` & `usage` in the cli help
 const fileExtension = isEsm() ? "cjs" : "js";
 const tsToZodConfigFileName = `ts-to-zod.config.${fileExtension}`;
 const configPath = join(process.cwd(), tsToZodConfigFileName);
+const configFile = findConfigFile(
+  process.cwd(),
+  getConfigFileArgument(process.argv)
+);
 try {
-  if (existsSync(configPath)) {
-    const rawConfig = require(slash(relative(__dirname, configPath)));
-    config = tsToZodConfigSchema.parse(rawConfig);
+  if (configFile) {
+    config = loadConfig(configFile, isEsm());
     if (Array.isArray(config)) {
       haveMultiConfig = true;
       configKeys.push(...config.map((c) => c.name));
@@ -51,8 +82,7 @@ try {
 } catch (e) {
   if (e instanceof Error) {
     Errors.error(
-      `"${tsToZodConfigFileName}" invalid:
-    ${e.message}
+      `${e.message}
   
     Please fix the invalid configuration
     You can generate a new config with --init`,
@@ -100,11 +130,51 @@ class TsToZod extends Command {
     inferredTypes: Flags.string({
       description: "Path of z.infer<> types file",
     }),
+    jsonSchemaOutput: Flags.string({
+      description: "Path of the JSON Schema file",
+    }),
+    openApiOutput: Flags.string({
+      description: "Path of the OpenAPI 3.1 document",
+    }),
+    enumStyle: Flags.string({
+      options: ["nativeEnum", "enum", "literalUnion"],
+      description: "Schema generated for enums and string literal unions",
+    }),
+    classStyle: Flags.string({
+      options: ["object", "instanceof"],
+      description: "Schema generated for classes",
+    }),
+    zodVersion: Flags.string({
+      options: ["3", "4"],
+      description: "Major version of zod targeted by the generated schemas",
+    }),
+    schemaLibrary: Flags.string({
+      options: ["zod", "valibot"],
+      description: "Schema library targeted by the generated schemas",
+    }),
+    resolveImports: Flags.boolean({
+      description:
+        "Generate the schemas of imported types (imports are followed with the TypeScript compiler)",
+    }),
+    cache: Flags.boolean({
+      default: true,
+      allowNo: true,
+      description: `Skip the generation when nothing changed (cached in ${cacheDirectory})`,
+    }),
+    check: Flags.boolean({
+      default: false,
+      description:
+        "Check that the generated files are up to date, without writing them",
+    }),
     watch: Flags.boolean({
       char: "w",
       default: false,
       description: "Watch input file(s) for changes and re-run related task",
     }),
+    "config-file": Flags.string({
+      description:
+        "Path of the config file (ts-to-zod.config.* or package.json by default)",
+    }),
     // -- Multi config flags --
     config: Flags.string({
       char: "c",
@@ -118,11 +188,6 @@ class TsToZod extends Command {
       description: "Execute all configs",
       hidden: !haveMultiConfig,
     }),
-    maybeTypeNames: Flags.string({
-      description:
-        "Comma-separated list of generic interface names to treat as Maybe types",
-      multiple: false,
-    }),
   };
 
   static args = {
@@ -143,61 +208,168 @@ class TsToZod extends Command {
       return;
     }
 
-    const fileConfig = await this.loadFileConfig(config, flags);
+    if (flags.check && flags.watch) {
+      this.error(`--check is not compatible with --watch`);
+    }
+
+    let fileConfig = await this.loadFileConfig(config, flags);
+    const successMessage = flags.check
+      ? "👌 Zod schemas up to date!"
+      : "🎉 Zod schemas generated!";
+
+    // Glob/directory INPUT argument, with an OUTPUT pattern
+    const argsConfig =
+      args.input && isGlobInput(args.input, process.cwd())
+        ? { ...fileConfig, input: args.input, output: args.output || "" }
+        : undefined;
+    if (argsConfig) {
+      if (Array.isArray(fileConfig)) {
+        this.error(`INPUT and OUTPUT arguments are not compatible with --all`);
+      }
+      if (!args.output) {
+        this.error(
+          `OUTPUT argument is required with a glob or directory INPUT`
+        );
+      }
+      fileConfig = argsConfig;
+      args.input = args.output = undefined;
+    }
+
+    let barrels: Array<{ path: string; outputs: string[] }> = [];
+    let ioMappings: InputOutputMapping[] = [];
+    try {
+      const expanded = expandGlobConfigs(fileConfig);
+      fileConfig = expanded.config;
+      barrels = expanded.barrels;
 
-    const ioMappings = getInputOutputMappings(config);
+      // Mappings between all the files, to import the schemas of the other files
+      ioMappings = getInputOutputMappings(
+        argsConfig ? fileConfig : expandGlobConfigs(config).config
+      );
+    } catch (e) {
+      this.error(e instanceof Error ? e : String(e));
+    }
 
     if (Array.isArray(fileConfig)) {
       if (args.input || args.output) {
         this.error(`INPUT and OUTPUT arguments are not compatible with --all`);
       }
+      const results: Array<{ success: boolean }> = [];
       try {
-        await Promise.all(
-          fileConfig.map(async (config) => {
-            this.log(`Generating "${config.name}"`);
-            const result = await this.generate(args, config, flags, ioMappings);
-            if (result.success) {
-              this.log(` 🎉 Zod schemas generated!`);
-            } else {
-              this.error(result.error, { exit: false });
-            }
-            this.log(); // empty line between configs
-          })
+        // Dependencies first, their schemas are needed to validate the dependents
+        const configs = fileConfig;
+        const inputs = configs.map((config) => toInputKey(config.input));
+        const sortedConfigs = getInputsToRegenerate(
+          await getInputDependencies(inputs, ioMappings),
+          inputs
+        ).flatMap((input) =>
+          configs.filter((config) => toInputKey(config.input) === input)
         );
+
+        for (const config of sortedConfigs) {
+          this.log(`Generating "${config.name}"`);
+          const result = await this.generate(args, config, flags, ioMappings);
+          if (result.success) {
+            this.log(` ${successMessage}`);
+          } else {
+            this.error(result.error, { exit: false });
+          }
+          this.log(); // empty line between configs
+          results.push(result);
+        }
       } catch (e) {
         const error =
           typeof e === "string" || e instanceof Error ? e : JSON.stringify(e);
         this.error(error);
       }
+
+      const barrelFiles = await Promise.all(
+        barrels.map(async ({ path, outputs }) => ({
+          path: join(process.cwd(), path),
+          content: await prettier.format(getBarrelFile(path, outputs), {
+            parser: "babel-ts",
+            ...(await prettier.resolveConfig(process.cwd())),
+          }),
+        }))
+      );
+      if (flags.check) {
+        const barrelsResult = await this.checkFiles(barrelFiles);
+        if (!barrelsResult.success) {
+          this.error(barrelsResult.error, { exit: false });
+        }
+        results.push(barrelsResult);
+      } else {
+        for (const { path, content } of barrelFiles) {
+          await outputFile(path, content);
+        }
+      }
+
+      if (flags.check && results.some((result) => !result.success)) {
+        this.exit(1);
+      }
     } else {
       const result = await this.generate(args, fileConfig, flags, ioMappings);
       if (result.success) {
-        this.log(`🎉 Zod schemas generated!`);
+        this.log(successMessage);
+      } else if (flags.watch) {
+        this.error(result.error, { exit: false });
       } else {
         this.error(result.error);
       }
     }
 
     if (flags.watch) {
-      const inputs = Array.isArray(fileConfig)
-        ? fileConfig.map((i) => i.input)
-        : fileConfig?.input || args.input || [];
+      const configs = Array.isArray(fileConfig) ? fileConfig : [fileConfig];
+      const getInput = (config: Config | undefined) =>
+        toInputKey(config?.input || args.input || "");
 
-      this.log("\nWatching for changes…");
-      chokidar.watch(inputs).on("change", async (path) => {
+      // Regenerate the configs of the changed inputs and their dependents
+      const regenerate = async (paths: string[]) => {
         console.clear();
-        this.log(`Changes detected in "${slash(path)}"`);
-        const config = Array.isArray(fileConfig)
-          ? fileConfig.find((i) => i.input === slash(path))
-          : fileConfig;
-
-        const result = await this.generate(args, config, flags, ioMappings);
-        if (result.success) {
-          this.log(`🎉 Zod schemas generated!`);
-        } else {
-          this.error(result.error);
+        this.log(
+          `Changes detected in ${paths
+            .map((path) => `"${slash(path)}"`)
+            .join(", ")}`
+        );
+
+        const inputs = getInputsToRegenerate(
+          await getInputDependencies(configs.map(getInput), ioMappings),
+          paths.map(toInputKey)
+        );
+        for (const input of inputs) {
+          const config = configs.find((config) => getInput(config) === input);
+          if (config && "name" in config) {
+            this.log(`Generating "${config.name}"`);
+          }
+          const result = await this.generate(args, config, flags, ioMappings);
+          if (result.success) {
+            this.log(successMessage);
+          } else {
+            // Keep watching, the error can be fixed in the next change
+            this.error(result.error, { exit: false });
+          }
         }
         this.log("\nWatching for changes…");
+      };
+
+      // Debounce the bursts of changes (saving multiple files, formatters…)
+      const changedPaths = new Set<string>();
+      let debounceTimeout: NodeJS.Timeout | undefined;
+      let generation = Promise.resolve();
+
+      this.log("\nWatching for changes…");
+      chokidar.watch(configs.map(getInput)).on("change", (path) => {
+        changedPaths.add(path);
+        if (debounceTimeout) clearTimeout(debounceTimeout);
+        debounceTimeout = setTimeout(() => {
+          const paths = Array.from(changedPaths);
+          changedPaths.clear();
+          generation = generation
+            .then(() => regenerate(paths))
+            .catch((e) =>
+              this.error(e instanceof Error ? e : String(e), { exit: false })
+            );
+        }, watchDebounceDelay);
       });
     }
   }
@@ -273,18 +445,32 @@ See more help with --help`,
       };
     }
 
-    const sourceText = await readFile(inputPath, "utf-8");
+    const resolveImports =
+      typeof Flags.resolveImports === "boolean"
+        ? Flags.resolveImports
+        : fileConfig?.resolveImports;
+
+    const { sourceText, inlinedImports } = resolveImports
+      ? inlineImportedTypes({
+          inputPath,
+          tsConfigPath: fileConfig?.tsConfigPath
+            ? resolve(process.cwd(), fileConfig.tsConfigPath)
+            : undefined,
+          isMappedFile: (fileName) =>
+            inputOutputMappings.some((io) =>
+              areImportPathsEqualIgnoringExtension(
+                resolve(process.cwd(), io.input),
+                fileName
+              )
+            ),
+        })
+      : { sourceText: await readFile(inputPath, "utf-8"), inlinedImports: [] };
 
     const generateOptions: GenerateProps = {
       sourceText,
       inputOutputMappings: relativeIOMappings,
+      inlinedImports,
       ...fileConfig,
-      maybeConfig: {
-        maybeTypeNames: [
-          ...(fileConfig?.maybeConfig?.maybeTypeNames || []),
-          ...(Flags.maybeTypeNames ? Flags.maybeTypeNames.split(",") : []),
-        ],
-      },
     };
     if (typeof Flags.keepComments === "boolean") {
       generateOptions.keepComments = Flags.keepComments;
@@ -295,6 +481,60 @@ See more help with --help`,
     if (typeof Flags.inferredTypes === "string") {
       generateOptions.inferredTypes = Flags.inferredTypes;
     }
+    if (typeof Flags.jsonSchemaOutput === "string") {
+      generateOptions.jsonSchemaOutput = Flags.jsonSchemaOutput;
+    }
+    if (typeof Flags.openApiOutput === "string") {
+      generateOptions.openApiOutput = Flags.openApiOutput;
+    }
+    if (typeof Flags.enumStyle === "string") {
+      generateOptions.enumStyle = Flags.enumStyle as EnumStyle;
+    }
+    if (typeof Flags.classStyle === "string") {
+      generateOptions.classStyle = Flags.classStyle as ClassStyle;
+    }
+    if (typeof Flags.zodVersion === "string") {
+      generateOptions.zodVersion = Number(Flags.zodVersion) as ZodVersion;
+    }
+    if (typeof Flags.schemaLibrary === "string") {
+      generateOptions.schemaLibrary = Flags.schemaLibrary as SchemaLibrary;
+    }
+
+    const prettierConfig = await prettier.resolveConfig(process.cwd());
+
+    // Skip the generation if nothing changed since the last run
+    const cacheEntryPath = Flags.cache
+      ? getCacheEntryPath(join(process.cwd(), cacheDirectory), outputPath)
+      : undefined;
+    const cacheKey = getCacheKey({
+      version: this.config.version,
+      input,
+      output,
+      skipValidation: Flags.skipValidation,
+      // Functions of the config are wrapped by zod, their source is in the config file
+      // and the local modules it requires
+      configFiles: configFile
+        ? await Promise.all(
+            [configFile.path, ...getConfigDependencies(configFile)].map(
+              (path) => readFile(path, "utf-8")
+            )
+          )
+        : undefined,
+      generateOptions,
+      prettierConfig,
+      dependencies: await getMappedDependencies(
+        sourceText,
+        inputPath,
+        inputOutputMappings
+      ),
+    });
+
+    if (cacheEntryPath && (await isCacheUpToDate(cacheEntryPath, cacheKey))) {
+      const cacheSpinner = ora();
+      if (Flags.all) cacheSpinner.indent = 1;
+      cacheSpinner.info("No changes since the last generation (cached)");
+      return { success: true };
+    }
 
     const {
       errors,
@@ -302,6 +542,8 @@ See more help with --help`,
       getZodSchemasFile,
       getIntegrationTestFile,
       getInferredTypes,
+      getJsonSchemaFile,
+      getOpenApiFile,
       hasCircularDependencies,
     } = generate(generateOptions);
 
@@ -315,7 +557,8 @@ See more help with --help`,
 
     errors.map(this.warn.bind(this));
 
-    if (!Flags.skipValidation) {
+    // The output of a custom emitter can't be validated against the zod schemas
+    if (!Flags.skipValidation && !generateOptions.emitter) {
       const validatorSpinner = ora("Validating generated types").start();
       if (Flags.all) validatorSpinner.indent = 1;
 
@@ -396,15 +639,16 @@ See more help with --help`,
       getImportPath(outputPath, inputPath)
     );
 
-    const prettierConfig = await prettier.resolveConfig(process.cwd());
+    // Generated files, written at the end (or compared with `--check`)
+    const files: Array<{ path: string; content: string }> = [];
 
     if (generateOptions.inferredTypes) {
       const zodInferredTypesFile = getInferredTypes(
         getImportPath(generateOptions.inferredTypes, outputPath)
       );
-      await outputFile(
-        generateOptions.inferredTypes,
-        await prettier.format(
+      files.push({
+        path: generateOptions.inferredTypes,
+        content: await prettier.format(
           hasExtensions(generateOptions.inferredTypes, javascriptExtensions)
             ? ts.transpileModule(zodInferredTypesFile, {
                 compilerOptions: {
@@ -415,14 +659,31 @@ See more help with --help`,
               }).outputText
             : zodInferredTypesFile,
           { parser: "babel-ts", ...prettierConfig }
-        )
-      );
+        ),
+      });
+    }
+
+    if (generateOptions.jsonSchemaOutput) {
+      files.push({
+        path: generateOptions.jsonSchemaOutput,
+        content: getJsonSchemaFile(),
+      });
+    }
+
+    if (generateOptions.openApiOutput) {
+      files.push({
+        path: generateOptions.openApiOutput,
+        content: getOpenApiFile({
+          title: parse(input).name,
+          version: "1.0.0",
+        }),
+      });
     }
 
     if (output && hasExtensions(output, javascriptExtensions)) {
-      await outputFile(
-        outputPath,
-        await prettier.format(
+      files.push({
+        path: outputPath,
+        content: await prettier.format(
           ts.transpileModule(zodSchemasFile, {
             compilerOptions: {
               target: ts.ScriptTarget.Latest,
@@ -431,16 +692,62 @@ See more help with --help`,
             },
           }).outputText,
           { parser: "babel-ts", ...prettierConfig }
-        )
-      );
+        ),
+      });
     } else {
-      await outputFile(
-        outputPath,
-        await prettier.format(zodSchemasFile, {
+      files.push({
+        path: outputPath,
+        content: await prettier.format(zodSchemasFile, {
           parser: "babel-ts",
           ...prettierConfig,
-        })
-      );
+        }),
+      });
+    }
+
+    if (Flags.check) {
+      return this.checkFiles(files);
+    }
+
+    for (const { path, content } of files) {
+      await outputFile(path, content);
+    }
+
+    if (cacheEntryPath) {
+      await writeCacheEntry(cacheEntryPath, cacheKey, files);
+    }
+    return { success: true };
+  }
+
+  /**
+   * Compare the generated files with the files on disk, without writing them.
+   * A diff is printed for each out-of-date file.
+   *
+   * @param files Generated files
+   */
+  async checkFiles(
+    files: Array<{ path: string; content: string }>
+  ): Promise<{ success: true } | { success: false; error: string }> {
+    const staleFiles: string[] = [];
+
+    for (const { path, content } of files) {
+      const currentContent = existsSync(path)
+        ? await readFile(path, "utf-8")
+        : "";
+      const relativePath = slash(relative(process.cwd(), path));
+      const diff = createUnifiedDiff(relativePath, currentContent, content);
+      if (diff) {
+        staleFiles.push(relativePath);
+        this.log(diff);
+      }
+    }
+
+    if (staleFiles.length) {
+      return {
+        success: false,
+        error: `Generated files are out of date:
+${staleFiles.join("\n")}
+Run ts-to-zod without --check to update them`,
+      };
     }
     return { success: true };
   }
@@ -462,7 +769,7 @@ See more help with --help`,
         }>([
           {
             name: "mode",
-            message: `You have multiple configs available in "${tsToZodConfigFileName}"\n What do you want?`,
+            message: `You have multiple configs available in "${configFile?.name}"\n What do you want?`,
             type: "list",
             choices: [
               {
@@ -508,6 +815,37 @@ See more help with --help`,
   }
 }
 
+/**
+ * Get the value of the `--config-file` flag, before the flags parsing.
+ *
+ * @param argv process arguments
+ */
+function getConfigFileArgument(argv: string[]) {
+  const index = argv.findIndex(
+    (arg) => arg === "--config-file" || arg.startsWith("--config-file=")
+  );
+  if (index === -1) return;
+
+  return argv[index].includes("=")
+    ? argv[index].slice("--config-file=".length)
+    : argv[index + 1];
+}
+
+/**
+ * Delay (in ms) without changes before regenerating in watch mode.
+ */
+const watchDebounceDelay = 100;
+
+/**
+ * Normalize an input path (relative to the current working directory), to
+ * compare the config inputs with the watched paths.
+ *
+ * @param path relative or absolute path
+ */
+function toInputKey(path: string) {
+  return slash(relative(process.cwd(), resolve(path)));
+}
+
 const typescriptExtensions = [".ts", ".tsx"];
 const javascriptExtensions = [".js", ".jsx"];
 
@@ -523,6 +861,51 @@ function hasExtensions(path: string, extensions: string[]) {
   return extensions.includes(ext);
 }
 
+/**
+ * Expand the configs with a glob/directory input, one config per source file.
+ *
+ * @param config
+ * @returns The expanded config (multiple configs if an input is a glob) and
+ *          the barrel files to generate
+ */
+function expandGlobConfigs(config: TsToZodConfig | undefined): {
+  config: TsToZodConfig | undefined;
+  barrels: Array<{ path: string; outputs: string[] }>;
+} {
+  const configs: Array<Config & { name?: string }> = Array.isArray(config)
+    ? config
+    : config
+    ? [config]
+    : [];
+  if (!configs.some((c) => isGlobInput(c.input, process.cwd()))) {
+    return { config, barrels: [] };
+  }
+
+  const barrels: Array<{ path: string; outputs: string[] }> = [];
+  const expandedConfigs: Configs = configs.flatMap((c) => {
+    if (!isGlobInput(c.input, process.cwd())) {
+      return [{ ...c, name: c.name ?? c.input }];
+    }
+
+    const globConfigs = expandGlobConfig(c, process.cwd());
+    if (!globConfigs.length) {
+      throw new Error(`No input file found for "${c.input}"`);
+    }
+    if (c.barrelOutput) {
+      barrels.push({
+        path: c.barrelOutput,
+        outputs: globConfigs.map(({ output }) => output),
+      });
+    }
+    return globConfigs.map((globConfig) => ({
+      ...globConfig,
+      name: globConfig.input,
+    }));
+  });
+
+  return { config: expandedConfigs, barrels };
+}
+
 function getInputOutputMappings(
   config: TsToZodConfig | undefined
 ): InputOutputMapping[] {
@@ -541,4 +924,58 @@ function getInputOutputMappings(
   return [{ input, output, getSchemaName }];
 }
 
+/**
+ * Get the mapped inputs imported by each input.
+ *
+ * @param inputs Inputs, normalized with `toInputKey`
+ * @param inputOutputMappings
+ */
+async function getInputDependencies(
+  inputs: string[],
+  inputOutputMappings: InputOutputMapping[]
+) {
+  const dependencies = new Map<string, string[]>();
+  for (const input of inputs) {
+    const sourceText = existsSync(input) ? await readFile(input, "utf-8") : "";
+    dependencies.set(
+      input,
+      getImportedInputs(
+        sourceText,
+        join(process.cwd(), input),
+        inputOutputMappings.map((io) => toInputKey(io.input))
+      )
+    );
+  }
+  return dependencies;
+}
+
+/**
+ * Read the mapped input files imported by the source, the generated schemas
+ * depend on their content.
+ *
+ * @param sourceText Content of the input file
+ * @param inputPath Absolute path of the input file
+ * @param inputOutputMappings Mappings with paths relative to the current working directory
+ */
+async function getMappedDependencies(
+  sourceText: string,
+  inputPath: string,
+  inputOutputMappings: InputOutputMapping[]
+) {
+  const dependencies: Record<string, string> = {};
+  const importedInputs = getImportedInputs(
+    sourceText,
+    inputPath,
+    inputOutputMappings.map((io) => io.input)
+  );
+
+  for (const input of importedInputs) {
+    const path = join(process.cwd(), input);
+    if (existsSync(path)) {
+      dependencies[input] = await readFile(path, "utf-8");
+    }
+  }
+  return dependencies;
+}
+
 export = TsToZod;
@@ -1,4 +1,6 @@
 import ts from "typescript";
+import type { SchemaDeclaration } from "./core/generateSchemaIR";
+import type { HelperFunction } from "./core/jsDocTags";
 
 export interface SimplifiedJSDocTag {
   /**
@@ -49,17 +51,169 @@ export type CustomJSDocFormatTypes = Record<
   string | CustomJSDocFormatTypeAttributes
 >;
 
+export type CustomJSDocTagContext = {
+  /**
+   * Name of the tag (`slug` for `@slug`)
+   */
+  tagName: string;
+
+  /**
+   * Full comment of the tag
+   */
+  comment: string;
+
+  /**
+   * Error message, after the value (`@currency EUR Invalid currency`)
+   */
+  errorMessage?: string;
+};
+
+/**
+ * Import added to the generated file, for helpers used by a custom tag.
+ *
+ * @example
+ *  { name: "isSlug", from: "./validators" } // import { isSlug } from "./validators";
+ */
+export type CustomJSDocTagImport = {
+  name: string;
+
+  /**
+   * Module specifier, relative paths are relative to the output file
+   */
+  from: string;
+};
+
+/**
+ * Zod method appended to the schema, the expressions are source code.
+ *
+ * @example
+ *  { identifier: "refine", expressions: ["isSlug", '"Invalid slug"'] } // .refine(isSlug, "Invalid slug")
+ */
+export type CustomJSDocTagProperty = {
+  identifier: string;
+  expressions?: string[];
+  imports?: CustomJSDocTagImport[];
+};
+
+/**
+ * Convert a custom JSDoc tag to zod methods, either a property or the
+ * source code of the methods (`.refine(isSlug)`).
+ *
+ * @param value Value of the tag (first word of the comment)
+ * @param context
+ */
+export type CustomJSDocTagHandler = (
+  value: string,
+  context: CustomJSDocTagContext
+) => string | CustomJSDocTagProperty;
+
+/**
+ * @example
+ *  {
+ *    slug: () => ({
+ *      identifier: "refine",
+ *      expressions: ["isSlug"],
+ *      imports: [{ name: "isSlug", from: "./validators" }],
+ *    }),
+ *    currency: (value) => `.length(3).startsWith("${value}")`,
+ *  }
+ */
+export type CustomJSDocTags = Record<string, CustomJSDocTagHandler>;
+
+/**
+ * Schema generated for enums and string literal unions.
+ *
+ * - `nativeEnum`: `z.nativeEnum(Enum)`, the enum is imported from the source file
+ * - `enum`: `z.enum(["a", "b"])` for string enums and string literal unions
+ * - `literalUnion`: `z.union([z.literal("a"), z.literal("b")])`
+ *
+ * With `enum` & `literalUnion`, the parsed values are not assignable to the
+ * string enums (the values are inferred, not the enum).
+ */
+export type EnumStyle = "nativeEnum" | "enum" | "literalUnion";
+
+/**
+ * Schema generated for classes.
+ *
+ * - `object`: `z.object()` of the public properties (`extends` is generated as `.extend()`)
+ * - `instanceof`: `z.instanceof(Class)`, the class is imported from the source file
+ */
+export type ClassStyle = "object" | "instanceof";
+
+/**
+ * Primitive types parsed with `z.coerce.*` (`z.coerce.number()`…), for wire
+ * formats (query strings, forms…) where the raw values are strings.
+ * (booleans are parsed from `"true"` & `"false"` only)
+ */
+export type CoerceTypes = {
+  string?: boolean;
+  number?: boolean;
+  boolean?: boolean;
+  bigint?: boolean;
+  date?: boolean;
+};
+
+/**
+ * Major version of zod targeted by the generated schemas.
+ *
+ * - `3`: `import { z } from "zod"`
+ * - `4`: `import { z } from "zod/v4"`, with the zod v4 APIs (`z.email()`, `z.strictObject()`…)
+ */
+export type ZodVersion = 3 | 4;
+
+/**
+ * Schema library targeted by the generated schemas.
+ *
+ * - `zod`: `import { z } from "zod"`
+ * - `valibot`: `import * as v from "valibot"`
+ */
+export type SchemaLibrary = "zod" | "valibot";
+
+export type EmitterContext = {
+  /**
+   * Relative path of the source file, from the output file
+   */
+  typesImportPath: string;
+};
+
+/**
+ * Custom output generated from the intermediate representation of the schemas.
+ *
+ * @example
+ *  {
+ *    emit: (declarations, { typesImportPath }) =>
+ *      declarations.map(({ schemaName, schema }) => ...).join("\n")
+ *  }
+ *
+ * @passthrough (emitters can be instances with other members)
+ */
+export type Emitter = {
+  emit: (declarations: SchemaDeclaration[], context: EmitterContext) => string;
+};
+
 export type Config = {
   /**
    * Path of the input file (types source)
+   *
+   * A glob pattern (`src/types/**\/*.ts`, with `*`, `?` & `**` wildcards) or
+   * a directory generates one schemas file per source file.
    */
   input: string;
 
   /**
    * Path of the output file (generated zod schemas)
+   *
+   * With a glob/directory input: pattern with `{dir}` & `{name}` placeholders
+   * (`{dir}/{name}.zod.ts`), or a directory mirroring the input tree.
    */
   output: string;
 
+  /**
+   * Path of the `index.ts` re-exporting all the generated schemas.
+   * (glob/directory input only)
+   */
+  barrelOutput?: string;
+
   /**
    * Skip the validation step (not recommended)
    */
@@ -98,12 +252,80 @@ export type Config = {
    */
   inferredTypes?: string;
 
+  /**
+   * Path of the JSON Schema file (draft 2020-12, one `$defs` entry per schema).
+   */
+  jsonSchemaOutput?: string;
+
+  /**
+   * Path of the OpenAPI 3.1 document (schemas in `components.schemas`,
+   * `@operation` stubs in `paths`).
+   */
+  openApiOutput?: string;
+
   /**
    * A record of custom `@format` types with their corresponding regex patterns.
    */
   customJSDocFormatTypes?: CustomJSDocFormatTypes;
 
-  maybeConfig?: MaybeConfig;
+  /**
+   * Handlers of project-specific JSDoc tags (`@slug`, `@currency`…), by tag name.
+   */
+  customJSDocTags?: CustomJSDocTags;
+
+  /**
+   * Schema generated for enums and string literal unions.
+   *
+   * @default "nativeEnum"
+   */
+  enumStyle?: EnumStyle;
+
+  /**
+   * Schema generated for classes.
+   *
+   * @default "object"
+   */
+  classStyle?: ClassStyle;
+
+  /**
+   * Primitive types parsed with `z.coerce.*` (`{ number: true, date: true }`).
+   * (the `@coerce` JSDoc tag coerces a single property)
+   */
+  coerce?: CoerceTypes;
+
+  /**
+   * Major version of zod targeted by the generated schemas.
+   *
+   * @default 3
+   */
+  zodVersion?: ZodVersion;
+
+  /**
+   * Schema library targeted by the generated schemas.
+   *
+   * @default "zod"
+   */
+  schemaLibrary?: SchemaLibrary;
+
+  /**
+   * Custom emitter generating the output file instead of the zod schemas.
+   * (the validation step is skipped)
+   */
+  emitter?: Emitter;
+
+  /**
+   * Follow the imported types with the TypeScript compiler (`paths` aliases
+   * and barrels included) and generate their schemas instead of `z.any()`.
+   *
+   * @default false
+   */
+  resolveImports?: boolean;
+
+  /**
+   * Path of the `tsconfig.json` used to resolve the imports.
+   * (closest `tsconfig.json` from the input file if not provided)
+   */
+  tsConfigPath?: string;
 };
 
 export type Configs = Array<
@@ -124,16 +346,11 @@ export type InputOutputMapping = Pick<
 
 export type TsToZodConfig = Config | Configs;
 
-export interface MaybeConfig {
-  maybeTypeNames?: string[];
-}
-
-export const DefaultMaybeConfig: MaybeConfig = {
-  maybeTypeNames: [],
-};
-
 export interface ZodSchemaResult {
   dependencies: string[];
   statement: ts.VariableStatement;
   enumImport: boolean;
+  customImports?: CustomJSDocTagImport[];
+  helperFunctions?: HelperFunction[];
+  hasTransform?: boolean;
 }
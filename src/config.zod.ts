@@ -33,9 +33,75 @@ export const customJSDocFormatTypesSchema = z.record(
   z.union([z.string(), customJSDocFormatTypeAttributesSchema])
 );
 
+export const customJSDocTagContextSchema = z.object({
+  tagName: z.string(),
+  comment: z.string(),
+  errorMessage: z.string().optional(),
+});
+
+export const customJSDocTagImportSchema = z.object({
+  name: z.string(),
+  from: z.string(),
+});
+
+export const customJSDocTagPropertySchema = z.object({
+  identifier: z.string(),
+  expressions: z.array(z.string()).optional(),
+  imports: z.array(customJSDocTagImportSchema).optional(),
+});
+
+export const customJSDocTagHandlerSchema = z
+  .function()
+  .args(z.string(), customJSDocTagContextSchema)
+  .returns(z.union([z.string(), customJSDocTagPropertySchema]));
+
+export const customJSDocTagsSchema = z.record(customJSDocTagHandlerSchema);
+
+export const enumStyleSchema = z.union([
+  z.literal("nativeEnum"),
+  z.literal("enum"),
+  z.literal("literalUnion"),
+]);
+
+export const classStyleSchema = z.union([
+  z.literal("object"),
+  z.literal("instanceof"),
+]);
+
+export const coerceTypesSchema = z.object({
+  string: z.boolean().optional(),
+  number: z.boolean().optional(),
+  boolean: z.boolean().optional(),
+  bigint: z.boolean().optional(),
+  date: z.boolean().optional(),
+});
+
+export const zodVersionSchema = z.union([z.literal(3), z.literal(4)]);
+
+export const schemaLibrarySchema = z.union([
+  z.literal("zod"),
+  z.literal("valibot"),
+]);
+
+export const emitterContextSchema = z.object({
+  typesImportPath: z.string(),
+});
+
+const schemaDeclarationSchema = z.any();
+
+export const emitterSchema = z
+  .object({
+    emit: z
+      .function()
+      .args(z.array(schemaDeclarationSchema), emitterContextSchema)
+      .returns(z.string()),
+  })
+  .passthrough();
+
 export const configSchema = z.object({
   input: z.string(),
   output: z.string(),
+  barrelOutput: z.string().optional(),
   skipValidation: z.boolean().optional(),
   nameFilter: nameFilterSchema.optional(),
   jsDocTagFilter: jSDocTagFilterSchema.optional(),
@@ -43,7 +109,18 @@ export const configSchema = z.object({
   keepComments: z.boolean().optional().default(false),
   skipParseJSDoc: z.boolean().optional().default(false),
   inferredTypes: z.string().optional(),
+  jsonSchemaOutput: z.string().optional(),
+  openApiOutput: z.string().optional(),
   customJSDocFormatTypes: customJSDocFormatTypesSchema.optional(),
+  customJSDocTags: customJSDocTagsSchema.optional(),
+  enumStyle: enumStyleSchema.optional().default("nativeEnum"),
+  classStyle: classStyleSchema.optional().default("object"),
+  coerce: coerceTypesSchema.optional(),
+  zodVersion: zodVersionSchema.optional().default(3),
+  schemaLibrary: schemaLibrarySchema.optional().default("zod"),
+  emitter: emitterSchema.optional(),
+  resolveImports: z.boolean().optional().default(false),
+  tsConfigPath: z.string().optional(),
 });
 
 export const configsSchema = z.array(
@@ -1,5 +1,6 @@
 import { InputOutputMapping } from "../config";
 import { generate } from "./generate";
+import { validateGeneratedTypes } from "./validateGeneratedTypes";
 
 describe("generate", () => {
   describe("simple case", () => {
@@ -141,6 +142,563 @@ describe("generate", () => {
     });
   });
 
+  describe("with enums and `enumStyle: enum`", () => {
+    const sourceText = `
+      export enum Superhero {
+        Superman = "superman",
+        ClarkKent = "clark-kent"
+      };
+
+      export type FavoriteSuperhero = {
+        superhero: Superhero.Superman
+        villain: "lex" | "zod"
+      };
+      `;
+
+    const { getZodSchemasFile, transformedSourceText, errors } = generate({
+      sourceText,
+      enumStyle: "enum",
+    });
+
+    it("should generate the zod schemas without importing the enum", () => {
+      expect(getZodSchemasFile("./superhero")).toMatchInlineSnapshot(`
+        "// Generated by ts-to-zod
+        import { z } from "zod";
+
+        export const superheroSchema = z.enum(["superman", "clark-kent"]);
+
+        export const favoriteSuperheroSchema = z.object({
+            superhero: z.literal("superman"),
+            villain: z.enum(["lex", "zod"])
+        });
+        "
+      `);
+    });
+
+    it("should replace the enum by its values for the validation", () => {
+      expect(transformedSourceText).toMatchInlineSnapshot(`
+        "export type Superhero = "superman" | "clark-kent";
+        export declare namespace Superhero {
+            export type Superman = "superman";
+            export type ClarkKent = "clark-kent";
+        }
+        ;
+        export type FavoriteSuperhero = {
+            superhero: Superhero.Superman;
+            villain: "lex" | "zod";
+        };
+        "
+      `);
+    });
+
+    it("should warn that the parsed values are not assignable to the enum", () => {
+      expect(errors).toMatchInlineSnapshot(`
+        [
+          "'superheroSchema' infers the values of 'Superhero', not the enum: the parsed values are not assignable to the enum type (use enumStyle "nativeEnum" to keep it)",
+        ]
+      `);
+    });
+  });
+
+  describe("with `zodVersion: 4`", () => {
+    const sourceText = `
+      export enum Superhero {
+        Superman = "superman",
+        ClarkKent = "clark-kent"
+      };
+
+      export interface Villain {
+        name: string;
+        /**
+         * @format email
+         */
+        email: string;
+        powers: Record<string, number>;
+        friends: Villain[];
+        attack: (target: string, strength: number) => boolean;
+      }
+
+      export interface Hero {
+        name: string;
+        allies: Paginated<Hero>;
+      }
+
+      export interface Paginated<T> {
+        items: T[];
+        total: number;
+      }
+      `;
+
+    const { getZodSchemasFile, getIntegrationTestFile, errors } = generate({
+      sourceText,
+      zodVersion: 4,
+    });
+
+    it("should generate the zod schemas", () => {
+      expect(getZodSchemasFile("./villain")).toMatchInlineSnapshot(`
+        "// Generated by ts-to-zod
+        import { z } from "zod/v4";
+        import { type Hero, Superhero } from "./villain";
+
+        export const superheroSchema = z.enum(Superhero);
+
+        export const villainSchema = z.object({
+            name: z.string(),
+            email: z.email(),
+            powers: z.record(z.string(), z.number()),
+            get friends() { return z.array(villainSchema); },
+            attack: (schema => z.custom<typeof schema._output>(value => typeof value === "function"))(z.function({ input: z.tuple([z.string(), z.number()]), output: z.boolean() }))
+        });
+
+        export const paginatedSchema = <T extends z.ZodTypeAny>(t: T) => z.object({
+            items: z.array(t),
+            total: z.number()
+        });
+
+        export const heroSchema: z.ZodType<Hero> = z.lazy(() => z.object({
+            name: z.string(),
+            allies: paginatedSchema(heroSchema)
+        }));
+        "
+      `);
+    });
+
+    it("should generate schemas matching the types", () => {
+      const validationErrors = validateGeneratedTypes({
+        sourceTypes: { sourceText, relativePath: "villain.ts" },
+        zodSchemas: {
+          sourceText: getZodSchemasFile("./villain"),
+          relativePath: "villain.zod.ts",
+        },
+        integrationTests: {
+          sourceText: getIntegrationTestFile("./villain", "./villain.zod"),
+          relativePath: "villain.integration.ts",
+        },
+        skipParseJSDoc: false,
+      });
+
+      expect(validationErrors).toEqual([]);
+    });
+
+    it("should import zod v4 in the integration tests", () => {
+      expect(
+        getIntegrationTestFile("./villain", "villain.zod").split("\n")[1]
+      ).toMatchInlineSnapshot(`"import { z } from "zod/v4";"`);
+    });
+
+    it("should not have any errors", () => {
+      expect(errors.length).toBe(0);
+    });
+  });
+
+  describe("with `schemaLibrary: valibot`", () => {
+    const sourceText = `
+      export enum Superhero {
+        Superman = "superman",
+        ClarkKent = "clark-kent"
+      };
+
+      export interface Villain {
+        /**
+         * @minLength 2
+         */
+        name: string;
+        powers?: string[];
+        lair?: string | null;
+        superhero: Superhero;
+        friends: Villain[];
+      }
+      `;
+
+    const { getZodSchemasFile, getIntegrationTestFile, errors } = generate({
+      sourceText,
+      schemaLibrary: "valibot",
+    });
+
+    it("should generate the valibot schemas", () => {
+      expect(getZodSchemasFile("./villain")).toMatchInlineSnapshot(`
+        "// Generated by ts-to-zod
+        import * as v from "valibot";
+        import { type Villain, Superhero } from "./villain";
+
+        export const superheroSchema = v.enum(Superhero);
+
+        export const villainSchema: v.GenericSchema<unknown, Villain> = v.lazy(() => v.object({
+            name: v.pipe(v.string(), v.minLength(2)),
+            powers: v.optional(v.array(v.string())),
+            lair: v.nullish(v.string()),
+            superhero: superheroSchema,
+            friends: v.array(villainSchema)
+        }));
+        "
+      `);
+    });
+
+    it("should generate the integration tests", () => {
+      expect(getIntegrationTestFile("./villain", "villain.zod"))
+        .toMatchInlineSnapshot(`
+        "// Generated by ts-to-zod
+        import * as v from "valibot";
+
+        import * as spec from "./villain";
+        import * as generated from "villain.zod";
+
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        function expectType<T>(_: T) {
+          /* noop */
+        }
+
+        export type superheroSchemaInferredType = v.InferOutput<typeof generated.superheroSchema>;
+
+        export type villainSchemaInferredType = v.InferOutput<typeof generated.villainSchema>;
+
+        expectType<spec.Superhero>({} as superheroSchemaInferredType)
+        expectType<superheroSchemaInferredType>({} as spec.Superhero)
+        expectType<spec.Villain>({} as villainSchemaInferredType)
+        expectType<villainSchemaInferredType>({} as spec.Villain)
+        "
+      `);
+    });
+
+    it("should not have any errors", () => {
+      expect(errors.length).toBe(0);
+    });
+
+    it("should generate schemas matching the types", () => {
+      const validationErrors = validateGeneratedTypes({
+        sourceTypes: { sourceText, relativePath: "villain.ts" },
+        zodSchemas: {
+          sourceText: getZodSchemasFile("./villain"),
+          relativePath: "villain.zod.ts",
+        },
+        integrationTests: {
+          sourceText: getIntegrationTestFile("./villain", "./villain.zod"),
+          relativePath: "villain.integration.ts",
+        },
+        skipParseJSDoc: false,
+      });
+
+      expect(validationErrors).toEqual([]);
+    });
+
+    it("should report the recursive schemas used as object schemas", () => {
+      const { errors } = generate({
+        sourceText: `
+          export interface Category {
+            name: string;
+            subcategories: Category[];
+          }
+
+          export interface Tag extends Omit<Category, "name"> {
+            label: string;
+          }
+        `,
+        schemaLibrary: "valibot",
+      });
+      expect(errors).toMatchInlineSnapshot(`
+        [
+          "'tagSchema' can't use the entries of the recursive schemas 'categorySchema' with valibot (typed as 'v.GenericSchema')",
+        ]
+      `);
+    });
+  });
+
+  describe("with JSON Schema output", () => {
+    const sourceText = `
+      export enum Superhero {
+        Superman = "superman",
+        ClarkKent = "clark-kent"
+      };
+
+      export interface Villain {
+        /**
+         * @minLength 2
+         */
+        name: string;
+        superhero?: Superhero;
+        friends: Villain[];
+      }
+      `;
+
+    const { getJsonSchemaFile } = generate({
+      sourceText,
+    });
+
+    it("should generate one definition per schema", () => {
+      expect(getJsonSchemaFile()).toMatchInlineSnapshot(`
+        "{
+          "$schema": "https://json-schema.org/draft/2020-12/schema",
+          "$defs": {
+            "Superhero": {
+              "type": "string",
+              "enum": [
+                "superman",
+                "clark-kent"
+              ]
+            },
+            "Villain": {
+              "type": "object",
+              "properties": {
+                "name": {
+                  "type": "string",
+                  "minLength": 2
+                },
+                "superhero": {
+                  "$ref": "#/$defs/Superhero"
+                },
+                "friends": {
+                  "type": "array",
+                  "items": {
+                    "$ref": "#/$defs/Villain"
+                  }
+                }
+              },
+              "required": [
+                "name",
+                "friends"
+              ]
+            }
+          }
+        }
+        "
+      `);
+    });
+
+    it("should throw if some types can't be represented", () => {
+      const { getJsonSchemaFile } = generate({
+        sourceText: `
+          export interface Villain {
+            plan: Promise<string>;
+            allies: Page<Villain>;
+          }
+
+          export interface Page<T> {
+            items: T[];
+          }
+          `,
+      });
+
+      expect(() => getJsonSchemaFile()).toThrowErrorMatchingInlineSnapshot(`
+        "Some types can't be represented in JSON Schema:
+        'Page': 'Page<T>'
+        'Villain': 'Promise<string>'
+        'Villain': 'Page<…>'"
+      `);
+    });
+  });
+
+  describe("with OpenAPI output", () => {
+    const sourceText = `
+      export interface Villain {
+        name: string;
+        /**
+         * @deprecated
+         */
+        nickname: string | null;
+        friends: Villain[];
+      }
+      `;
+
+    const { getOpenApiFile } = generate({
+      sourceText,
+    });
+
+    it("should generate the schemas in the components", () => {
+      expect(getOpenApiFile({ title: "villain", version: "1.0.0" }))
+        .toMatchInlineSnapshot(`
+          "{
+            "openapi": "3.1.0",
+            "info": {
+              "title": "villain",
+              "version": "1.0.0"
+            },
+            "paths": {},
+            "components": {
+              "schemas": {
+                "Villain": {
+                  "type": "object",
+                  "properties": {
+                    "name": {
+                      "type": "string"
+                    },
+                    "nickname": {
+                      "type": [
+                        "string",
+                        "null"
+                      ],
+                      "deprecated": true
+                    },
+                    "friends": {
+                      "type": "array",
+                      "items": {
+                        "$ref": "#/components/schemas/Villain"
+                      }
+                    }
+                  },
+                  "required": [
+                    "name",
+                    "nickname",
+                    "friends"
+                  ]
+                }
+              }
+            }
+          }
+          "
+        `);
+    });
+
+    it("should generate the operation stubs", () => {
+      const { getOpenApiFile } = generate({
+        sourceText: `
+          /**
+           * @operation get /villains/{villainId}
+           * @operation put /villains/{villainId}
+           */
+          export interface Villain {
+            name: string;
+          }
+          `,
+      });
+
+      expect(
+        JSON.parse(getOpenApiFile({ title: "villain", version: "1.0.0" })).paths
+      ).toMatchInlineSnapshot(`
+        {
+          "/villains/{villainId}": {
+            "get": {
+              "operationId": "getVillainsVillainId",
+              "parameters": [
+                {
+                  "in": "path",
+                  "name": "villainId",
+                  "required": true,
+                  "schema": {
+                    "type": "string",
+                  },
+                },
+              ],
+              "responses": {
+                "200": {
+                  "content": {
+                    "application/json": {
+                      "schema": {
+                        "$ref": "#/components/schemas/Villain",
+                      },
+                    },
+                  },
+                  "description": "Villain",
+                },
+              },
+            },
+            "put": {
+              "operationId": "putVillainsVillainId",
+              "parameters": [
+                {
+                  "in": "path",
+                  "name": "villainId",
+                  "required": true,
+                  "schema": {
+                    "type": "string",
+                  },
+                },
+              ],
+              "requestBody": {
+                "content": {
+                  "application/json": {
+                    "schema": {
+                      "$ref": "#/components/schemas/Villain",
+                    },
+                  },
+                },
+                "required": true,
+              },
+              "responses": {
+                "200": {
+                  "content": {
+                    "application/json": {
+                      "schema": {
+                        "$ref": "#/components/schemas/Villain",
+                      },
+                    },
+                  },
+                  "description": "Villain",
+                },
+              },
+            },
+          },
+        }
+      `);
+    });
+  });
+
+  describe("with a custom emitter", () => {
+    const sourceText = `
+      export interface Villain {
+        name: string;
+        friends: Villain[];
+      }
+
+      export type EvilPlan = {
+        villain: Villain;
+      };
+      `;
+
+    const { getZodSchemasFile, getSchemaIR } = generate({
+      sourceText,
+      emitter: {
+        emit: (declarations, { typesImportPath }) =>
+          [
+            `// types: ${typesImportPath}`,
+            ...declarations.map(
+              ({ schemaName, schema, isRecursive }) =>
+                `${schemaName}: ${schema.kind}${
+                  isRecursive ? " (recursive)" : ""
+                }`
+            ),
+          ].join("\n"),
+      },
+    });
+
+    it("should generate the schemas file with the emitter", () => {
+      expect(getZodSchemasFile("./villain")).toMatchInlineSnapshot(`
+        "// types: ./villain
+        villainSchema: object (recursive)
+        evilPlanSchema: object"
+      `);
+    });
+
+    it("should expose the intermediate representation", () => {
+      expect(getSchemaIR().map(({ typeName }) => typeName)).toEqual([
+        "Villain",
+        "EvilPlan",
+      ]);
+    });
+
+    it("should warn about the types that can't be represented", () => {
+      const { errors } = generate({
+        sourceText: `
+          export type Villain = {
+            plan: Promise<string>;
+            getters: { [K in keyof Hero as \`get\${K}\`]: () => Hero[K] };
+          };
+
+          export interface Hero {
+            name: string;
+          }
+          `,
+        emitter: { emit: () => "" },
+      });
+
+      expect(errors).toMatchInlineSnapshot(`
+        [
+          "'Villain' can't be fully represented for the emitter, 'Promise<string>' is emitted as 'any'",
+          "'Villain' can't be fully represented for the emitter, '{ [K in keyof Hero as \`get\${K}\`]: () => Hero[K]; }' is emitted as 'any'",
+        ]
+      `);
+    });
+  });
+
   describe("with template literal", () => {
     describe("should handle simple reference of one union type", () => {
       const sourceText =
@@ -292,6 +850,38 @@ describe("generate", () => {
         expect(errors.length).toBe(0);
       });
     });
+
+    describe("should handle primitive placeholders", () => {
+      const sourceText =
+        'export type Unit = "px" | "em";' +
+        "export type Size = `${number}${Unit}`;" +
+        "export type HeroId = `hero_${string}`;" +
+        "export type Slug = `${Lowercase<string>}-${number}`;";
+
+      const { getZodSchemasFile, errors } = generate({
+        sourceText,
+      });
+
+      it("should generate the zod schemas", () => {
+        expect(getZodSchemasFile("./superhero")).toMatchInlineSnapshot(`
+          "// Generated by ts-to-zod
+          import { z } from "zod";
+
+          export const unitSchema = z.union([z.literal("px"), z.literal("em")]);
+
+          export const sizeSchema = z.string().regex(/^\\d+(\\.\\d+)?(px|em)$/);
+
+          export const heroIdSchema = z.string().regex(/^hero_.*$/);
+
+          export const slugSchema = z.string().regex(/^[^A-Z]*-\\d+(\\.\\d+)?$/);
+          "
+        `);
+      });
+
+      it("should not have any errors", () => {
+        expect(errors.length).toBe(0);
+      });
+    });
   });
 
   describe("with circular references", () => {
@@ -388,6 +978,165 @@ describe("generate", () => {
     });
   });
 
+  describe("with inlined imports", () => {
+    const sourceText = `
+      export interface Team {
+        members: Person[];
+      }
+
+      export interface Person {
+        role: Role;
+        friends: Person[];
+      }
+
+      export enum Role {
+        Admin = "admin",
+        User = "user",
+      }
+      `;
+
+    const { getZodSchemasFile } = generate({
+      sourceText,
+      inlinedImports: [
+        { name: "Person", original: "User", from: "./models/user" },
+        { name: "Role", from: "./models/user" },
+      ],
+    });
+
+    it("should import the type hints & enums from their own file", () => {
+      expect(getZodSchemasFile("../src/team")).toMatchInlineSnapshot(`
+        "// Generated by ts-to-zod
+        import { z } from "zod";
+        import { type User as Person, Role } from "../src/models/user";
+
+        export const roleSchema = z.nativeEnum(Role);
+
+        export const personSchema: z.ZodSchema<Person> = z.lazy(() => z.object({
+            role: roleSchema,
+            friends: z.array(personSchema)
+        }));
+
+        export const teamSchema = z.object({
+            members: z.array(personSchema)
+        });
+        "
+      `);
+    });
+  });
+
+  describe("with generics", () => {
+    const sourceText = `
+    export interface Paginated<T> {
+      items: T[];
+      total: number;
+    }
+
+    export type Page = Paginated<Villain>;
+
+    export interface Villain {
+      name: string;
+    }
+    `;
+
+    const { getZodSchemasFile, getIntegrationTestFile, getInferredTypes } =
+      generate({
+        sourceText,
+      });
+
+    it("should generate the zod schemas", () => {
+      expect(getZodSchemasFile("./villain")).toMatchInlineSnapshot(`
+        "// Generated by ts-to-zod
+        import { z } from "zod";
+
+        export const paginatedSchema = <T extends z.ZodTypeAny>(t: T) => z.object({
+            items: z.array(t),
+            total: z.number()
+        });
+
+        export const villainSchema = z.object({
+            name: z.string()
+        });
+
+        export const pageSchema = paginatedSchema(villainSchema);
+        "
+      `);
+    });
+
+    it("should not generate integration tests for the schema factories", () => {
+      expect(getIntegrationTestFile("./villain", "villain.zod"))
+        .toMatchInlineSnapshot(`
+        "// Generated by ts-to-zod
+        import { z } from "zod";
+
+        import * as spec from "./villain";
+        import * as generated from "villain.zod";
+
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        function expectType<T>(_: T) {
+          /* noop */
+        }
+
+        export type villainSchemaInferredType = z.infer<typeof generated.villainSchema>;
+
+        export type pageSchemaInferredType = z.infer<typeof generated.pageSchema>;
+
+        expectType<spec.Villain>({} as villainSchemaInferredType)
+        expectType<villainSchemaInferredType>({} as spec.Villain)
+        expectType<spec.Page>({} as pageSchemaInferredType)
+        expectType<pageSchemaInferredType>({} as spec.Page)
+        "
+      `);
+    });
+
+    it("should fill the missing type arguments with the defaults", () => {
+      const { getZodSchemasFile } = generate({
+        sourceText: `
+        export interface ApiResponse<TData, TError = string> {
+          data?: TData;
+          error?: TError;
+        }
+
+        export type UserResponse = ApiResponse<User>;
+
+        export interface User {
+          name: string;
+        }
+        `,
+      });
+
+      expect(getZodSchemasFile("./api")).toMatchInlineSnapshot(`
+        "// Generated by ts-to-zod
+        import { z } from "zod";
+
+        export const apiResponseSchema = <TData extends z.ZodTypeAny, TError extends z.ZodTypeAny>(tData: TData, tError: TError) => z.object({
+            data: tData.optional(),
+            error: tError.optional()
+        });
+
+        export const userSchema = z.object({
+            name: z.string()
+        });
+
+        export const userResponseSchema = apiResponseSchema(userSchema, z.string());
+        "
+      `);
+    });
+
+    it("should not generate inferred types for the schema factories", () => {
+      expect(getInferredTypes("./villain.zod")).toMatchInlineSnapshot(`
+        "// Generated by ts-to-zod
+        import { z } from "zod";
+
+        import * as generated from "./villain.zod";
+
+        export type Villain = z.infer<typeof generated.villainSchema>;
+
+        export type Page = z.infer<typeof generated.pageSchema>;
+        "
+      `);
+    });
+  });
+
   describe("with options", () => {
     const sourceText = `export interface Superman {
       /**
@@ -681,6 +1430,140 @@ describe("generate", () => {
     });
   });
 
+  describe("with custom JSDoc tags", () => {
+    const sourceText = `
+      export interface Article {
+        /**
+         * @slug
+         */
+        slug: string;
+        /**
+         * @slug
+         */
+        parentSlug?: string;
+        /**
+         * @isbn
+         */
+        isbn: string;
+      }
+      `;
+
+    const { getZodSchemasFile, errors } = generate({
+      sourceText,
+      customJSDocTags: {
+        slug: () => ({
+          identifier: "refine",
+          expressions: ["isSlug"],
+          imports: [{ name: "isSlug", from: "./validators" }],
+        }),
+        isbn: () => ({
+          identifier: "refine",
+          expressions: ["isIsbn"],
+          imports: [{ name: "isIsbn", from: "./validators" }],
+        }),
+      },
+    });
+
+    it("should import the helpers of the custom tags", () => {
+      expect(getZodSchemasFile("./article")).toMatchInlineSnapshot(`
+        "// Generated by ts-to-zod
+        import { z } from "zod";
+
+        import { isSlug, isIsbn } from "./validators";
+
+        export const articleSchema = z.object({
+            slug: z.string().refine(isSlug),
+            parentSlug: z.string().refine(isSlug).optional(),
+            isbn: z.string().refine(isIsbn)
+        });
+        "
+      `);
+    });
+
+    it("should not have any errors", () => {
+      expect(errors.length).toBe(0);
+    });
+  });
+
+  describe("with @refine & @transform tags", () => {
+    const sourceText = `
+      export interface Article {
+        /**
+         * @refine ./validators#isSlug "Invalid slug"
+         */
+        slug: string;
+        /**
+         * @transform ./parsers#toDate
+         */
+        publishedAt: string;
+      }
+
+      export interface Blog {
+        articles: Article[];
+        /**
+         * @refine ../utils/validators#isName
+         */
+        name: string;
+      }
+      `;
+
+    const { getZodSchemasFile, getIntegrationTestFile, errors } = generate({
+      sourceText,
+    });
+
+    it("should import the helpers relatively to the schemas file", () => {
+      expect(getZodSchemasFile("./../types/blog")).toMatchInlineSnapshot(`
+        "// Generated by ts-to-zod
+        import { z } from "zod";
+
+        import { isSlug } from "../types/validators";
+        import { toDate } from "../types/parsers";
+        import { isName } from "../utils/validators";
+
+        export const articleSchema = z.object({
+            slug: z.string().refine(isSlug, { message: "Invalid slug" }),
+            publishedAt: z.string().transform(toDate)
+        });
+
+        export const blogSchema = z.object({
+            articles: z.array(articleSchema),
+            name: z.string().refine(isName)
+        });
+        "
+      `);
+    });
+
+    it("should compare the input type of the transformed schemas", () => {
+      expect(getIntegrationTestFile("./blog", "./blog.zod"))
+        .toMatchInlineSnapshot(`
+        "// Generated by ts-to-zod
+        import { z } from "zod";
+
+        import * as spec from "./blog";
+        import * as generated from "./blog.zod";
+
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        function expectType<T>(_: T) {
+          /* noop */
+        }
+
+        export type articleSchemaInferredType = z.input<typeof generated.articleSchema>;
+
+        export type blogSchemaInferredType = z.input<typeof generated.blogSchema>;
+
+        expectType<spec.Article>({} as articleSchemaInferredType)
+        expectType<articleSchemaInferredType>({} as spec.Article)
+        expectType<spec.Blog>({} as blogSchemaInferredType)
+        expectType<blogSchemaInferredType>({} as spec.Blog)
+        "
+      `);
+    });
+
+    it("should not have any errors", () => {
+      expect(errors.length).toBe(0);
+    });
+  });
+
   describe("with import statements", () => {
     describe("single import", () => {
       const sourceText = `
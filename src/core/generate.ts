@@ -6,10 +6,22 @@ import {
   JSDocTagFilter,
   NameFilter,
   CustomJSDocFormatTypes,
-  MaybeConfig,
+  CustomJSDocTags,
+  EnumStyle,
+  ClassStyle,
+  CoerceTypes,
+  ZodVersion,
+  SchemaLibrary,
+  Emitter,
 } from "../config";
 import { getSimplifiedJsDocTags } from "../utils/getSimplifiedJsDocTags";
 import { resolveModules } from "../utils/resolveModules";
+import {
+  enumsToLiteralTypes,
+  getEnumMemberValues,
+} from "../utils/enumHandling";
+import { templateLiteralsToString } from "../utils/templateLiteralPattern";
+import { classesToInterfaces } from "../utils/classHandling";
 import {
   getReferencedTypeNames,
   isTypeNode,
@@ -31,7 +43,19 @@ import {
   generateZodSchemaVariableStatementForImport,
 } from "./generateZodSchema";
 import { transformRecursiveSchema } from "./transformRecursiveSchema";
-import { areImportPathsEqualIgnoringExtension } from "../utils/getImportPath";
+import { transformValibotSchema } from "./transformValibotSchema";
+import { generateJsonSchema } from "./generateJsonSchema";
+import { getJSDocTags } from "./jsDocTags";
+import {
+  generateSchemaIR,
+  getUnsupportedTypes,
+  SchemaDeclaration,
+} from "./generateSchemaIR";
+import {
+  areImportPathsEqualIgnoringExtension,
+  getSourceRelativeImportPath,
+} from "../utils/getImportPath";
+import { InlinedImport } from "../utils/inlineImportedTypes";
 
 const DEFAULT_GET_SCHEMA = (id: string) => camel(id) + "Schema";
 
@@ -73,18 +97,77 @@ export interface GenerateProps {
    * Path of z.infer<> types file.
    */
   inferredTypes?: string;
+
+  /**
+   * Path of the JSON Schema file.
+   */
+  jsonSchemaOutput?: string;
+
+  /**
+   * Path of the OpenAPI 3.1 document.
+   */
+  openApiOutput?: string;
+
   /**
    * Custom JSDoc format types.
    */
   customJSDocFormatTypes?: CustomJSDocFormatTypes;
 
+  /**
+   * Custom JSDoc tag handlers.
+   */
+  customJSDocTags?: CustomJSDocTags;
+
+  /**
+   * Schema generated for enums and string literal unions.
+   *
+   * @default "nativeEnum"
+   */
+  enumStyle?: EnumStyle;
+
+  /**
+   * Schema generated for classes.
+   *
+   * @default "object"
+   */
+  classStyle?: ClassStyle;
+
+  /**
+   * Primitive types parsed with `z.coerce.*`.
+   */
+  coerce?: CoerceTypes;
+
+  /**
+   * Major version of zod targeted by the generated schemas.
+   *
+   * @default 3
+   */
+  zodVersion?: ZodVersion;
+
+  /**
+   * Schema library targeted by the generated schemas.
+   *
+   * @default "zod"
+   */
+  schemaLibrary?: SchemaLibrary;
+
+  /**
+   * Custom emitter generating the schemas file from the intermediate
+   * representation of the schemas (replaces the zod schemas).
+   */
+  emitter?: Emitter;
+
   /**
    * Map of input/output from config that can
    * be used to automatically handle imports
    */
   inputOutputMappings?: InputOutputMapping[];
 
-  maybeConfig?: MaybeConfig;
+  /**
+   * Declarations inlined from other files (`resolveImports`), the type
+   * hints & enums are imported from their own file.
+   */
+  inlinedImports?: InlinedImport[];
 }
 
 /**
@@ -94,15 +177,25 @@ export interface GenerateProps {
  */
 export function generate({
   sourceText,
-  maybeConfig,
   nameFilter = () => true,
   jsDocTagFilter = () => true,
   getSchemaName = DEFAULT_GET_SCHEMA,
   keepComments = false,
   skipParseJSDoc = false,
   customJSDocFormatTypes = {},
+  customJSDocTags = {},
+  enumStyle = "nativeEnum",
+  classStyle = "object",
+  coerce,
+  zodVersion = 3,
+  schemaLibrary = "zod",
+  emitter,
   inputOutputMappings = [],
+  inlinedImports = [],
 }: GenerateProps) {
+  // Valibot schemas are translated from zod v3 schemas
+  const targetZodVersion = schemaLibrary === "valibot" ? 3 : zodVersion;
+
   // Create a source file and deal with modules
   const sourceFile = resolveModules(sourceText);
 
@@ -176,11 +269,7 @@ export function generate({
 
   ts.forEachChild(sourceFile, typeNameMapBuilder);
   const visitor = (node: ts.Node) => {
-    if (
-      ts.isInterfaceDeclaration(node) ||
-      ts.isTypeAliasDeclaration(node) ||
-      ts.isEnumDeclaration(node)
-    ) {
+    if (isTypeNode(node)) {
       const jsDoc = getJsDoc(node, sourceFile);
       const tags = getSimplifiedJsDocTags(jsDoc);
       if (!jsDocTagFilter(tags)) return;
@@ -270,7 +359,11 @@ export function generate({
       getDependencyName,
       skipParseJSDoc,
       customJSDocFormatTypes,
-      maybeConfig,
+      customJSDocTags,
+      enumStyle,
+      classStyle,
+      coerce,
+      zodVersion: targetZodVersion,
     });
 
     return {
@@ -279,6 +372,9 @@ export function generate({
       dependencies: result.dependencies,
       statement: result.statement,
       enumImport: result.enumImport,
+      customImports: result.customImports || [],
+      helperFunctions: result.helperFunctions || [],
+      hasTransform: Boolean(result.hasTransform),
     };
   });
 
@@ -296,9 +392,21 @@ export function generate({
       dependencies: [],
       statement,
       enumImport: false,
+      customImports: [],
+      helperFunctions: [],
+      hasTransform: false,
     };
   });
 
+  // Generic declarations are generated as schema factories, they don't have a single inferred type
+  const schemaFactoryTypeNames = new Set(
+    nodes
+      .filter((node) => !ts.isEnumDeclaration(node) && node.typeParameters)
+      .map((node) => node.name.text)
+  );
+  const hasInferredType = ({ typeName }: { typeName: string }) =>
+    !schemaFactoryTypeNames.has(typeName);
+
   const zodSchemas = [...zodTypeSchemas, ...zodImportSchemas];
   const zodSchemaNames = zodSchemas.map(({ varName }) => varName);
 
@@ -313,6 +421,9 @@ export function generate({
   const sourceTypeImports: Set<string> = new Set();
   const sourceEnumImports: Set<string> = new Set();
 
+  // Keep track of the schemas referencing themselves (directly or not)
+  const recursiveTypeNames: Set<string> = new Set();
+
   // Zod schemas with direct or indirect dependencies that are not in `zodSchemas`, won't be generated
   const zodSchemasWithMissingDependencies = new Set<string>();
 
@@ -340,15 +451,17 @@ export function generate({
       if (notGeneratedDependencies.length === 0) {
         done = false;
         if (isCircular) {
-          sourceTypeImports.add(typeName);
-          statements.set(varName, {
-            value: transformRecursiveSchema(
-              "z",
-              statement as ts.VariableStatement,
-              typeName
-            ),
+          const value = transformRecursiveSchema(
+            "z",
+            statement as ts.VariableStatement,
             typeName,
-          });
+            targetZodVersion
+          );
+          if (hasTypeHint(value)) {
+            sourceTypeImports.add(typeName);
+          }
+          recursiveTypeNames.add(typeName);
+          statements.set(varName, { value, typeName });
         } else {
           if (enumImport) {
             sourceEnumImports.add(typeName);
@@ -380,11 +493,17 @@ export function generate({
         !zodSchemasWithMissingDependencies.has(varName)
     )
     .forEach(({ varName, statement, typeName }) => {
-      sourceTypeImports.add(typeName);
-      statements.set(varName, {
-        value: transformRecursiveSchema("z", statement, typeName),
+      const value = transformRecursiveSchema(
+        "z",
+        statement,
         typeName,
-      });
+        targetZodVersion
+      );
+      if (hasTypeHint(value)) {
+        sourceTypeImports.add(typeName);
+      }
+      recursiveTypeNames.add(typeName);
+      statements.set(varName, { value, typeName });
     });
 
   // Warn the user of possible not resolvable loops
@@ -397,6 +516,43 @@ ${Array.from(zodSchemasWithMissingDependencies).join("\n")}`
     );
   }
 
+  // The string enums generated as values are validated against their values
+  // (see `enumsToLiteralTypes`), the parsed values are not assignable to the enums
+  if (enumStyle !== "nativeEnum") {
+    new Set(nodes.filter(ts.isEnumDeclaration)).forEach((node) => {
+      if (
+        getEnumMemberValues(node)?.some((value) => typeof value === "string")
+      ) {
+        errors.push(
+          `'${getSchemaName(node.name.text)}' infers the values of '${
+            node.name.text
+          }', not the enum: the parsed values are not assignable to the enum type (use enumStyle "nativeEnum" to keep it)`
+        );
+      }
+    });
+  }
+
+  // Valibot recursive schemas are typed as `v.GenericSchema`, without their entries
+  if (schemaLibrary === "valibot") {
+    const lazySchemaNames = new Set(
+      Array.from(statements.entries())
+        .filter(([, { value }]) => hasTypeHint(value))
+        .map(([varName]) => varName)
+    );
+    statements.forEach(({ value }, varName) => {
+      const extendedSchemaNames = getObjectSchemaReferences(value).filter(
+        (name) => lazySchemaNames.has(name)
+      );
+      if (extendedSchemaNames.length > 0) {
+        errors.push(
+          `'${varName}' can't use the entries of the recursive schemas ${extendedSchemaNames
+            .map((name) => `'${name}'`)
+            .join(", ")} with valibot (typed as 'v.GenericSchema')`
+        );
+      }
+    });
+  }
+
   // Create output files (zod schemas & integration tests)
   const printer = ts.createPrinter({
     newLine: ts.NewLineKind.LineFeed,
@@ -410,7 +566,19 @@ ${Array.from(zodSchemasWithMissingDependencies).join("\n")}`
   const print = (node: ts.Node) =>
     printer.printNode(ts.EmitHint.Unspecified, node, sourceFile);
 
-  const transformedSourceText = printerWithComments.printFile(sourceFile);
+  // Template literals generated as regex are inferred as `string`, enums
+  // generated as literals are only compatible with their values and classes
+  // generated as objects only with their public properties
+  let transformedSourceFile = templateLiteralsToString(sourceFile);
+  if (enumStyle !== "nativeEnum") {
+    transformedSourceFile = enumsToLiteralTypes(transformedSourceFile);
+  }
+  if (classStyle === "object") {
+    transformedSourceFile = classesToInterfaces(transformedSourceFile);
+  }
+  const transformedSourceText = printerWithComments.printFile(
+    transformedSourceFile
+  );
 
   const zodImportToOutput = zodImportNodes.filter((node) => {
     const nodeIdentifiers = getImportIdentifiers(node);
@@ -424,42 +592,159 @@ ${Array.from(zodSchemasWithMissingDependencies).join("\n")}`
     )
   );
 
+  // Helpers imported by the custom JSDoc tags and the `@refine` & `@transform` tags of the generated schemas
+  const generatedSchemas = zodSchemas.filter(({ varName }) =>
+    statements.has(varName)
+  );
+  const getCustomImportsToOutput = (typesImportPath: string) => {
+    const customImports = new Map<string, Set<string>>();
+    generatedSchemas
+      .flatMap((schema) => [
+        ...schema.customImports,
+        ...schema.helperFunctions.map(({ name, path }) => ({
+          name,
+          from: getSourceRelativeImportPath(typesImportPath, path),
+        })),
+      ])
+      .forEach(({ name, from }) => {
+        customImports.set(
+          from,
+          (customImports.get(from) || new Set()).add(name)
+        );
+      });
+    return Array.from(customImports.entries()).map(([from, names]) =>
+      createImportNode(
+        Array.from(names).map((name) => ({ name })),
+        from
+      )
+    );
+  };
+
+  // The output type of a schema with a `@transform` tag (directly or not) differs from the source type
+  const transformedSchemaNames = new Set(
+    generatedSchemas
+      .filter(({ hasTransform }) => hasTransform)
+      .map(({ varName }) => varName)
+  );
+  let hasNewTransformedSchemas = transformedSchemaNames.size > 0;
+  while (hasNewTransformedSchemas) {
+    hasNewTransformedSchemas = false;
+    generatedSchemas.forEach(({ varName, dependencies }) => {
+      if (
+        !transformedSchemaNames.has(varName) &&
+        dependencies.some((dep) => transformedSchemaNames.has(dep))
+      ) {
+        transformedSchemaNames.add(varName);
+        hasNewTransformedSchemas = true;
+      }
+    });
+  }
+
   const sourceTypeImportsValues = [
     ...sourceTypeImports.values(),
     ...sourceEnumImports.values(),
-  ].map((name) => {
-    return sourceEnumImports.has(name)
-      ? name // enum import, no type notation added
-      : `type ${name}`;
-  });
+  ];
+
+  // Imports of the source types, by import path (relative to the source file)
+  const getSourceTypeImports = (typesImportPath: string) => {
+    const imports = new Map<string, string[]>();
+    sourceTypeImportsValues.forEach((name) => {
+      const inlinedImport = inlinedImports.find((i) => i.name === name);
+      const from = inlinedImport
+        ? getSourceRelativeImportPath(typesImportPath, inlinedImport.from)
+        : typesImportPath;
+      const identifier = inlinedImport?.original
+        ? `${inlinedImport.original} as ${name}`
+        : name;
+      imports.set(from, [
+        ...(imports.get(from) || []),
+        sourceEnumImports.has(name)
+          ? identifier // enum import, no type notation added
+          : `type ${identifier}`,
+      ]);
+    });
+    return Array.from(imports.entries()).map(
+      ([from, identifiers]) =>
+        `import { ${identifiers.join(", ")} } from "${from}";\n`
+    );
+  };
 
-  const getZodSchemasFile = (
-    typesImportPath: string
-  ) => `// Generated by ts-to-zod
-import { z } from "zod";
-${
-  sourceTypeImportsValues.length
-    ? `import { ${sourceTypeImportsValues.join(
-        ", "
-      )} } from "${typesImportPath}";\n`
-    : ""
-}
+  const schemaLibraryImport =
+    schemaLibrary === "valibot"
+      ? `import * as v from "valibot";`
+      : `import { z } from "${targetZodVersion === 4 ? "zod/v4" : "zod"}";`;
+
+  const printSchema = (node: ts.Node) =>
+    print(
+      schemaLibrary === "valibot"
+        ? transformValibotSchema("z", "v", node)
+        : node
+    );
+
+  // Intermediate representation of the local types, in the schemas order
+  const localTypeNames = new Set(
+    Array.from(statements.values())
+      .map(({ typeName }) => typeName)
+      .filter((typeName) => {
+        const node = typeNameMapping.get(typeName);
+        return node && isTypeNode(node);
+      })
+  );
+
+  const getSchemaIR = (): SchemaDeclaration[] =>
+    Array.from(localTypeNames).map((typeName) => ({
+      typeName,
+      schemaName: getSchemaName(typeName),
+      schema: generateSchemaIR({
+        node: typeNameMapping.get(typeName) as TypeNode,
+        sourceFile,
+        skipParseJSDoc,
+      }),
+      isRecursive: recursiveTypeNames.has(typeName),
+    }));
+
+  // The emitter only gets the intermediate representation
+  if (emitter) {
+    getSchemaIR().forEach(({ typeName, schema }) =>
+      getUnsupportedTypes(schema).forEach((type) =>
+        errors.push(
+          `'${typeName}' can't be fully represented for the emitter, '${type}' is emitted as 'any'`
+        )
+      )
+    );
+  }
+
+  const getZodSchemasFile = (typesImportPath: string) => {
+    if (emitter) {
+      return emitter.emit(getSchemaIR(), { typesImportPath });
+    }
+
+    const customImportsToOutput = getCustomImportsToOutput(typesImportPath);
+    return `// Generated by ts-to-zod
+${schemaLibraryImport}
+${getSourceTypeImports(typesImportPath).join("")}
 ${
   zodImportToOutput.length
     ? zodImportToOutput.map((node) => print(node)).join("\n") + "\n\n"
     : ""
 }${
-    originalImportsToOutput.length
-      ? originalImportsToOutput.map((node) => print(node)).join("\n") + "\n\n"
-      : ""
-  }${Array.from(statements.values())
-    .map((statement) => print(statement.value))
-    .join("\n\n")}
+      originalImportsToOutput.length
+        ? originalImportsToOutput.map((node) => print(node)).join("\n") + "\n\n"
+        : ""
+    }${
+      customImportsToOutput.length
+        ? customImportsToOutput.map((node) => print(node)).join("\n") + "\n\n"
+        : ""
+    }${Array.from(statements.values())
+      .map((statement) => printSchema(statement.value))
+      .join("\n\n")}
 `;
+  };
 
   const testCases = generateIntegrationTests(
     Array.from(statements.values())
       .filter(isExported)
+      .filter(hasInferredType)
       .map((i) => ({
         zodType: `${getSchemaName(i.typeName)}InferredType`,
         tsType: `spec.${i.typeName}`,
@@ -470,7 +755,7 @@ ${
     typesImportPath: string,
     zodSchemasImportPath: string
   ) => `// Generated by ts-to-zod
-import { z } from "zod";
+${schemaLibraryImport}
 
 import * as spec from "${typesImportPath}";
 import * as generated from "${zodSchemasImportPath}";
@@ -482,15 +767,19 @@ function expectType<T>(_: T) {
 
 ${Array.from(statements.values())
   .filter(isExported)
+  .filter(hasInferredType)
   .map((statement) => {
-    // Generate z.infer<>
+    // Generate z.infer<> (z.input<> for transformed schemas)
     const zodInferredSchema = generateZodInferredType({
       aliasName: `${getSchemaName(statement.typeName)}InferredType`,
       zodConstName: `generated.${getSchemaName(statement.typeName)}`,
       zodImportValue: "z",
+      inferType: transformedSchemaNames.has(getSchemaName(statement.typeName))
+        ? "input"
+        : "infer",
     });
 
-    return print(zodInferredSchema);
+    return printSchema(zodInferredSchema);
   })
   .join("\n\n")}
 
@@ -500,12 +789,13 @@ ${testCases.map(print).join("\n")}
   const getInferredTypes = (
     zodSchemasImportPath: string
   ) => `// Generated by ts-to-zod
-import { z } from "zod";
+${schemaLibraryImport}
 
 import * as generated from "${zodSchemasImportPath}";
 
 ${Array.from(statements.values())
   .filter(isExported)
+  .filter(hasInferredType)
   .map((statement) => {
     const zodInferredSchema = generateZodInferredType({
       aliasName: statement.typeName,
@@ -513,11 +803,119 @@ ${Array.from(statements.values())
       zodImportValue: "z",
     });
 
-    return print(zodInferredSchema);
+    return printSchema(zodInferredSchema);
   })
   .join("\n\n")}
 `;
 
+  const getJsonSchemaDefinitions = (referencePath: string) => {
+    const unsupportedTypes = new Set<string>();
+    const definitions = Object.fromEntries(
+      getSchemaIR().map(({ typeName, schema }) => {
+        // The type parameters can't be represented, a definition is not generic
+        const node = typeNameMapping.get(typeName) as TypeNode;
+        const typeParameters = ts.isEnumDeclaration(node)
+          ? undefined
+          : node.typeParameters;
+        if (typeParameters) {
+          unsupportedTypes.add(
+            `'${typeName}': '${typeName}<${typeParameters
+              .map(({ name }) => name.text)
+              .join(", ")}>'`
+          );
+          return [typeName, {}];
+        }
+
+        return [
+          typeName,
+          generateJsonSchema({
+            schema,
+            getReference: (name) =>
+              localTypeNames.has(name) ? `${referencePath}/${name}` : undefined,
+            customJSDocFormatTypes,
+            onUnsupported: (type) =>
+              unsupportedTypes.add(`'${typeName}': '${type}'`),
+          }),
+        ];
+      })
+    );
+
+    if (unsupportedTypes.size > 0) {
+      throw new Error(
+        `Some types can't be represented in JSON Schema:
+${Array.from(unsupportedTypes).join("\n")}`
+      );
+    }
+    return definitions;
+  };
+
+  const getJsonSchemaFile = () =>
+    `${JSON.stringify(
+      {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        $defs: getJsonSchemaDefinitions("#/$defs"),
+      },
+      null,
+      2
+    )}\n`;
+
+  // `@operation get /villains/{id}` => operation stub returning the declaration
+  const getOpenApiPaths = (referencePath: string) => {
+    const paths: Record<string, Record<string, unknown>> = {};
+    if (skipParseJSDoc) return paths;
+
+    localTypeNames.forEach((typeName) => {
+      const node = typeNameMapping.get(typeName) as TypeNode;
+      getJSDocTags(node, sourceFile).operation?.forEach(({ method, path }) => {
+        if (paths[path]?.[method]) {
+          throw new Error(
+            `The operation '${method} ${path}' of '${typeName}' is declared more than once`
+          );
+        }
+
+        const content = {
+          "application/json": {
+            schema: { $ref: `${referencePath}/${typeName}` },
+          },
+        };
+        const parameters = (path.match(/\{[^}]+\}/g) ?? []).map((name) => ({
+          name: name.slice(1, -1),
+          in: "path",
+          required: true,
+          schema: { type: "string" },
+        }));
+
+        paths[path] = {
+          ...paths[path],
+          [method]: {
+            operationId: camel(`${method} ${path}`),
+            ...(parameters.length ? { parameters } : {}),
+            ...(["post", "put", "patch"].includes(method)
+              ? { requestBody: { required: true, content } }
+              : {}),
+            responses: { "200": { description: typeName, content } },
+          },
+        };
+      });
+    });
+
+    return paths;
+  };
+
+  const getOpenApiFile = (info: { title: string; version: string }) =>
+    `${JSON.stringify(
+      {
+        openapi: "3.1.0",
+        info,
+        paths: getOpenApiPaths("#/components/schemas"),
+        components: {
+          schemas: getJsonSchemaDefinitions("#/components/schemas"),
+        },
+      },
+      null,
+      2
+    )}\n`;
+
   return {
     /**
      * Source text with pre-process applied.
@@ -546,6 +944,25 @@ ${Array.from(statements.values())
      */
     getInferredTypes,
 
+    /**
+     * Get the intermediate representation of the schemas, in dependency order.
+     */
+    getSchemaIR,
+
+    /**
+     * Get the content of the JSON Schema file (draft 2020-12), with one
+     * `$defs` entry per generated schema.
+     */
+    getJsonSchemaFile,
+
+    /**
+     * Get the content of the OpenAPI 3.1 document, with the schemas in
+     * `components.schemas` and the `@operation` stubs in `paths`.
+     *
+     * @param info OpenAPI info object (title & version of the API)
+     */
+    getOpenApiFile,
+
     /**
      * List of generation errors.
      */
@@ -565,3 +982,41 @@ ${Array.from(statements.values())
  */
 const isExported = (i: { typeName: string; value: ts.VariableStatement }) =>
   i.value.modifiers?.find((mod) => mod.kind === ts.SyntaxKind.ExportKeyword);
+
+/**
+ * Schemas used as object schemas (`heroSchema.extend()`, `heroSchema.shape.name`…).
+ */
+function getObjectSchemaReferences(statement: ts.VariableStatement) {
+  const objectMethods = [
+    "extend",
+    "omit",
+    "pick",
+    "partial",
+    "required",
+    "shape",
+  ];
+  const names: string[] = [];
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isPropertyAccessExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      objectMethods.includes(node.name.text)
+    ) {
+      names.push(node.expression.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(statement);
+  return names.filter((name, index) => names.indexOf(name) === index);
+}
+
+/**
+ * Check if a recursive schema has a type hint (`z.ZodSchema<Type>`), so the
+ * type needs to be imported from the source file.
+ */
+function hasTypeHint(statement: ts.VariableStatement) {
+  const { type, initializer } = statement.declarationList.declarations[0];
+  return Boolean(
+    type || (initializer && ts.isArrowFunction(initializer) && initializer.type)
+  );
+}
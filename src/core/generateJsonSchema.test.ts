@@ -0,0 +1,877 @@
+import ts from "typescript";
+import { findNode } from "../utils/findNode";
+import { isTypeNode } from "../utils/traverseTypes";
+import { generateJsonSchema } from "./generateJsonSchema";
+import { generateSchemaIR } from "./generateSchemaIR";
+
+describe("generateJsonSchema", () => {
+  it("should generate primitives", () => {
+    expect(
+      generate(`export type Hero = {
+        name: string;
+        age: number;
+        isVillain: boolean;
+        birthday: Date;
+        nothing: null;
+        anything: any;
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "properties": {
+          "age": {
+            "type": "number",
+          },
+          "anything": {},
+          "birthday": {
+            "format": "date-time",
+            "type": "string",
+          },
+          "isVillain": {
+            "type": "boolean",
+          },
+          "name": {
+            "type": "string",
+          },
+          "nothing": {
+            "type": "null",
+          },
+        },
+        "required": [
+          "name",
+          "age",
+          "isVillain",
+          "birthday",
+          "nothing",
+          "anything",
+        ],
+        "type": "object",
+      }
+    `);
+  });
+
+  it("should generate optional & nullable properties", () => {
+    expect(
+      generate(`export interface Hero {
+        name?: string;
+        nickname: string | null;
+        /**
+         * The hero age
+         * @minimum 0
+         * @default null
+         */
+        age: number | null;
+        cape: string | undefined;
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "properties": {
+          "age": {
+            "default": null,
+            "minimum": 0,
+            "type": [
+              "number",
+              "null",
+            ],
+          },
+          "cape": {
+            "type": "string",
+          },
+          "name": {
+            "type": "string",
+          },
+          "nickname": {
+            "type": [
+              "string",
+              "null",
+            ],
+          },
+        },
+        "required": [
+          "nickname",
+          "age",
+        ],
+        "type": "object",
+      }
+    `);
+  });
+
+  it("should generate nullable references & enums", () => {
+    expect(
+      generate(`export interface Superman {
+        friend: Hero | null;
+        power: "fly" | "strength" | null;
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "properties": {
+          "friend": {
+            "anyOf": [
+              {
+                "$ref": "#/$defs/Hero",
+              },
+              {
+                "type": "null",
+              },
+            ],
+          },
+          "power": {
+            "enum": [
+              "fly",
+              "strength",
+              null,
+            ],
+            "type": [
+              "string",
+              "null",
+            ],
+          },
+        },
+        "required": [
+          "friend",
+          "power",
+        ],
+        "type": "object",
+      }
+    `);
+  });
+
+  it("should preserve @deprecated & @example", () => {
+    expect(
+      generate(`export interface Hero {
+        /**
+         * @deprecated use the name instead
+         * @example "Clark Kent"
+         */
+        nickname: string;
+        /**
+         * @example { "fly": true }
+         */
+        powers: Record<string, boolean>;
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "properties": {
+          "nickname": {
+            "deprecated": true,
+            "examples": [
+              "Clark Kent",
+            ],
+            "type": "string",
+          },
+          "powers": {
+            "additionalProperties": {
+              "type": "boolean",
+            },
+            "examples": [
+              {
+                "fly": true,
+              },
+            ],
+            "type": "object",
+          },
+        },
+        "required": [
+          "nickname",
+          "powers",
+        ],
+        "type": "object",
+      }
+    `);
+  });
+
+  it("should generate literals & enums", () => {
+    expect(
+      generate(`export type Hero = {
+        kind: "hero";
+        power: "fly" | "strength";
+        level: 1 | 2 | -3;
+        mixed: "a" | 1 | true;
+        superhero: Superhero.Superman;
+      }
+
+      enum Superhero {
+        Superman = "superman",
+        ClarkKent = "clark-kent",
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "properties": {
+          "kind": {
+            "const": "hero",
+          },
+          "level": {
+            "enum": [
+              1,
+              2,
+              -3,
+            ],
+            "type": "number",
+          },
+          "mixed": {
+            "anyOf": [
+              {
+                "const": "a",
+              },
+              {
+                "const": 1,
+              },
+              {
+                "const": true,
+              },
+            ],
+          },
+          "power": {
+            "enum": [
+              "fly",
+              "strength",
+            ],
+            "type": "string",
+          },
+          "superhero": {
+            "const": "superman",
+          },
+        },
+        "required": [
+          "kind",
+          "power",
+          "level",
+          "mixed",
+          "superhero",
+        ],
+        "type": "object",
+      }
+    `);
+  });
+
+  it("should generate enum declarations", () => {
+    expect(
+      generate(`export enum Superhero {
+        Superman = "superman",
+        ClarkKent = "clark-kent",
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "enum": [
+          "superman",
+          "clark-kent",
+        ],
+        "type": "string",
+      }
+    `);
+  });
+
+  it("should map the JSDoc tags", () => {
+    expect(
+      generate(`export interface Hero {
+        /**
+         * @minLength 2
+         * @maxLength 50
+         * @pattern ^[A-Z]
+         */
+        name: string;
+        /**
+         * @format email
+         */
+        email: string;
+        /**
+         * @format url
+         */
+        website: string;
+        /**
+         * @format phone-number
+         */
+        phone: string;
+        /**
+         * @minLength 1
+         * @elementMaxLength 10
+         */
+        powers: string[];
+        /**
+         * @maximum 99
+         * @default 18
+         */
+        age: number;
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "properties": {
+          "age": {
+            "default": 18,
+            "maximum": 99,
+            "type": "number",
+          },
+          "email": {
+            "format": "email",
+            "type": "string",
+          },
+          "name": {
+            "maxLength": 50,
+            "minLength": 2,
+            "pattern": "^[A-Z]",
+            "type": "string",
+          },
+          "phone": {
+            "pattern": "^\\d{3}-\\d{4}$",
+            "type": "string",
+          },
+          "powers": {
+            "items": {
+              "maxLength": 10,
+              "type": "string",
+            },
+            "minItems": 1,
+            "type": "array",
+          },
+          "website": {
+            "format": "uri",
+            "type": "string",
+          },
+        },
+        "required": [
+          "name",
+          "email",
+          "website",
+          "phone",
+          "powers",
+          "age",
+        ],
+        "type": "object",
+      }
+    `);
+  });
+
+  it("should map the number JSDoc tags", () => {
+    expect(
+      generate(`export interface Hero {
+        /**
+         * @integer
+         * @positive
+         */
+        age: number;
+        /**
+         * @exclusiveMinimum 0
+         * @exclusiveMaximum 1
+         * @multipleOf 0.25
+         */
+        strength: number;
+        /**
+         * @elementNonnegative
+         */
+        scores: number[];
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "properties": {
+          "age": {
+            "exclusiveMinimum": 0,
+            "type": "integer",
+          },
+          "scores": {
+            "items": {
+              "minimum": 0,
+              "type": "number",
+            },
+            "type": "array",
+          },
+          "strength": {
+            "exclusiveMaximum": 1,
+            "exclusiveMinimum": 0,
+            "multipleOf": 0.25,
+            "type": "number",
+          },
+        },
+        "required": [
+          "age",
+          "strength",
+          "scores",
+        ],
+        "type": "object",
+      }
+    `);
+  });
+
+  it("should keep the stricter bound with @positive & @nonnegative", () => {
+    expect(
+      generate(`export interface Hero {
+        /**
+         * @minimum 5
+         * @nonnegative
+         */
+        age: number;
+        /**
+         * @exclusiveMinimum 10
+         * @positive
+         */
+        strength: number;
+        /**
+         * @minimum -5
+         * @nonnegative
+         */
+        level: number;
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "properties": {
+          "age": {
+            "minimum": 5,
+            "type": "number",
+          },
+          "level": {
+            "minimum": 0,
+            "type": "number",
+          },
+          "strength": {
+            "exclusiveMinimum": 10,
+            "type": "number",
+          },
+        },
+        "required": [
+          "age",
+          "strength",
+          "level",
+        ],
+        "type": "object",
+      }
+    `);
+  });
+
+  it("should map the array JSDoc tags", () => {
+    expect(
+      generate(`export interface Hero {
+        /**
+         * @nonempty
+         * @maxItems 5
+         * @uniqueItems
+         */
+        tags: string[];
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "properties": {
+          "tags": {
+            "items": {
+              "type": "string",
+            },
+            "maxItems": 5,
+            "minItems": 1,
+            "type": "array",
+            "uniqueItems": true,
+          },
+        },
+        "required": [
+          "tags",
+        ],
+        "type": "object",
+      }
+    `);
+  });
+
+  it("should generate references to other schemas", () => {
+    expect(
+      generate(`export interface Superman extends Hero {
+        friends: Hero[];
+        name: Hero["name"];
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "allOf": [
+          {
+            "$ref": "#/$defs/Hero",
+          },
+          {
+            "properties": {
+              "friends": {
+                "items": {
+                  "$ref": "#/$defs/Hero",
+                },
+                "type": "array",
+              },
+              "name": {
+                "$ref": "#/$defs/Hero/properties/name",
+              },
+            },
+            "required": [
+              "friends",
+              "name",
+            ],
+            "type": "object",
+          },
+        ],
+      }
+    `);
+  });
+
+  it("should generate discriminated unions", () => {
+    expect(
+      generate(`/**
+       * @discriminator kind
+       */
+      export type Hero = { kind: "superman"; fly: boolean } | { kind: "batman"; car: string };`)
+    ).toMatchInlineSnapshot(`
+      {
+        "discriminator": {
+          "propertyName": "kind",
+        },
+        "oneOf": [
+          {
+            "properties": {
+              "fly": {
+                "type": "boolean",
+              },
+              "kind": {
+                "const": "superman",
+              },
+            },
+            "required": [
+              "kind",
+              "fly",
+            ],
+            "type": "object",
+          },
+          {
+            "properties": {
+              "car": {
+                "type": "string",
+              },
+              "kind": {
+                "const": "batman",
+              },
+            },
+            "required": [
+              "kind",
+              "car",
+            ],
+            "type": "object",
+          },
+        ],
+      }
+    `);
+  });
+
+  it("should generate tuples & records", () => {
+    expect(
+      generate(`export type Hero = {
+        position: [number, number, number?];
+        path: [string, ...number[]];
+        powers: Record<string, number>;
+        stats: Record<"strength" | "speed", number>;
+        tags: Set<string>;
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "properties": {
+          "path": {
+            "items": {
+              "type": "number",
+            },
+            "minItems": 1,
+            "prefixItems": [
+              {
+                "type": "string",
+              },
+            ],
+            "type": "array",
+          },
+          "position": {
+            "items": false,
+            "minItems": 2,
+            "prefixItems": [
+              {
+                "type": "number",
+              },
+              {
+                "type": "number",
+              },
+              {
+                "type": "number",
+              },
+            ],
+            "type": "array",
+          },
+          "powers": {
+            "additionalProperties": {
+              "type": "number",
+            },
+            "type": "object",
+          },
+          "stats": {
+            "properties": {
+              "speed": {
+                "type": "number",
+              },
+              "strength": {
+                "type": "number",
+              },
+            },
+            "required": [
+              "strength",
+              "speed",
+            ],
+            "type": "object",
+          },
+          "tags": {
+            "items": {
+              "type": "string",
+            },
+            "type": "array",
+            "uniqueItems": true,
+          },
+        },
+        "required": [
+          "position",
+          "path",
+          "powers",
+          "stats",
+          "tags",
+        ],
+        "type": "object",
+      }
+    `);
+  });
+
+  it("should generate utility types of local types", () => {
+    expect(
+      generate(`export type Hero = {
+        light: Omit<Villain, "age">;
+        name: Pick<Villain, "name">;
+        partial: Partial<Villain>;
+      }
+
+      interface Villain {
+        name: string;
+        age: number;
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "properties": {
+          "light": {
+            "properties": {
+              "name": {
+                "type": "string",
+              },
+            },
+            "required": [
+              "name",
+            ],
+            "type": "object",
+          },
+          "name": {
+            "properties": {
+              "name": {
+                "type": "string",
+              },
+            },
+            "required": [
+              "name",
+            ],
+            "type": "object",
+          },
+          "partial": {
+            "properties": {
+              "age": {
+                "type": "number",
+              },
+              "name": {
+                "type": "string",
+              },
+            },
+            "type": "object",
+          },
+        },
+        "required": [
+          "light",
+          "name",
+          "partial",
+        ],
+        "type": "object",
+      }
+    `);
+  });
+
+  it("should generate strict objects & index signatures", () => {
+    expect(
+      generate(`/**
+       * @strict
+       */
+      export interface Hero {
+        name: string;
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "additionalProperties": false,
+        "properties": {
+          "name": {
+            "type": "string",
+          },
+        },
+        "required": [
+          "name",
+        ],
+        "type": "object",
+      }
+    `);
+    expect(
+      generate(`export type Powers = { main: string; [key: string]: string }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "additionalProperties": {
+          "type": "string",
+        },
+        "properties": {
+          "main": {
+            "type": "string",
+          },
+        },
+        "required": [
+          "main",
+        ],
+        "type": "object",
+      }
+    `);
+  });
+
+  it("should generate the types derived from other declarations", () => {
+    expect(
+      generate(`export type Villain = {
+        role: (typeof roles)[number];
+        flags: { [K in "read" | "write"]: boolean };
+        notAdmin: Exclude<Role, "admin">;
+      };
+
+      const roles = ["admin", "user"] as const;
+
+      type Role = "admin" | "user" | "guest";`)
+    ).toMatchInlineSnapshot(`
+      {
+        "properties": {
+          "flags": {
+            "properties": {
+              "read": {
+                "type": "boolean",
+              },
+              "write": {
+                "type": "boolean",
+              },
+            },
+            "required": [
+              "read",
+              "write",
+            ],
+            "type": "object",
+          },
+          "notAdmin": {
+            "enum": [
+              "user",
+              "guest",
+            ],
+            "type": "string",
+          },
+          "role": {
+            "enum": [
+              "admin",
+              "user",
+            ],
+            "type": "string",
+          },
+        },
+        "required": [
+          "role",
+          "flags",
+          "notAdmin",
+        ],
+        "type": "object",
+      }
+    `);
+  });
+
+  it("should report the types that can't be represented", () => {
+    const unsupportedTypes: string[] = [];
+    generate(
+      `export type Villain = {
+        plan: Promise<string>;
+        allies: Page<Villain>;
+        lairs: Map<string, string>;
+        handlers: Array<() => void>;
+        power: Power;
+        anything: unknown;
+      };`,
+      (type) => unsupportedTypes.push(type)
+    );
+
+    expect(unsupportedTypes).toEqual([
+      "Promise<string>",
+      "Page<…>",
+      "Map<…>",
+      "(…) => …",
+      "Power",
+    ]);
+  });
+
+  it("should skip the functions", () => {
+    expect(
+      generate(`export interface Hero {
+        name: string;
+        fly(): void;
+        run: () => void;
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "properties": {
+          "name": {
+            "type": "string",
+          },
+        },
+        "required": [
+          "name",
+        ],
+        "type": "object",
+      }
+    `);
+  });
+
+  it("should generate classes", () => {
+    expect(
+      generate(`export class Hero {
+        name = "superman";
+        private secret: string;
+        constructor(public age: number) {}
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "properties": {
+          "age": {
+            "type": "number",
+          },
+          "name": {
+            "default": "superman",
+            "type": "string",
+          },
+        },
+        "required": [
+          "name",
+          "age",
+        ],
+        "type": "object",
+      }
+    `);
+  });
+});
+
+function generate(sourceText: string, onUnsupported?: (type: string) => void) {
+  const sourceFile = ts.createSourceFile(
+    "index.ts",
+    sourceText,
+    ts.ScriptTarget.Latest
+  );
+  const node = findNode(sourceFile, isTypeNode);
+  if (!node) {
+    throw new Error("No `type`, `interface`, `enum` or `class` found!");
+  }
+
+  return generateJsonSchema({
+    schema: generateSchemaIR({ node, sourceFile }),
+    getReference: (name) => (name === "Hero" ? "#/$defs/Hero" : undefined),
+    customJSDocFormatTypes: { "phone-number": "^\\d{3}-\\d{4}$" },
+    onUnsupported,
+  });
+}
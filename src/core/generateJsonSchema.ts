@@ -0,0 +1,364 @@
+import { CustomJSDocFormatTypes } from "../config";
+import { JSDocTags, JsonValue, jsDocTagsToJsonSchema } from "./jsDocTags";
+import {
+  ObjectSchemaNode,
+  SchemaNode,
+  TupleSchemaNode,
+} from "./generateSchemaIR";
+
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null"
+  | "object"
+  | "array";
+
+/**
+ * JSON Schema (draft 2020-12) keywords generated from the types.
+ */
+export interface JsonSchema {
+  $ref?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  const?: JsonValue;
+  enum?: JsonValue[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema | boolean;
+  minProperties?: number;
+  maxProperties?: number;
+  items?: JsonSchema | boolean;
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  not?: JsonSchema;
+  discriminator?: { propertyName: string };
+  description?: string;
+  default?: JsonValue;
+  deprecated?: boolean;
+  examples?: JsonValue[];
+}
+
+export interface GenerateJsonSchemaProps {
+  /**
+   * Intermediate representation of the schema
+   */
+  schema: SchemaNode;
+
+  /**
+   * Getter for the `$ref` of a referenced type
+   *
+   * @returns The reference, `undefined` if the type has no schema
+   */
+  getReference: (typeName: string) => string | undefined;
+
+  /**
+   * Custom JSDoc format types.
+   */
+  customJSDocFormatTypes: CustomJSDocFormatTypes;
+
+  /**
+   * Called with the types that can't be represented (generated as `{}`):
+   * unsupported types, functions, `Map`, generic and non-local references.
+   */
+  onUnsupported?: (type: string) => void;
+}
+
+type BuildContext = Omit<GenerateJsonSchemaProps, "schema">;
+
+/**
+ * Generate the JSON Schema of a declaration.
+ *
+ * The validation keywords are generated from the JSDoc tags, like the zod
+ * schemas (`@minimum`, `@format`, `@pattern`…).
+ *
+ * Only `any` & `unknown` are generated as `{}`, the other types that can't be
+ * represented are reported to `onUnsupported` (the function properties are
+ * skipped, they are not part of the JSON data).
+ */
+export function generateJsonSchema({
+  schema,
+  ...context
+}: GenerateJsonSchemaProps): JsonSchema {
+  return buildSchema(schema, context);
+}
+
+function buildSchema(
+  node: SchemaNode,
+  context: BuildContext,
+  jsDocTags: JSDocTags = node.jsDocTags ?? {}
+): JsonSchema {
+  if (node.kind === "union") {
+    return buildUnionSchema(node.options, context, jsDocTags);
+  }
+  return withJSDocTags(buildTypeSchema(node, context), jsDocTags, context);
+}
+
+function buildTypeSchema(node: SchemaNode, context: BuildContext): JsonSchema {
+  switch (node.kind) {
+    case "primitive":
+      switch (node.type) {
+        case "string":
+        case "number":
+        case "boolean":
+        case "null":
+        case "object":
+          return { type: node.type };
+        case "bigint":
+          return { type: "integer" };
+        case "date":
+          return { type: "string", format: "date-time" };
+        case "never":
+        case "undefined":
+        case "void":
+          return { not: {} };
+        default:
+          if (node.unsupported) context.onUnsupported?.(node.unsupported);
+          return {};
+      }
+    case "literal":
+      return { const: node.value };
+    case "templateLiteral":
+      return node.pattern
+        ? { type: "string", pattern: node.pattern }
+        : { type: "string" };
+    case "array":
+      return { type: "array", items: buildSchema(node.element, context) };
+    case "set":
+      return {
+        type: "array",
+        uniqueItems: true,
+        items: buildSchema(node.element, context),
+      };
+    case "tuple":
+      return buildTupleSchema(node, context);
+    case "object":
+      return { type: "object", ...buildObjectSchema(node, context) };
+    case "record":
+      return buildRecordSchema(node.key, node.value, context);
+    case "intersection":
+      return {
+        allOf: node.types.map((type) => buildSchema(type, context)),
+      };
+    case "enum": {
+      const types = new Set(node.values.map((value) => typeof value));
+      return types.size === 1
+        ? { type: types.has("string") ? "string" : "number", enum: node.values }
+        : { enum: node.values };
+    }
+    case "reference": {
+      // `Hero["name"]` => `{ $ref: "#/$defs/Hero/properties/name" }`
+      if (node.typeArguments) {
+        context.onUnsupported?.(`${node.name}<…>`);
+        return {};
+      }
+      const reference = context.getReference(node.name);
+      if (!reference) {
+        context.onUnsupported?.(node.name);
+        return {};
+      }
+      return {
+        $ref:
+          node.property === undefined
+            ? reference
+            : `${reference}/properties/${escapeJsonPointer(node.property)}`,
+      };
+    }
+    case "map":
+      context.onUnsupported?.("Map<…>");
+      return {};
+    case "function":
+      context.onUnsupported?.("(…) => …");
+      return {};
+    case "union":
+      return buildUnionSchema(node.options, context, {});
+  }
+}
+
+function buildUnionSchema(
+  options: SchemaNode[],
+  context: BuildContext,
+  jsDocTags: JSDocTags
+): JsonSchema {
+  const isNull = (node: SchemaNode) =>
+    node.kind === "primitive" && node.type === "null";
+
+  const hasNull = options.some(isNull);
+  const types = options.filter(
+    (node) =>
+      !isNull(node) &&
+      !(
+        node.kind === "primitive" &&
+        (node.type === "undefined" || node.type === "void")
+      )
+  );
+  const { description, default: defaultValue, ...valueTags } = jsDocTags;
+
+  let schema: JsonSchema;
+  const literalValues = types.map((node) =>
+    node.kind === "literal" ? node.value : undefined
+  );
+
+  if (types.length === 0) {
+    schema = hasNull ? { type: "null" } : { not: {} };
+  } else if (types.length === 1) {
+    schema = buildSchema(types[0], context, hasNull ? valueTags : jsDocTags);
+  } else if (
+    literalValues.every((value) => typeof value === "string") ||
+    literalValues.every((value) => typeof value === "number")
+  ) {
+    // `"a" | "b"` => `{ type: "string", enum: ["a", "b"] }`
+    schema = withJSDocTags(
+      {
+        type: typeof literalValues[0] === "string" ? "string" : "number",
+        enum: literalValues as JsonValue[],
+      },
+      hasNull ? valueTags : jsDocTags,
+      context
+    );
+  } else {
+    const { discriminator, ...tags } = hasNull ? valueTags : jsDocTags;
+    const schemas = types.map((type) => buildSchema(type, context));
+    schema = withJSDocTags(
+      discriminator
+        ? { oneOf: schemas, discriminator: { propertyName: discriminator } }
+        : { anyOf: schemas },
+      tags,
+      context
+    );
+  }
+
+  if (!hasNull || types.length === 0) return schema;
+
+  // `string | null` => `{ type: ["string", "null"] }`
+  const nullableSchema: JsonSchema =
+    typeof schema.type === "string" && schema.const === undefined
+      ? {
+          ...schema,
+          type: [schema.type, "null"],
+          ...(schema.enum ? { enum: [...schema.enum, null] } : {}),
+        }
+      : { anyOf: [schema, { type: "null" }] };
+
+  return withJSDocTags(
+    nullableSchema,
+    { description, default: defaultValue },
+    context
+  );
+}
+
+function buildObjectSchema(
+  node: ObjectSchemaNode,
+  context: BuildContext
+): Pick<JsonSchema, "properties" | "required" | "additionalProperties"> {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  node.properties.forEach(({ name, schema, optional }) => {
+    // Functions are not part of the JSON data
+    if (schema.kind === "function") return;
+
+    properties[name] = buildSchema(schema, context);
+    if (!optional) required.push(name);
+  });
+
+  return {
+    properties,
+    ...(required.length ? { required } : {}),
+    ...(node.additionalProperties
+      ? {
+          additionalProperties: buildSchema(node.additionalProperties, context),
+        }
+      : {}),
+  };
+}
+
+function buildTupleSchema(
+  node: TupleSchemaNode,
+  context: BuildContext
+): JsonSchema {
+  const prefixItems: JsonSchema[] = [];
+  let minItems = 0;
+
+  node.elements.forEach(({ schema, optional }) => {
+    prefixItems.push(buildSchema(schema, context));
+    if (!optional) minItems = prefixItems.length;
+  });
+
+  return {
+    type: "array",
+    prefixItems,
+    items: node.rest ? buildSchema(node.rest, context) : false,
+    ...(minItems ? { minItems } : {}),
+  };
+}
+
+function buildRecordSchema(
+  key: SchemaNode,
+  value: SchemaNode,
+  context: BuildContext
+): JsonSchema {
+  const keys = getLiteralKeys(key);
+  if (!keys) {
+    return {
+      type: "object",
+      additionalProperties: buildSchema(value, context),
+    };
+  }
+
+  // `Record<"a" | "b", T>` => `{ properties: { a: T, b: T } }`
+  const valueSchema = buildSchema(value, context);
+  return {
+    type: "object",
+    properties: Object.fromEntries(keys.map((key) => [key, valueSchema])),
+    required: keys,
+  };
+}
+
+/**
+ * Get the keys of a literal (or union of literals) schema.
+ *
+ * @returns The keys, `undefined` if the schema is not a literal
+ */
+function getLiteralKeys(node: SchemaNode): string[] | undefined {
+  const nodes = node.kind === "union" ? node.options : [node];
+  const keys = nodes.map((node) =>
+    node.kind === "literal" ? node.value : undefined
+  );
+  return keys.every((key) => typeof key === "string" || typeof key === "number")
+    ? keys.map(String)
+    : undefined;
+}
+
+function withJSDocTags(
+  schema: JsonSchema,
+  jsDocTags: JSDocTags,
+  context: BuildContext
+) {
+  return jsDocTagsToJsonSchema(
+    jsDocTags,
+    context.customJSDocFormatTypes,
+    schema
+  );
+}
+
+/**
+ * Escape a JSON Pointer reference token (RFC 6901)
+ */
+function escapeJsonPointer(token: string) {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
@@ -0,0 +1,552 @@
+import ts from "typescript";
+import { findNode } from "../utils/findNode";
+import { isTypeNode } from "../utils/traverseTypes";
+import { generateSchemaIR, getUnsupportedTypes } from "./generateSchemaIR";
+
+describe("generateSchemaIR", () => {
+  it("should generate objects", () => {
+    expect(
+      generate(`export interface Hero {
+        name: string;
+        nickname?: string;
+        birthday: Date;
+        powers: string[];
+        [key: string]: unknown;
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "additionalProperties": {
+          "kind": "primitive",
+          "type": "unknown",
+        },
+        "kind": "object",
+        "properties": [
+          {
+            "name": "name",
+            "optional": false,
+            "schema": {
+              "kind": "primitive",
+              "type": "string",
+            },
+          },
+          {
+            "name": "nickname",
+            "optional": true,
+            "schema": {
+              "kind": "primitive",
+              "type": "string",
+            },
+          },
+          {
+            "name": "birthday",
+            "optional": false,
+            "schema": {
+              "kind": "primitive",
+              "type": "date",
+            },
+          },
+          {
+            "name": "powers",
+            "optional": false,
+            "schema": {
+              "element": {
+                "kind": "primitive",
+                "type": "string",
+              },
+              "kind": "array",
+            },
+          },
+        ],
+      }
+    `);
+  });
+
+  it("should keep the JSDoc tags", () => {
+    expect(
+      generate(`
+      /**
+       * @description A hero
+       * @strict
+       */
+      export interface Hero {
+        /**
+         * @minLength 2
+         * @format email
+         */
+        email: string | null;
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "jsDocTags": {
+          "description": "A hero",
+          "strict": true,
+        },
+        "kind": "object",
+        "properties": [
+          {
+            "name": "email",
+            "optional": false,
+            "schema": {
+              "jsDocTags": {
+                "format": {
+                  "errorMessage": undefined,
+                  "value": "email",
+                },
+                "minLength": {
+                  "errorMessage": undefined,
+                  "value": 2,
+                },
+              },
+              "kind": "union",
+              "options": [
+                {
+                  "kind": "primitive",
+                  "type": "string",
+                },
+                {
+                  "kind": "primitive",
+                  "type": "null",
+                },
+              ],
+            },
+          },
+        ],
+      }
+    `);
+  });
+
+  it("should generate unions, literals & tuples", () => {
+    expect(
+      generate(`
+      /**
+       * @discriminator kind
+       */
+      export type Shape =
+        | { kind: "circle"; radius: number }
+        | { kind: "square"; size: [number, number?, ...string[]] }
+        | \`shape-\${number}\`;`)
+    ).toMatchInlineSnapshot(`
+      {
+        "jsDocTags": {
+          "discriminator": "kind",
+        },
+        "kind": "union",
+        "options": [
+          {
+            "kind": "object",
+            "properties": [
+              {
+                "name": "kind",
+                "optional": false,
+                "schema": {
+                  "kind": "literal",
+                  "value": "circle",
+                },
+              },
+              {
+                "name": "radius",
+                "optional": false,
+                "schema": {
+                  "kind": "primitive",
+                  "type": "number",
+                },
+              },
+            ],
+          },
+          {
+            "kind": "object",
+            "properties": [
+              {
+                "name": "kind",
+                "optional": false,
+                "schema": {
+                  "kind": "literal",
+                  "value": "square",
+                },
+              },
+              {
+                "name": "size",
+                "optional": false,
+                "schema": {
+                  "elements": [
+                    {
+                      "optional": false,
+                      "schema": {
+                        "kind": "primitive",
+                        "type": "number",
+                      },
+                    },
+                    {
+                      "optional": true,
+                      "schema": {
+                        "kind": "primitive",
+                        "type": "number",
+                      },
+                    },
+                  ],
+                  "kind": "tuple",
+                  "rest": {
+                    "kind": "primitive",
+                    "type": "string",
+                  },
+                },
+              },
+            ],
+          },
+          {
+            "kind": "templateLiteral",
+            "pattern": "^shape-\\d+(\\.\\d+)?$",
+          },
+        ],
+      }
+    `);
+  });
+
+  it("should generate references", () => {
+    expect(
+      generate(`export type Villain = {
+        hero: Hero;
+        name: Hero["name"];
+        box: Box<string>;
+        powers: Record<string, Set<Power>>;
+        onKill: (victim: Hero) => void;
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "kind": "object",
+        "properties": [
+          {
+            "name": "hero",
+            "optional": false,
+            "schema": {
+              "kind": "reference",
+              "name": "Hero",
+            },
+          },
+          {
+            "name": "name",
+            "optional": false,
+            "schema": {
+              "kind": "reference",
+              "name": "Hero",
+              "property": "name",
+            },
+          },
+          {
+            "name": "box",
+            "optional": false,
+            "schema": {
+              "kind": "reference",
+              "name": "Box",
+              "typeArguments": [
+                {
+                  "kind": "primitive",
+                  "type": "string",
+                },
+              ],
+            },
+          },
+          {
+            "name": "powers",
+            "optional": false,
+            "schema": {
+              "key": {
+                "kind": "primitive",
+                "type": "string",
+              },
+              "kind": "record",
+              "value": {
+                "element": {
+                  "kind": "reference",
+                  "name": "Power",
+                },
+                "kind": "set",
+              },
+            },
+          },
+          {
+            "name": "onKill",
+            "optional": false,
+            "schema": {
+              "kind": "function",
+              "parameters": [
+                {
+                  "kind": "reference",
+                  "name": "Hero",
+                },
+              ],
+              "returns": {
+                "kind": "primitive",
+                "type": "void",
+              },
+            },
+          },
+        ],
+      }
+    `);
+  });
+
+  it("should resolve the utility types of local declarations", () => {
+    expect(
+      generate(`export type Villain = {
+        partial: Partial<Hero>;
+        omit: Omit<Hero, "age">;
+      };
+
+      interface Hero {
+        name: string;
+        age: number;
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "kind": "object",
+        "properties": [
+          {
+            "name": "partial",
+            "optional": false,
+            "schema": {
+              "kind": "object",
+              "properties": [
+                {
+                  "name": "name",
+                  "optional": true,
+                  "schema": {
+                    "kind": "primitive",
+                    "type": "string",
+                  },
+                },
+                {
+                  "name": "age",
+                  "optional": true,
+                  "schema": {
+                    "kind": "primitive",
+                    "type": "number",
+                  },
+                },
+              ],
+            },
+          },
+          {
+            "name": "omit",
+            "optional": false,
+            "schema": {
+              "kind": "object",
+              "properties": [
+                {
+                  "name": "name",
+                  "optional": false,
+                  "schema": {
+                    "kind": "primitive",
+                    "type": "string",
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      }
+    `);
+  });
+
+  it("should resolve the types derived from other declarations", () => {
+    expect(
+      generate(`export type Villain = {
+        role: (typeof roles)[number];
+        key: keyof Hero;
+        notAdmin: Exclude<"admin" | "user" | "guest", "admin">;
+        flags: { [K in "read" | "write"]?: boolean };
+        partial: { [K in keyof Hero]?: Hero[K] };
+      };
+
+      const roles = ["admin", "user"] as const;
+
+      interface Hero {
+        name: string;
+        age: number;
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "kind": "object",
+        "properties": [
+          {
+            "name": "role",
+            "optional": false,
+            "schema": {
+              "kind": "union",
+              "options": [
+                {
+                  "kind": "literal",
+                  "value": "admin",
+                },
+                {
+                  "kind": "literal",
+                  "value": "user",
+                },
+              ],
+            },
+          },
+          {
+            "name": "key",
+            "optional": false,
+            "schema": {
+              "kind": "union",
+              "options": [
+                {
+                  "kind": "literal",
+                  "value": "name",
+                },
+                {
+                  "kind": "literal",
+                  "value": "age",
+                },
+              ],
+            },
+          },
+          {
+            "name": "notAdmin",
+            "optional": false,
+            "schema": {
+              "kind": "union",
+              "options": [
+                {
+                  "kind": "literal",
+                  "value": "user",
+                },
+                {
+                  "kind": "literal",
+                  "value": "guest",
+                },
+              ],
+            },
+          },
+          {
+            "name": "flags",
+            "optional": false,
+            "schema": {
+              "kind": "object",
+              "properties": [
+                {
+                  "name": "read",
+                  "optional": true,
+                  "schema": {
+                    "kind": "primitive",
+                    "type": "boolean",
+                  },
+                },
+                {
+                  "name": "write",
+                  "optional": true,
+                  "schema": {
+                    "kind": "primitive",
+                    "type": "boolean",
+                  },
+                },
+              ],
+            },
+          },
+          {
+            "name": "partial",
+            "optional": false,
+            "schema": {
+              "kind": "object",
+              "properties": [
+                {
+                  "name": "name",
+                  "optional": true,
+                  "schema": {
+                    "kind": "primitive",
+                    "type": "string",
+                  },
+                },
+                {
+                  "name": "age",
+                  "optional": true,
+                  "schema": {
+                    "kind": "primitive",
+                    "type": "number",
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      }
+    `);
+  });
+
+  it("should mark the types that can't be represented", () => {
+    const schema = generate(`export type Villain = {
+      plan: Promise<string>;
+      powers: keyof Powers;
+      getters: { [K in keyof Hero as \`get\${K}\`]: () => Hero[K] };
+    };`);
+
+    expect(getUnsupportedTypes(schema)).toMatchInlineSnapshot(`
+      [
+        "Promise<string>",
+        "keyof Powers",
+        "{ [K in keyof Hero as \`get\${K}\`]: () => Hero[K]; }",
+      ]
+    `);
+  });
+
+  it("should generate enums", () => {
+    expect(
+      generate(`export enum Superhero {
+        Superman = "superman",
+        ClarkKent = "clark_kent",
+      }`)
+    ).toMatchInlineSnapshot(`
+      {
+        "kind": "enum",
+        "name": "Superhero",
+        "values": [
+          "superman",
+          "clark_kent",
+        ],
+      }
+    `);
+  });
+
+  it("should skip the JSDoc tags with `skipParseJSDoc`", () => {
+    expect(
+      generate(
+        `export type Hero = {
+          /**
+           * @minimum 0
+           */
+          age: number;
+        }`,
+        true
+      )
+    ).toMatchInlineSnapshot(`
+      {
+        "kind": "object",
+        "properties": [
+          {
+            "name": "age",
+            "optional": false,
+            "schema": {
+              "kind": "primitive",
+              "type": "number",
+            },
+          },
+        ],
+      }
+    `);
+  });
+});
+
+function generate(sourceText: string, skipParseJSDoc?: boolean) {
+  const sourceFile = ts.createSourceFile(
+    "index.ts",
+    sourceText,
+    ts.ScriptTarget.Latest
+  );
+  const node = findNode(sourceFile, isTypeNode);
+  if (!node) {
+    throw new Error("No `type`, `interface`, `enum` or `class` found!");
+  }
+
+  return generateSchemaIR({ node, sourceFile, skipParseJSDoc });
+}
@@ -0,0 +1,921 @@
+import uniq from "lodash/uniq";
+import ts, { factory as f } from "typescript";
+import {
+  getClassProperties,
+  getClassPropertyType,
+} from "../utils/classHandling";
+import { ConstValue, getConstValue } from "../utils/constValues";
+import { getEnumMemberValues } from "../utils/enumHandling";
+import { findNode } from "../utils/findNode";
+import { getTemplateLiteralPattern } from "../utils/templateLiteralPattern";
+import {
+  isMatchingType,
+  isNullOrUndefined,
+  resolveAwaitedType,
+  resolveConstType,
+  resolveKeys,
+  resolveObjectMembers,
+  resolveUnionMembers,
+} from "./generateZodSchema";
+import { JSDocTags, JsonValue, getJSDocTags } from "./jsDocTags";
+
+export type PrimitiveType =
+  | "string"
+  | "number"
+  | "bigint"
+  | "boolean"
+  | "date"
+  | "object"
+  | "null"
+  | "undefined"
+  | "void"
+  | "never"
+  | "any"
+  | "unknown";
+
+export type LiteralValue = string | number | boolean;
+
+interface SchemaNodeBase {
+  /**
+   * Validation rules from the JSDoc tags (`@minimum`, `@format`, `@pattern`…)
+   */
+  jsDocTags?: JSDocTags;
+}
+
+/**
+ * `string`, `number`, `Date`… (`any` for the types that can't be represented)
+ */
+export interface PrimitiveSchemaNode extends SchemaNodeBase {
+  kind: "primitive";
+  type: PrimitiveType;
+
+  /**
+   * Source of the type that can't be represented (`any` type only)
+   */
+  unsupported?: string;
+}
+
+/**
+ * `"a"`, `42`, `true`
+ */
+export interface LiteralSchemaNode extends SchemaNodeBase {
+  kind: "literal";
+  value: LiteralValue;
+}
+
+/**
+ * `` `prefix-${string}` ``
+ */
+export interface TemplateLiteralSchemaNode extends SchemaNodeBase {
+  kind: "templateLiteral";
+
+  /**
+   * Regular expression matching the template literal (`^prefix-.*$`),
+   * `undefined` if the placeholders can't be represented
+   */
+  pattern?: string;
+}
+
+export interface ObjectPropertyNode {
+  name: string;
+  schema: SchemaNode;
+  optional: boolean;
+}
+
+/**
+ * `{ name: string }`, interfaces and classes
+ */
+export interface ObjectSchemaNode extends SchemaNodeBase {
+  kind: "object";
+  properties: ObjectPropertyNode[];
+
+  /**
+   * Schema of the index signature (`[key: string]: T`)
+   */
+  additionalProperties?: SchemaNode;
+}
+
+/**
+ * `T[]`, `Array<T>`
+ */
+export interface ArraySchemaNode extends SchemaNodeBase {
+  kind: "array";
+  element: SchemaNode;
+}
+
+/**
+ * `Set<T>`
+ */
+export interface SetSchemaNode extends SchemaNodeBase {
+  kind: "set";
+  element: SchemaNode;
+}
+
+/**
+ * `Map<K, V>`
+ */
+export interface MapSchemaNode extends SchemaNodeBase {
+  kind: "map";
+  key: SchemaNode;
+  value: SchemaNode;
+}
+
+export interface TupleElementNode {
+  schema: SchemaNode;
+  optional: boolean;
+}
+
+/**
+ * `[string, number?, ...boolean[]]`
+ */
+export interface TupleSchemaNode extends SchemaNodeBase {
+  kind: "tuple";
+  elements: TupleElementNode[];
+
+  /**
+   * Schema of the rest elements
+   */
+  rest?: SchemaNode;
+}
+
+/**
+ * `Record<K, V>`
+ */
+export interface RecordSchemaNode extends SchemaNodeBase {
+  kind: "record";
+  key: SchemaNode;
+  value: SchemaNode;
+}
+
+/**
+ * `A | B`
+ */
+export interface UnionSchemaNode extends SchemaNodeBase {
+  kind: "union";
+  options: SchemaNode[];
+
+  /**
+   * Property discriminating the options (`@discriminator` JSDoc tag)
+   */
+  discriminator?: string;
+}
+
+/**
+ * `A & B`, `interface A extends B`
+ */
+export interface IntersectionSchemaNode extends SchemaNodeBase {
+  kind: "intersection";
+  types: SchemaNode[];
+}
+
+/**
+ * `enum Superhero {}`
+ */
+export interface EnumSchemaNode extends SchemaNodeBase {
+  kind: "enum";
+  name: string;
+  values: Array<string | number>;
+}
+
+/**
+ * Reference to another type (`Hero`, `Hero["name"]`, `Box<string>`)
+ */
+export interface ReferenceSchemaNode extends SchemaNodeBase {
+  kind: "reference";
+  name: string;
+
+  /**
+   * Property of the referenced type (`Hero["name"]`)
+   */
+  property?: string;
+
+  /**
+   * Type arguments of a generic type (`Box<string>`)
+   */
+  typeArguments?: SchemaNode[];
+}
+
+/**
+ * `(a: string) => void`
+ */
+export interface FunctionSchemaNode extends SchemaNodeBase {
+  kind: "function";
+  parameters: SchemaNode[];
+  returns: SchemaNode;
+}
+
+/**
+ * Intermediate representation of a schema, independent from the schema library.
+ */
+export type SchemaNode =
+  | PrimitiveSchemaNode
+  | LiteralSchemaNode
+  | TemplateLiteralSchemaNode
+  | ObjectSchemaNode
+  | ArraySchemaNode
+  | SetSchemaNode
+  | MapSchemaNode
+  | TupleSchemaNode
+  | RecordSchemaNode
+  | UnionSchemaNode
+  | IntersectionSchemaNode
+  | EnumSchemaNode
+  | ReferenceSchemaNode
+  | FunctionSchemaNode;
+
+/**
+ * Schema of a declaration (interface, type, enum or class) of the source file.
+ */
+export interface SchemaDeclaration {
+  /**
+   * Name of the type (`Hero`)
+   */
+  typeName: string;
+
+  /**
+   * Name of the generated schema (`heroSchema`)
+   */
+  schemaName: string;
+
+  schema: SchemaNode;
+
+  /**
+   * `true` if the schema references itself (directly or not)
+   */
+  isRecursive: boolean;
+}
+
+export interface GenerateSchemaIRProps {
+  /**
+   * Interface, type, enum or class node
+   */
+  node:
+    | ts.InterfaceDeclaration
+    | ts.TypeAliasDeclaration
+    | ts.EnumDeclaration
+    | ts.ClassDeclaration;
+
+  /**
+   * Source file
+   */
+  sourceFile: ts.SourceFile;
+
+  /**
+   * Skip the parsing of the JSDoc tags
+   *
+   * @default false
+   */
+  skipParseJSDoc?: boolean;
+}
+
+type BuildContext = Required<Omit<GenerateSchemaIRProps, "node">>;
+
+const any: PrimitiveSchemaNode = { kind: "primitive", type: "any" };
+
+const printer = ts.createPrinter({ removeComments: true });
+
+/**
+ * Generate the intermediate representation of a declaration schema.
+ *
+ * The JSDoc tags are kept on the nodes they apply to, the utility types
+ * (`Partial`, `Omit`…) of local declarations are resolved to objects.
+ * The types that can't be represented are `any` nodes, with their source
+ * in `unsupported` (see `getUnsupportedTypes`).
+ */
+export function generateSchemaIR({
+  node,
+  sourceFile,
+  skipParseJSDoc = false,
+}: GenerateSchemaIRProps): SchemaNode {
+  const context: BuildContext = { sourceFile, skipParseJSDoc };
+  const jsDocTags = getTags(node, context);
+
+  if (ts.isEnumDeclaration(node)) {
+    return withJSDocTags(buildEnumSchema(node), jsDocTags);
+  }
+
+  if (ts.isTypeAliasDeclaration(node)) {
+    return buildSchema(node.type, context, jsDocTags);
+  }
+
+  const schema = withJSDocTags(buildObjectSchema(node, context), jsDocTags);
+
+  // `interface A extends B {}` => `B & A`
+  const extendedSchemas = (node.heritageClauses ?? [])
+    .filter((clause) => clause.token === ts.SyntaxKind.ExtendsKeyword)
+    .flatMap((clause) => clause.types)
+    .map((type) =>
+      ts.isIdentifier(type.expression)
+        ? buildSchema(
+            f.createTypeReferenceNode(type.expression.text, type.typeArguments),
+            context
+          )
+        : unsupported(type, context)
+    );
+
+  return extendedSchemas.length
+    ? { kind: "intersection", types: [...extendedSchemas, schema] }
+    : schema;
+}
+
+function buildSchema(
+  typeNode: ts.TypeNode,
+  context: BuildContext,
+  jsDocTags: JSDocTags = {}
+): SchemaNode {
+  if (ts.isParenthesizedTypeNode(typeNode)) {
+    return buildSchema(typeNode.type, context, jsDocTags);
+  }
+  return withJSDocTags(buildTypeSchema(typeNode, context), jsDocTags);
+}
+
+function buildTypeSchema(
+  typeNode: ts.TypeNode,
+  context: BuildContext
+): SchemaNode {
+  switch (typeNode.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return { kind: "primitive", type: "string" };
+    case ts.SyntaxKind.NumberKeyword:
+      return { kind: "primitive", type: "number" };
+    case ts.SyntaxKind.BigIntKeyword:
+      return { kind: "primitive", type: "bigint" };
+    case ts.SyntaxKind.BooleanKeyword:
+      return { kind: "primitive", type: "boolean" };
+    case ts.SyntaxKind.NullKeyword:
+      return { kind: "primitive", type: "null" };
+    case ts.SyntaxKind.ObjectKeyword:
+      return { kind: "primitive", type: "object" };
+    case ts.SyntaxKind.UndefinedKeyword:
+      return { kind: "primitive", type: "undefined" };
+    case ts.SyntaxKind.VoidKeyword:
+      return { kind: "primitive", type: "void" };
+    case ts.SyntaxKind.NeverKeyword:
+      return { kind: "primitive", type: "never" };
+    case ts.SyntaxKind.UnknownKeyword:
+      return { kind: "primitive", type: "unknown" };
+    case ts.SyntaxKind.AnyKeyword:
+      return any;
+  }
+
+  if (ts.isLiteralTypeNode(typeNode)) {
+    if (typeNode.literal.kind === ts.SyntaxKind.NullKeyword) {
+      return { kind: "primitive", type: "null" };
+    }
+    const value = getLiteralValue(typeNode);
+    return value === undefined
+      ? unsupported(typeNode, context)
+      : { kind: "literal", value };
+  }
+
+  if (ts.isTemplateLiteralTypeNode(typeNode)) {
+    const pattern = getTemplateLiteralPattern(typeNode, context.sourceFile);
+    return pattern
+      ? { kind: "templateLiteral", pattern: `^${pattern.pattern}$` }
+      : { kind: "templateLiteral" };
+  }
+
+  if (ts.isArrayTypeNode(typeNode)) {
+    return {
+      kind: "array",
+      element: buildSchema(typeNode.elementType, context),
+    };
+  }
+
+  if (ts.isTupleTypeNode(typeNode)) {
+    return buildTupleSchema(typeNode, context);
+  }
+
+  if (ts.isTypeLiteralNode(typeNode)) {
+    return buildObjectSchema(typeNode, context);
+  }
+
+  if (ts.isUnionTypeNode(typeNode)) {
+    return {
+      kind: "union",
+      options: typeNode.types.map((type) => buildSchema(type, context)),
+    };
+  }
+
+  if (ts.isIntersectionTypeNode(typeNode)) {
+    return {
+      kind: "intersection",
+      types: typeNode.types.map((type) => buildSchema(type, context)),
+    };
+  }
+
+  if (ts.isFunctionTypeNode(typeNode)) {
+    return {
+      kind: "function",
+      parameters: typeNode.parameters.map((parameter) =>
+        parameter.type ? buildSchema(parameter.type, context) : any
+      ),
+      returns: buildSchema(typeNode.type, context),
+    };
+  }
+
+  if (
+    ts.isTypeOperatorNode(typeNode) &&
+    typeNode.operator === ts.SyntaxKind.ReadonlyKeyword
+  ) {
+    return buildSchema(typeNode.type, context);
+  }
+
+  // `typeof`, `keyof typeof` & `(typeof X)[number]` of `as const` variables
+  const constValues = resolveConstType(typeNode, context.sourceFile);
+  if (constValues) {
+    return buildConstValuesSchema(constValues);
+  }
+
+  // `keyof X`
+  if (
+    ts.isTypeOperatorNode(typeNode) &&
+    typeNode.operator === ts.SyntaxKind.KeyOfKeyword
+  ) {
+    const keys = resolveKeys(typeNode, context.sourceFile);
+    return keys ? buildConstValuesSchema(keys) : unsupported(typeNode, context);
+  }
+
+  if (ts.isMappedTypeNode(typeNode)) {
+    return buildMappedSchema(typeNode, context);
+  }
+
+  // `Hero["name"]`
+  if (
+    ts.isIndexedAccessTypeNode(typeNode) &&
+    ts.isTypeReferenceNode(typeNode.objectType) &&
+    ts.isIdentifier(typeNode.objectType.typeName) &&
+    ts.isLiteralTypeNode(typeNode.indexType) &&
+    ts.isStringLiteral(typeNode.indexType.literal)
+  ) {
+    return {
+      kind: "reference",
+      name: typeNode.objectType.typeName.text,
+      property: typeNode.indexType.literal.text,
+    };
+  }
+
+  if (ts.isTypeReferenceNode(typeNode)) {
+    return buildReferenceSchema(typeNode, context);
+  }
+
+  return unsupported(typeNode, context);
+}
+
+function buildReferenceSchema(
+  typeNode: ts.TypeReferenceNode,
+  context: BuildContext
+): SchemaNode {
+  // `Enum.Member` => literal value of the member
+  if (ts.isQualifiedName(typeNode.typeName)) {
+    const { left, right } = typeNode.typeName;
+    const enumDeclaration = ts.isIdentifier(left)
+      ? findNode(
+          context.sourceFile,
+          (n): n is ts.EnumDeclaration =>
+            ts.isEnumDeclaration(n) && n.name.text === left.text
+        )
+      : undefined;
+    const values = enumDeclaration && getEnumMemberValues(enumDeclaration);
+    const index = enumDeclaration?.members.findIndex(
+      (member) =>
+        ts.isIdentifier(member.name) && member.name.text === right.text
+    );
+    return values && index !== undefined && index >= 0
+      ? { kind: "literal", value: values[index] }
+      : unsupported(typeNode, context);
+  }
+
+  const name = typeNode.typeName.text;
+  const [first, second] = typeNode.typeArguments ?? [];
+  const build = (type?: ts.TypeNode) =>
+    type ? buildSchema(type, context) : unsupported(typeNode, context);
+
+  switch (name) {
+    case "Array":
+    case "ReadonlyArray":
+      return { kind: "array", element: build(first) };
+    case "Set":
+    case "ReadonlySet":
+      return { kind: "set", element: build(first) };
+    case "Map":
+    case "ReadonlyMap":
+      return { kind: "map", key: build(first), value: build(second) };
+    case "Date":
+      return { kind: "primitive", type: "date" };
+    case "Readonly":
+      return build(first);
+    case "Awaited":
+      return first
+        ? build(resolveAwaitedType(first, context.sourceFile))
+        : unsupported(typeNode, context);
+    case "Record":
+      return first && second
+        ? { kind: "record", key: build(first), value: build(second) }
+        : unsupported(typeNode, context);
+    case "Promise":
+      return unsupported(typeNode, context);
+    case "Exclude":
+    case "Extract":
+    case "NonNullable": {
+      if (!first) break;
+      const { sourceFile } = context;
+      const filterMembers = second
+        ? resolveUnionMembers(second, sourceFile)
+        : [];
+      const isFiltered = (member: ts.TypeNode) =>
+        name === "NonNullable"
+          ? isNullOrUndefined(member)
+          : filterMembers.some((filterMember) =>
+              isMatchingType(member, filterMember, sourceFile)
+            );
+
+      const members = resolveUnionMembers(first, sourceFile).filter((member) =>
+        name === "Extract" ? isFiltered(member) : !isFiltered(member)
+      );
+      if (members.length === 0) return { kind: "primitive", type: "never" };
+      return members.length === 1
+        ? build(members[0])
+        : { kind: "union", options: members.map(build) };
+    }
+    case "Partial":
+    case "Required":
+    case "Omit":
+    case "Pick": {
+      const declaration = first && getObjectDeclaration(first, context);
+      if (!declaration) return unsupported(typeNode, context);
+
+      const keys = second && getLiteralKeys(second);
+      const schema = buildObjectSchema(declaration, context, (key) =>
+        name === "Omit"
+          ? !keys?.includes(key)
+          : name === "Pick"
+          ? Boolean(keys?.includes(key))
+          : true
+      );
+      return {
+        ...schema,
+        properties: schema.properties.map((property) =>
+          name === "Partial" || name === "Required"
+            ? { ...property, optional: name === "Partial" }
+            : property
+        ),
+      };
+    }
+  }
+
+  return typeNode.typeArguments
+    ? {
+        kind: "reference",
+        name,
+        typeArguments: typeNode.typeArguments.map((type) =>
+          buildSchema(type, context)
+        ),
+      }
+    : { kind: "reference", name };
+}
+
+function buildObjectSchema(
+  node: ts.TypeLiteralNode | ts.InterfaceDeclaration | ts.ClassDeclaration,
+  context: BuildContext,
+  filterKey: (key: string) => boolean = () => true
+): ObjectSchemaNode {
+  const properties: ObjectPropertyNode[] = [];
+  let additionalProperties: SchemaNode | undefined;
+
+  const members = ts.isClassDeclaration(node)
+    ? getClassProperties(node)
+    : node.members;
+
+  members.forEach((member) => {
+    if (ts.isIndexSignatureDeclaration(member)) {
+      additionalProperties = buildSchema(member.type, context);
+      return;
+    }
+
+    const isClassProperty =
+      ts.isPropertyDeclaration(member) || ts.isParameter(member);
+    if (!(ts.isPropertySignature(member) || isClassProperty)) return;
+
+    const name = getPropertyName(member.name);
+    if (name === undefined || !filterKey(name)) return;
+
+    const type = isClassProperty
+      ? getClassPropertyType(member)
+      : member.type ?? f.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword);
+
+    const jsDocTags = getTags(member, context);
+    if (isClassProperty && member.initializer && !("default" in jsDocTags)) {
+      const value = getConstValue(member.initializer);
+      if (value !== undefined) jsDocTags.default = value as JsonValue;
+    }
+
+    const optional =
+      Boolean(member.questionToken) ||
+      (ts.isUnionTypeNode(type) &&
+        type.types.some(
+          (type) => type.kind === ts.SyntaxKind.UndefinedKeyword
+        ));
+
+    properties.push({
+      name,
+      schema: buildSchema(type, context, jsDocTags),
+      optional,
+    });
+  });
+
+  return additionalProperties
+    ? { kind: "object", properties, additionalProperties }
+    : { kind: "object", properties };
+}
+
+function buildTupleSchema(
+  typeNode: ts.TupleTypeNode,
+  context: BuildContext
+): TupleSchemaNode {
+  const elements: TupleElementNode[] = [];
+  let rest: SchemaNode | undefined;
+
+  typeNode.elements.forEach((element) => {
+    const optional =
+      ts.isOptionalTypeNode(element) ||
+      (ts.isNamedTupleMember(element) && Boolean(element.questionToken));
+    let type = ts.isNamedTupleMember(element) ? element.type : element;
+    if (ts.isOptionalTypeNode(type)) type = type.type;
+
+    if (
+      ts.isRestTypeNode(type) ||
+      (ts.isNamedTupleMember(element) && element.dotDotDotToken)
+    ) {
+      const restType = ts.isRestTypeNode(type) ? type.type : type;
+      rest = ts.isArrayTypeNode(restType)
+        ? buildSchema(restType.elementType, context)
+        : unsupported(restType, context);
+      return;
+    }
+
+    elements.push({ schema: buildSchema(type, context), optional });
+  });
+
+  return rest ? { kind: "tuple", elements, rest } : { kind: "tuple", elements };
+}
+
+function buildEnumSchema(node: ts.EnumDeclaration): SchemaNode {
+  const values = getEnumMemberValues(node);
+  return values
+    ? { kind: "enum", name: node.name.text, values }
+    : { ...any, unsupported: `enum ${node.name.text}` };
+}
+
+/**
+ * Build the schema of a mapped type.
+ *
+ * ```ts
+ * { [K in keyof Superman]?: Superman[K] } // object with optional properties
+ * { [K in "a" | "b"]: number } // { a: number, b: number }
+ * { [K in string]: number } // record
+ * ```
+ */
+function buildMappedSchema(
+  typeNode: ts.MappedTypeNode,
+  context: BuildContext
+): SchemaNode {
+  const keyName = typeNode.typeParameter.name.text;
+  const constraint = typeNode.typeParameter.constraint;
+  const valueType = typeNode.type;
+
+  if (!constraint || !valueType || typeNode.nameType) {
+    return unsupported(typeNode, context);
+  }
+
+  const isOptional =
+    typeNode.questionToken !== undefined &&
+    typeNode.questionToken.kind !== ts.SyntaxKind.MinusToken;
+  const isRequired = typeNode.questionToken?.kind === ts.SyntaxKind.MinusToken;
+
+  // `X[K]` value, returns the name of `X`
+  const indexedTypeName =
+    ts.isIndexedAccessTypeNode(valueType) &&
+    ts.isTypeReferenceNode(valueType.objectType) &&
+    ts.isIdentifier(valueType.objectType.typeName) &&
+    ts.isTypeReferenceNode(valueType.indexType) &&
+    ts.isIdentifier(valueType.indexType.typeName) &&
+    valueType.indexType.typeName.text === keyName
+      ? valueType.objectType.typeName.text
+      : undefined;
+
+  // Homomorphic mapped type: `{ [K in keyof X]: X[K] }`
+  if (
+    indexedTypeName &&
+    ts.isTypeOperatorNode(constraint) &&
+    constraint.operator === ts.SyntaxKind.KeyOfKeyword &&
+    ts.isTypeReferenceNode(constraint.type) &&
+    ts.isIdentifier(constraint.type.typeName) &&
+    constraint.type.typeName.text === indexedTypeName
+  ) {
+    const declaration = getObjectDeclaration(constraint.type, context);
+    if (!declaration) return unsupported(typeNode, context);
+
+    const schema = buildObjectSchema(declaration, context);
+    return {
+      ...schema,
+      properties: schema.properties.map((property) =>
+        isOptional || isRequired
+          ? { ...property, optional: isOptional }
+          : property
+      ),
+    };
+  }
+
+  const isKeyReference = (node: ts.Node): boolean =>
+    (ts.isTypeReferenceNode(node) &&
+      ts.isIdentifier(node.typeName) &&
+      node.typeName.text === keyName) ||
+    Boolean(node.forEachChild(isKeyReference));
+
+  if (!indexedTypeName && isKeyReference(valueType)) {
+    return unsupported(typeNode, context);
+  }
+
+  const keys = resolveKeys(constraint, context.sourceFile);
+
+  // Open key set
+  if (!keys) {
+    return indexedTypeName
+      ? unsupported(typeNode, context)
+      : {
+          kind: "record",
+          key: buildSchema(constraint, context),
+          value: buildSchema(valueType, context),
+        };
+  }
+
+  // `{ [K in keyof X]: V }` keeps the `?` modifiers of `X` members
+  const optionalKeys = new Set(
+    !typeNode.questionToken &&
+    ts.isTypeOperatorNode(constraint) &&
+    constraint.operator === ts.SyntaxKind.KeyOfKeyword
+      ? resolveObjectMembers(constraint.type, context.sourceFile)
+          ?.filter((member) => member.isOptional)
+          .map(({ key }) => key)
+      : []
+  );
+
+  return {
+    kind: "object",
+    properties: keys.map((key) => ({
+      name: String(key),
+      schema: indexedTypeName
+        ? {
+            kind: "reference",
+            name: indexedTypeName,
+            property: String(key),
+          }
+        : buildSchema(valueType, context),
+      optional: isOptional || optionalKeys.has(key),
+    })),
+  };
+}
+
+/**
+ * Build the schema of the values of a `const` variable.
+ */
+function buildConstValuesSchema(values: ConstValue[]): SchemaNode {
+  const options = uniq(values).map(buildConstValueSchema);
+  return options.length === 1 ? options[0] : { kind: "union", options };
+}
+
+function buildConstValueSchema(value: ConstValue): SchemaNode {
+  if (value === null) return { kind: "primitive", type: "null" };
+  if (Array.isArray(value)) {
+    return {
+      kind: "tuple",
+      elements: value.map((element) => ({
+        schema: buildConstValueSchema(element),
+        optional: false,
+      })),
+    };
+  }
+  if (typeof value === "object") {
+    return {
+      kind: "object",
+      properties: Object.entries(value).map(([name, property]) => ({
+        name,
+        schema: buildConstValueSchema(property),
+        optional: false,
+      })),
+    };
+  }
+  return { kind: "literal", value };
+}
+
+/**
+ * Find the declaration of an object type (type literal, local interface or type alias).
+ */
+function getObjectDeclaration(
+  typeNode: ts.TypeNode,
+  context: BuildContext
+): ts.TypeLiteralNode | ts.InterfaceDeclaration | undefined {
+  if (ts.isTypeLiteralNode(typeNode)) return typeNode;
+  if (!ts.isTypeReferenceNode(typeNode) || !ts.isIdentifier(typeNode.typeName))
+    return;
+
+  const { text } = typeNode.typeName;
+  const declaration = findNode(
+    context.sourceFile,
+    (n): n is ts.InterfaceDeclaration | ts.TypeAliasDeclaration =>
+      (ts.isInterfaceDeclaration(n) || ts.isTypeAliasDeclaration(n)) &&
+      n.name.text === text
+  );
+
+  if (!declaration || declaration.typeParameters) return;
+  if (ts.isInterfaceDeclaration(declaration)) {
+    return declaration.heritageClauses ? undefined : declaration;
+  }
+  return getObjectDeclaration(declaration.type, context);
+}
+
+/**
+ * Get the keys of a literal (or union of literals) type.
+ *
+ * @returns The keys, `undefined` if the type is not a literal
+ */
+function getLiteralKeys(typeNode: ts.TypeNode): string[] | undefined {
+  const types = ts.isUnionTypeNode(typeNode) ? typeNode.types : [typeNode];
+  const keys = types.map((type) =>
+    ts.isLiteralTypeNode(type) ? getLiteralValue(type) : undefined
+  );
+  return keys.every((key) => typeof key === "string" || typeof key === "number")
+    ? keys.map(String)
+    : undefined;
+}
+
+function getLiteralValue(
+  typeNode: ts.LiteralTypeNode
+): LiteralValue | undefined {
+  const { literal } = typeNode;
+  if (ts.isStringLiteral(literal)) return literal.text;
+  if (ts.isNumericLiteral(literal)) return Number(literal.text);
+  if (
+    ts.isPrefixUnaryExpression(literal) &&
+    literal.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(literal.operand)
+  ) {
+    return -Number(literal.operand.text);
+  }
+  if (literal.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (literal.kind === ts.SyntaxKind.FalseKeyword) return false;
+}
+
+function getPropertyName(name: ts.PropertyName) {
+  if (
+    ts.isIdentifier(name) ||
+    ts.isStringLiteral(name) ||
+    ts.isNumericLiteral(name)
+  ) {
+    return name.text;
+  }
+}
+
+/**
+ * `any` schema of a type that can't be represented.
+ */
+function unsupported(
+  typeNode: ts.Node,
+  context: BuildContext
+): PrimitiveSchemaNode {
+  return {
+    ...any,
+    unsupported: printer
+      .printNode(ts.EmitHint.Unspecified, typeNode, context.sourceFile)
+      .replace(/\s+/g, " "),
+  };
+}
+
+/**
+ * Get the source of the types generated as `any` because they can't be
+ * represented.
+ */
+export function getUnsupportedTypes(schema: SchemaNode): string[] {
+  const visit = (value: unknown): string[] => {
+    if (Array.isArray(value)) return value.flatMap(visit);
+    if (typeof value !== "object" || value === null) return [];
+
+    return Object.entries(value).flatMap(([key, child]) =>
+      key === "jsDocTags"
+        ? []
+        : key === "unsupported"
+        ? [String(child)]
+        : visit(child)
+    );
+  };
+  return uniq(visit(schema));
+}
+
+function getTags(node: ts.Node, context: BuildContext): JSDocTags {
+  return context.skipParseJSDoc ? {} : getJSDocTags(node, context.sourceFile);
+}
+
+function withJSDocTags<T extends SchemaNode>(schema: T, jsDocTags: JSDocTags) {
+  return Object.keys(jsDocTags).length ? { ...schema, jsDocTags } : schema;
+}
@@ -4,6 +4,13 @@ export interface GenerateZodInferredTypeProps {
   aliasName: string;
   zodImportValue: string;
   zodConstName: string;
+
+  /**
+   * Type extracted from the schema, `input` for schemas with transforms.
+   *
+   * @default "infer"
+   */
+  inferType?: "infer" | "input";
 }
 
 /**
@@ -17,6 +24,7 @@ export function generateZodInferredType({
   aliasName,
   zodImportValue,
   zodConstName,
+  inferType = "infer",
 }: GenerateZodInferredTypeProps) {
   return f.createTypeAliasDeclaration(
     [f.createModifier(ts.SyntaxKind.ExportKeyword)],
@@ -25,7 +33,7 @@ export function generateZodInferredType({
     f.createTypeReferenceNode(
       f.createQualifiedName(
         f.createIdentifier(zodImportValue),
-        f.createIdentifier("infer")
+        f.createIdentifier(inferType)
       ),
       [f.createTypeQueryNode(f.createIdentifier(zodConstName))]
     )
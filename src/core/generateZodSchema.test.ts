@@ -1,7 +1,13 @@
 import { camel } from "case";
 import ts from "typescript";
-import type { CustomJSDocFormatTypes } from "../config";
+import type {
+  ClassStyle,
+  CustomJSDocFormatTypes,
+  CustomJSDocTags,
+  EnumStyle,
+} from "../config";
 import { findNode } from "../utils/findNode";
+import { isTypeNode } from "../utils/traverseTypes";
 import { generateZodSchemaVariableStatement } from "./generateZodSchema";
 
 describe("generateZodSchema", () => {
@@ -133,6 +139,453 @@ describe("generateZodSchema", () => {
     );
   });
 
+  describe("enumStyle", () => {
+    const generateWithEnumStyle = (source: string, enumStyle: EnumStyle) =>
+      generate(source, undefined, undefined, undefined, enumStyle);
+
+    it("should generate an enum schema from a string enum", () => {
+      const source = `export enum Superhero {
+        Superman = "superman",
+        ClarkKent = "clark_kent",
+      };`;
+      expect(generateWithEnumStyle(source, "enum")).toMatchInlineSnapshot(
+        `"export const superheroSchema = z.enum(["superman", "clark_kent"]);"`
+      );
+    });
+
+    it("should generate a literal union from a numeric enum", () => {
+      const source = `export enum Power {
+        Fly,
+        Laser = 5,
+        Invisibility,
+        Weakness = -1,
+      };`;
+      expect(generateWithEnumStyle(source, "enum")).toMatchInlineSnapshot(
+        `"export const powerSchema = z.union([z.literal(0), z.literal(5), z.literal(6), z.literal(-1)]);"`
+      );
+    });
+
+    it("should generate a literal union from a string enum", () => {
+      const source = `export enum Superhero {
+        Superman = "superman",
+        ClarkKent = "clark_kent",
+      };`;
+      expect(
+        generateWithEnumStyle(source, "literalUnion")
+      ).toMatchInlineSnapshot(
+        `"export const superheroSchema = z.union([z.literal("superman"), z.literal("clark_kent")]);"`
+      );
+    });
+
+    it("should fallback on nativeEnum for computed enums", () => {
+      const source = `export enum Power {
+        Fly = "fly".length,
+      };`;
+      expect(generateWithEnumStyle(source, "enum")).toMatchInlineSnapshot(
+        `"export const powerSchema = z.nativeEnum(Power);"`
+      );
+    });
+
+    it("should generate an enum schema from a string literal union", () => {
+      const source = `export interface Superman {
+        name: "superman" | "clark kent";
+        alias?: "kal-el" | "man of steel" | null;
+        age: 1 | "one";
+      }`;
+      expect(generateWithEnumStyle(source, "enum")).toMatchInlineSnapshot(`
+        "export const supermanSchema = z.object({
+            name: z.enum(["superman", "clark kent"]),
+            alias: z.enum(["kal-el", "man of steel"]).optional().nullable(),
+            age: z.union([z.literal(1), z.literal("one")])
+        });"
+      `);
+    });
+
+    it("should inline the value of a local enum member", () => {
+      const source = `export type BestSuperhero = {
+        superhero: Superhero.Superman
+      };
+
+      enum Superhero {
+        Superman = "superman",
+      }`;
+      expect(generateWithEnumStyle(source, "enum")).toMatchInlineSnapshot(`
+        "export const bestSuperheroSchema = z.object({
+            superhero: z.literal("superman")
+        });"
+      `);
+    });
+  });
+
+  describe("types derived from const variables", () => {
+    it("should generate an enum schema from `(typeof X)[number]`", () => {
+      const source = `const ROLES = ["admin", "user", "admin"] as const;
+      export type Role = (typeof ROLES)[number];`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const roleSchema = z.enum(["admin", "user"]);"`
+      );
+    });
+
+    it("should generate an enum schema from `keyof typeof X`", () => {
+      const source = `const CONFIG = { fly: true, "laser-eyes": 2, 42: "x" };
+      export type ConfigKey = keyof typeof CONFIG;`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const configKeySchema = z.union([z.literal("fly"), z.literal("laser-eyes"), z.literal(42)]);"`
+      );
+    });
+
+    it("should generate a literal union from `(typeof X)[keyof typeof X]`", () => {
+      const source = `export const LEVELS = { low: 1, high: 10, unknown: null } as const;
+      export type Level = (typeof LEVELS)[keyof typeof LEVELS];`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const levelSchema = z.union([z.literal(1), z.literal(10), z.null()]);"`
+      );
+    });
+
+    it("should generate a literal union with `literalUnion` enumStyle", () => {
+      const source = `const ROLES = ["admin", "user"] as const;
+      export type Role = (typeof ROLES)[number];`;
+      expect(
+        generate(source, undefined, undefined, undefined, "literalUnion")
+      ).toMatchInlineSnapshot(
+        `"export const roleSchema = z.union([z.literal("admin"), z.literal("user")]);"`
+      );
+    });
+
+    it("should generate the schema of a const object", () => {
+      const source = `const HERO = {
+        name: "superman",
+        powers: ["fly", "laser"],
+        age: -1,
+      } as const satisfies Record<string, unknown>;
+      export type Hero = typeof HERO;`;
+      expect(generate(source)).toMatchInlineSnapshot(`
+        "export const heroSchema = z.object({
+            name: z.literal("superman"),
+            powers: z.tuple([z.literal("fly"), z.literal("laser")]).readonly(),
+            age: z.literal(-1)
+        });"
+      `);
+    });
+
+    it("should generate an enum schema from a nested const array", () => {
+      const source = `const HERO = { powers: ["fly", "laser"] } as const;
+      export type HeroPower = (typeof HERO)["powers"][number];`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const heroPowerSchema = z.enum(["fly", "laser"]);"`
+      );
+    });
+
+    it("should fallback on z.any() without `as const`", () => {
+      const source = `const ROLES = ["admin", "user"];
+      export type Role = (typeof ROLES)[number];`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const roleSchema = z.any();"`
+      );
+    });
+  });
+
+  describe("mapped types", () => {
+    it("should generate an object schema from a literal union", () => {
+      const source = `export type Stats = { [K in Status]: number };
+      type Status = "active" | "on-hold" | 42;`;
+      expect(generate(source)).toMatchInlineSnapshot(`
+        "export const statsSchema = z.object({
+            active: z.number(),
+            "on-hold": z.number(),
+            42: z.number()
+        });"
+      `);
+    });
+
+    it("should generate an object schema from `keyof` a local interface", () => {
+      const source = `export type SettingsFlags = { readonly [K in keyof Settings]?: boolean };
+      interface Settings extends BaseSettings {
+        theme: string;
+        "font-size": number;
+      }
+      interface BaseSettings {
+        language: string;
+      }`;
+      expect(generate(source)).toMatchInlineSnapshot(`
+        "export const settingsFlagsSchema = z.object({
+            language: z.boolean().optional(),
+            theme: z.boolean().optional(),
+            "font-size": z.boolean().optional()
+        }).readonly();"
+      `);
+    });
+
+    it("should keep the optional members of a homomorphic mapped type", () => {
+      const source = `export type SettingsFlags = { [K in keyof Settings]: boolean };
+      interface Settings {
+        theme: string;
+        language?: string;
+      }`;
+      expect(generate(source)).toMatchInlineSnapshot(`
+        "export const settingsFlagsSchema = z.object({
+            theme: z.boolean(),
+            language: z.boolean().optional()
+        });"
+      `);
+    });
+
+    it("should generate an object schema from enum members", () => {
+      const source = `export type PowerLevels = { [K in Power]-?: Superman[K] };
+      enum Power { Fly = "fly", Laser = "laser" }`;
+      expect(generate(source)).toMatchInlineSnapshot(`
+        "export const powerLevelsSchema = z.object({
+            fly: supermanSchema.shape.fly,
+            laser: supermanSchema.shape.laser
+        });"
+      `);
+    });
+
+    it("should reuse the schema of a homomorphic mapped type", () => {
+      const source = `export type PartialSuperman = { [K in keyof Superman]?: Superman[K] };`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const partialSupermanSchema = supermanSchema.partial();"`
+      );
+    });
+
+    it("should fallback on a record with an open key set", () => {
+      const source = `export type Scores = { [K in string]?: number };`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const scoresSchema = z.record(z.string(), z.number().optional());"`
+      );
+    });
+
+    it("should generate a keyof schema", () => {
+      const source = `export type SettingsKey = keyof Settings;
+      interface Settings {
+        theme: string;
+        language: string;
+      }`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const settingsKeySchema = z.enum(["theme", "language"]);"`
+      );
+    });
+
+    it("should generate a keyof schema from an imported type", () => {
+      const source = `export type SupermanKey = keyof Superman;`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const supermanKeySchema = supermanSchema.keyof();"`
+      );
+    });
+  });
+
+  describe("classes", () => {
+    it("should generate an object schema from the public properties", () => {
+      const source = `export class Hero {
+        static count = 0;
+        id: string;
+        readonly name: string = "superman";
+        /** @minimum 0 */
+        age?: number;
+        isFlying = true;
+        private secret: string;
+        #identity: string;
+
+        constructor(public power: Power, private villain: string) {}
+
+        fly(): void {}
+        get altitude() { return 42; }
+      }`;
+      expect(generate(source)).toMatchInlineSnapshot(`
+        "export const heroSchema = z.object({
+            id: z.string(),
+            name: z.string().default("superman"),
+            /** @minimum 0 */
+            age: z.number().min(0).optional(),
+            isFlying: z.boolean().default(true),
+            power: powerSchema
+        });"
+      `);
+    });
+
+    it("should extend the schema of the parent class", () => {
+      const source = `export class Superman extends Hero implements Flying {
+        /** @default "red" */
+        cape: string;
+      }`;
+      expect(generate(source)).toMatchInlineSnapshot(`
+        "export const supermanSchema = heroSchema.extend({
+            /** @default "red" */
+            cape: z.string().default("red")
+        });"
+      `);
+    });
+
+    it("should generate an instanceof schema with `instanceof` classStyle", () => {
+      const source = `export class Hero { name: string; }`;
+      expect(
+        generate(source, "z", false, {}, undefined, "instanceof")
+      ).toMatchInlineSnapshot(
+        `"export const heroSchema = z.instanceof(Hero);"`
+      );
+    });
+  });
+
+  describe("conditional types", () => {
+    it("should evaluate a conditional type", () => {
+      const source = `export type Answer = string extends string ? "yes" : "no";`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const answerSchema = z.literal("yes");"`
+      );
+    });
+
+    it("should evaluate an instantiated generic conditional type", () => {
+      const source = `export interface Hero {
+        name: IsString<"superman">;
+        power?: Unwrap<Array<Power>>;
+        id: NullableId<true>;
+      }
+      type IsString<T> = T extends string ? "yes" : "no";
+      type Unwrap<T> = T extends Array<infer U> ? U : T;
+      type NullableId<T extends boolean> = T extends true ? { id: number; tags: string[] } | null : never;
+      interface Power { name: string }`;
+      expect(generate(source)).toMatchInlineSnapshot(`
+        "export const heroSchema = z.object({
+            name: z.literal("yes"),
+            power: powerSchema.optional(),
+            id: z.object({
+                id: z.number(),
+                tags: z.array(z.string())
+            }).nullable()
+        });"
+      `);
+    });
+
+    it("should follow enumStyle for evaluated string literal unions", () => {
+      const source = `export type Role = "admin" | "user" | "guest" extends infer R ? R extends "guest" ? never : R : never;`;
+      expect(generate(source, "z", false, {}, "enum")).toMatchInlineSnapshot(
+        `"export const roleSchema = z.enum(["admin", "user"]);"`
+      );
+    });
+
+    it("should build the union of a distributive conditional type alias", () => {
+      const source = `export type Distributed = Dist<string | number>;
+      type Dist<T> = T extends any ? T[] : never;`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const distributedSchema = z.union([z.array(z.string()), z.array(z.number())]);"`
+      );
+    });
+
+    it("should reference the local declarations of a conditional type", () => {
+      const source = `export type Users = User extends { id: string } ? User[] : null;
+      interface User { id: string }`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const usersSchema = z.array(userSchema);"`
+      );
+    });
+
+    it("should fallback on z.any() for a generic conditional type", () => {
+      const source = `export type IsString<T> = T extends string ? "yes" : "no";`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const isStringSchema = <T extends z.ZodTypeAny>(t: T) => z.any();"`
+      );
+    });
+  });
+
+  describe("utility types", () => {
+    it("should generate a schema from `Exclude<>`", () => {
+      const source = `export type Villain = Exclude<Character, "superman" | Hero>;
+      type Character = "superman" | "lex" | "zod" | Hero | Monster;`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const villainSchema = z.union([z.literal("lex"), z.literal("zod"), monsterSchema]);"`
+      );
+    });
+
+    it("should generate a schema from `Extract<>`", () => {
+      const source = `export type Id = Extract<"superman" | 42 | true | Hero, string | number>;`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const idSchema = z.union([z.literal("superman"), z.literal(42)]);"`
+      );
+    });
+
+    it("should generate a never schema from `Extract<>` without match", () => {
+      const source = `export type Id = Extract<"superman" | "lex", number>;`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const idSchema = z.never();"`
+      );
+    });
+
+    it("should generate a schema from `NonNullable<>`", () => {
+      const source = `export interface Villain {
+        power: NonNullable<Hero["power"]>;
+        name?: NonNullable<string | null | undefined>;
+      }
+      interface Hero {
+        power?: "fly" | "laser" | null;
+      }`;
+      expect(generate(source)).toMatchInlineSnapshot(`
+        "export const villainSchema = z.object({
+            power: z.union([z.literal("fly"), z.literal("laser")]),
+            name: z.string().optional()
+        });"
+      `);
+    });
+
+    it("should generate a schema from `Awaited<>`", () => {
+      const source = `export type Hero = Awaited<Promise<Promise<Superman>>>;`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const heroSchema = supermanSchema;"`
+      );
+    });
+
+    it("should generate a schema from `Awaited<>` of aliases & `ReturnType<>`", () => {
+      const source = `export interface Villain {
+        fromReturnType: Awaited<ReturnType<typeof getHero>>;
+        fromAlias: Awaited<HeroPromise>;
+        fromUnion: Awaited<Power | Promise<Hero>>;
+      }
+      async function getHero(name: string): Promise<Hero> { return heroes[name]; }
+      type HeroPromise = Promise<Hero>;
+      type Power = "fly" | "laser";`;
+      expect(generate(source)).toMatchInlineSnapshot(`
+        "export const villainSchema = z.object({
+            fromReturnType: heroSchema,
+            fromAlias: heroSchema,
+            fromUnion: z.union([powerSchema, heroSchema])
+        });"
+      `);
+    });
+
+    it("should generate a schema from `ReturnType<>`", () => {
+      const source = `export interface Villain {
+        fromFunction: ReturnType<typeof getHero>;
+        fromArrow: ReturnType<typeof getPower>;
+        fromType: ReturnType<GetName>;
+      }
+      function getHero(name: string): Hero { return heroes[name]; }
+      const getPower = (): "fly" | "laser" => "fly";
+      type GetName = (hero: Hero) => string;`;
+      expect(generate(source)).toMatchInlineSnapshot(`
+        "export const villainSchema = z.object({
+            fromFunction: heroSchema,
+            fromArrow: z.union([z.literal("fly"), z.literal("laser")]),
+            fromType: z.string()
+        });"
+      `);
+    });
+
+    it("should generate a schema from `Parameters<>`", () => {
+      const source = `export type FightParams = Parameters<typeof fight>;
+      function fight(hero: Hero, villain?: Villain, ...powers: Power[]): void {}`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const fightParamsSchema = z.tuple([heroSchema, villainSchema.optional()]).rest(powerSchema);"`
+      );
+    });
+
+    it("should fallback on z.any() if the function can't be resolved", () => {
+      const source = `export type FightResult = ReturnType<typeof fight>;
+      function fight() { return 42; }`;
+      expect(generate(source)).toMatchInlineSnapshot(
+        `"export const fightResultSchema = z.any();"`
+      );
+    });
+  });
+
   it("should generate a never", () => {
     const source = `export type CanBeatZod = never;`;
     expect(generate(source)).toMatchInlineSnapshot(
@@ -274,6 +727,61 @@ describe("generateZodSchema", () => {
     );
   });
 
+  it("should generate a set schema from a readonly set", () => {
+    const source = `export type EnemiesPowers = ReadonlySet<Power>;`;
+    expect(generate(source)).toMatchInlineSnapshot(
+      `"export const enemiesPowersSchema = z.set(powerSchema).readonly();"`
+    );
+  });
+
+  it("should generate a map schema", () => {
+    const source = `export type EnemiesPowers = Map<string, Power>;`;
+    expect(generate(source)).toMatchInlineSnapshot(
+      `"export const enemiesPowersSchema = z.map(z.string(), powerSchema);"`
+    );
+  });
+
+  it("should generate a map schema from a readonly map", () => {
+    const source = `export type EnemiesPowers = ReadonlyMap<number, Array<string>>;`;
+    expect(generate(source)).toMatchInlineSnapshot(
+      `"export const enemiesPowersSchema = z.map(z.number(), z.array(z.string())).readonly();"`
+    );
+  });
+
+  it("should generate set and map schemas with size and element JSDoc tags", () => {
+    const source = `export interface Villain {
+      /**
+       * @minSize 1
+       * @maxSize 5 "Too many powers"
+       * @elementMinLength 2
+       */
+      powers: Set<string>;
+
+      /**
+       * @minSize 1 "At least one enemy"
+       * @maxSize 10
+       * @elementMinimum 0
+       */
+      enemies?: Map<string, number>;
+    }`;
+    expect(generate(source)).toMatchInlineSnapshot(`
+      "export const villainSchema = z.object({
+          /**
+           * @minSize 1
+           * @maxSize 5 "Too many powers"
+           * @elementMinLength 2
+           */
+          powers: z.set(z.string().min(2)).min(1).max(5, "Too many powers"),
+          /**
+           * @minSize 1 "At least one enemy"
+           * @maxSize 10
+           * @elementMinimum 0
+           */
+          enemies: z.map(z.string(), z.number().min(0)).refine(map => map.size >= 1, "At least one enemy").refine(map => map.size <= 10).optional()
+      });"
+    `);
+  });
+
   it("should generate a function schema", () => {
     const source = `export type KillSuperman = (withKryptonite: boolean, method: string) => Promise<boolean>;`;
     expect(generate(source)).toMatchInlineSnapshot(
@@ -450,7 +958,7 @@ describe("generateZodSchema", () => {
         "export const supermanSchema = clarkSchema.extend(kalLSchema.shape).extend({
             withPower: z.boolean()
         });"
-      `);
+    `);
   });
 
   it("should generate a merged schema when extending with two comma-separated interfaces", () => {
@@ -462,7 +970,7 @@ describe("generateZodSchema", () => {
         "export const supermanSchema = clarkSchema.extend(kalLSchema.shape).extend({
             withPower: z.boolean()
         });"
-      `);
+    `);
   });
 
   it("should generate a merged schema when extending with multiple comma-separated interfaces", () => {
@@ -474,7 +982,7 @@ describe("generateZodSchema", () => {
         "export const supermanSchema = clarkSchema.extend(kalLSchema.shape).extend(kryptonianSchema.shape).extend({
             withPower: z.boolean()
         });"
-      `);
+    `);
   });
 
   it("should generate a schema with omit in interface extension clause and multiple clauses", () => {
@@ -580,7 +1088,7 @@ describe("generateZodSchema", () => {
       "export const supermanNameSchema = z.object({
           name: supermanSchema.shape.name.optional()
       });"
-      `);
+    `);
   });
 
   it("should deal with index access type using single quote (1st level)", () => {
@@ -592,7 +1100,7 @@ describe("generateZodSchema", () => {
       "export const supermanNameSchema = z.object({
           name: supermanSchema.shape.name.optional()
       });"
-      `);
+    `);
   });
 
   it("should deal with index access type with element access expression (1st level)", () => {
@@ -606,7 +1114,7 @@ describe("generateZodSchema", () => {
           firstName: supermanSchema.shape["name.firstName"],
           lastName: supermanSchema.shape["name-lastName"]
       });"
-      `);
+    `);
   });
 
   it("should deal with record with a union as key", () => {
@@ -1163,6 +1671,143 @@ describe("generateZodSchema", () => {
     `);
   });
 
+  it("should generate number constraints based on jsdoc tags", () => {
+    const source = `export interface Hero {
+      /**
+       * @minimum 0.5
+       * @exclusiveMaximum 1.5 should be less than 1.5
+       * @multipleOf 0.25
+       */
+      strength: number;
+      /**
+       * @integer
+       * @positive "should be positive"
+       */
+      age: number;
+      /**
+       * @exclusiveMinimum -10
+       * @nonnegative
+       * @finite
+       */
+      speed: number;
+      /**
+       * @elementInteger should be an integer
+       * @elementExclusiveMinimum 0
+       * @elementMultipleOf 5
+       */
+      scores: number[];
+    }`;
+    expect(generate(source)).toMatchInlineSnapshot(`
+      "export const heroSchema = z.object({
+          /**
+           * @minimum 0.5
+           * @exclusiveMaximum 1.5 should be less than 1.5
+           * @multipleOf 0.25
+           */
+          strength: z.number().min(0.5).lt(1.5, "should be less than 1.5").multipleOf(0.25),
+          /**
+           * @integer
+           * @positive "should be positive"
+           */
+          age: z.number().int().positive("should be positive"),
+          /**
+           * @exclusiveMinimum -10
+           * @nonnegative
+           * @finite
+           */
+          speed: z.number().gt(-10).nonnegative().finite(),
+          /**
+           * @elementInteger should be an integer
+           * @elementExclusiveMinimum 0
+           * @elementMultipleOf 5
+           */
+          scores: z.array(z.number().gt(0).multipleOf(5).int("should be an integer"))
+      });"
+    `);
+  });
+
+  it("should generate array constraints based on jsdoc tags", () => {
+    const source = `export interface Hero {
+      /**
+       * @nonempty
+       * @maxItems 5 too many tags
+       * @uniqueItems "tags must be unique"
+       */
+      tags: string[];
+      /**
+       * @minItems 2
+       * @uniqueItems
+       */
+      scores: [number, ...number[]];
+      /**
+       * @maxItems 3
+       * @uniqueItems
+       */
+      powers?: Set<string>;
+      /**
+       * @uniqueItems
+       * @minLength 2
+       */
+      villains?: Array<{ name: string }>;
+    }`;
+    expect(generate(source)).toMatchInlineSnapshot(`
+      "export const heroSchema = z.object({
+          /**
+           * @nonempty
+           * @maxItems 5 too many tags
+           * @uniqueItems "tags must be unique"
+           */
+          tags: z.array(z.string()).min(1).max(5, "too many tags").refine(items => new Set(items.map(item => typeof item === "object" ? JSON.stringify(item) : item)).size === items.length, "tags must be unique"),
+          /**
+           * @minItems 2
+           * @uniqueItems
+           */
+          scores: z.tuple([z.number()]).rest(z.number()).refine(items => items.length >= 2).refine(items => new Set(items.map(item => typeof item === "object" ? JSON.stringify(item) : item)).size === items.length),
+          /**
+           * @maxItems 3
+           * @uniqueItems
+           */
+          powers: z.set(z.string()).max(3).optional(),
+          /**
+           * @uniqueItems
+           * @minLength 2
+           */
+          villains: z.array(z.object({
+              name: z.string()
+          })).min(2).refine(items => new Set(items.map(item => typeof item === "object" ? JSON.stringify(item) : item)).size === items.length).optional()
+      });"
+    `);
+  });
+
+  it("should generate coerced primitives with @coerce", () => {
+    const source = `export interface SearchQuery {
+      /**
+       * @coerce
+       * @minimum 1
+       */
+      page: number;
+      /** @coerce */
+      from?: Date;
+      /** @coerce */
+      archived: boolean;
+      query: string;
+    }`;
+    expect(generate(source)).toMatchInlineSnapshot(`
+      "export const searchQuerySchema = z.object({
+          /**
+           * @coerce
+           * @minimum 1
+           */
+          page: z.coerce.number().min(1),
+          /** @coerce */
+          from: z.coerce.date().optional(),
+          /** @coerce */
+          archived: z.preprocess(value => value === "true" ? true : value === "false" ? false : value, z.boolean()),
+          query: z.string()
+      });"
+    `);
+  });
+
   it("should generate custom error messages for custom jsdoc format types", () => {
     const source = `export interface Info {
       /**
@@ -1220,6 +1865,144 @@ describe("generateZodSchema", () => {
     `);
   });
 
+  it("should generate custom jsdoc tags with their handlers", () => {
+    const source = `export interface Article {
+      /**
+       * @slug
+       */
+      slug: string;
+
+      /**
+       * @currency EUR Only euros are accepted
+       */
+      price: string;
+
+      /**
+       * @see https://example.com
+       */
+      title: string;
+
+      /**
+       * @tenant
+       */
+      tenantId: string;
+    }`;
+    expect(
+      generate(source, undefined, undefined, undefined, undefined, undefined, {
+        slug: () => ({
+          identifier: "refine",
+          expressions: ["isSlug"],
+          imports: [{ name: "isSlug", from: "./validators" }],
+        }),
+        currency: (value, { errorMessage }) =>
+          `.length(3).refine((v) => v === "${value}", "${errorMessage}")`,
+        tenant: () => `.uuid().brand<"tenant">()`,
+      })
+    ).toMatchInlineSnapshot(`
+      "export const articleSchema = z.object({
+          /**
+           * @slug
+           */
+          slug: z.string().refine(isSlug),
+          /**
+           * @currency EUR Only euros are accepted
+           */
+          price: z.string().length(3).refine((v) => v === "EUR", "Only euros are accepted"),
+          /**
+           * @see https://example.com
+           */
+          title: z.string(),
+          /**
+           * @tenant
+           */
+          tenantId: z.string().uuid().brand<"tenant">()
+      });"
+    `);
+  });
+
+  it("should throw if a custom jsdoc tag handler returns invalid code", () => {
+    const source = `export interface Article {
+      /** @slug */
+      slug: string;
+    }`;
+    expect(() =>
+      generate(source, undefined, undefined, undefined, undefined, undefined, {
+        slug: () => "isSlug()",
+      })
+    ).toThrowErrorMatchingInlineSnapshot(
+      `"Invalid custom JSDoc tag result "isSlug()", zod methods expected (\`.refine(isSlug)\`)"`
+    );
+  });
+
+  it("should generate refinements & transformations with imported helpers", () => {
+    const source = `export interface Article {
+      /**
+       * @minLength 1
+       * @refine ./validators#isSlug "Invalid slug"
+       */
+      slug: string;
+
+      /**
+       * @refine ./validators#isPast
+       * @transform ./parsers#toDate
+       */
+      publishedAt?: string;
+
+      /**
+       * @refine isSlug
+       */
+      title: string;
+    }`;
+    expect(generate(source)).toMatchInlineSnapshot(`
+      "export const articleSchema = z.object({
+          /**
+           * @minLength 1
+           * @refine ./validators#isSlug "Invalid slug"
+           */
+          slug: z.string().min(1).refine(isSlug, { message: "Invalid slug" }),
+          /**
+           * @refine ./validators#isPast
+           * @transform ./parsers#toDate
+           */
+          publishedAt: z.string().refine(isPast).transform(toDate).optional(),
+          /**
+           * @refine isSlug
+           */
+          title: z.string()
+      });"
+    `);
+  });
+
+  it("should generate refinements after strict()", () => {
+    const source = `/**
+     * @strict
+     * @refine ./validators#isValidRange
+     */
+    export interface Range {
+      /**
+       * @strict
+       * @refine ./validators#isValidBounds
+       */
+      bounds: { min: number; max: number };
+    }`;
+    expect(generate(source)).toMatchInlineSnapshot(`
+      "/**
+           * @strict
+           * @refine ./validators#isValidRange
+           */
+      export const rangeSchema = z.object({
+          /**
+           * @strict
+           * @refine ./validators#isValidBounds
+           */
+          bounds: z.object({
+              min: z.number(),
+              max: z.number()
+          }).strict().refine(isValidBounds)
+      }).strict().refine(isValidRange);"
+    `);
+  });
+
   it("should generate validator on top-level types", () => {
     const source = `/**
     * @minLength 1
@@ -1791,19 +2574,102 @@ describe("generateZodSchema", () => {
     `);
   });
 
-  it("should throw on interface with generics", () => {
+  it("should generate a schema factory for interface with generics", () => {
     const source = `export interface Villain<TPower> {
      powers: TPower[]
+   }`;
+    expect(generate(source)).toMatchInlineSnapshot(`
+      "export const villainSchema = <TPower extends z.ZodTypeAny>(tPower: TPower) => z.object({
+          powers: z.array(tPower)
+      });"
+    `);
+  });
+
+  it("should generate a schema factory for type with generics", () => {
+    const source = `export type ApiResponse<TData, TError> = { data: TData } | { error: TError }`;
+    expect(generate(source)).toMatchInlineSnapshot(`
+      "export const apiResponseSchema = <TData extends z.ZodTypeAny, TError extends z.ZodTypeAny>(tData: TData, tError: TError) => z.union([z.object({
+              data: tData
+          }), z.object({
+              error: tError
+          })]);"
+    `);
+  });
+
+  it("should generate a schema factory for generic interface with extends", () => {
+    const source = `export interface Paginated<T> extends Page<T> {
+     items: T[];
+     total: number;
+   }`;
+    expect(generate(source)).toMatchInlineSnapshot(`
+      "export const paginatedSchema = <T extends z.ZodTypeAny>(t: T) => pageSchema(t).extend({
+          items: z.array(t),
+          total: z.number()
+      });"
+    `);
+  });
+
+  it("should call the schema factory when referencing a generic type", () => {
+    const source = `export interface Hero {
+     allies: Paginated<Person>;
+     enemies?: Maybe<Array<Villain>>;
+   }`;
+    expect(generate(source)).toMatchInlineSnapshot(`
+      "export const heroSchema = z.object({
+          allies: paginatedSchema(personSchema),
+          enemies: maybeSchema(z.array(villainSchema)).optional()
+      });"
+    `);
+  });
+
+  it("should call the schema factories with the default type arguments", () => {
+    const source = `export interface Hero extends Paginated {
+     allies: Paginated;
+     enemies: Paginated<Villain>;
+   }
+
+   export interface Paginated<T = Person, TMeta = { total: number }> {
+     items: T[];
+     meta: TMeta;
+   }`;
+    expect(generate(source)).toMatchInlineSnapshot(`
+      "export const heroSchema = paginatedSchema(personSchema, z.object({
+          total: z.number()
+      })).extend({
+          allies: paginatedSchema(personSchema, z.object({
+              total: z.number()
+          })),
+          enemies: paginatedSchema(villainSchema, z.object({
+              total: z.number()
+          }))
+      });"
+    `);
+  });
+
+  it("should throw if the default type arguments reference type parameters", () => {
+    const source = `export interface Hero {
+     allies: Paginated;
+   }
+
+   export interface Paginated<T = Person, TItems = T[]> {
+     items: TItems;
    }`;
     expect(() => generate(source)).toThrowErrorMatchingInlineSnapshot(
-      `"Interface with generics are not supported!"`
+      `"The generic 'Paginated' is referenced without type arguments, only the defaults without type parameters are supported"`
     );
   });
 
-  it("should throw on type with generics", () => {
-    const source = `export type SecretVillain<T> = RandomPeople<T>`;
+  it("should throw if a missing type argument has no default", () => {
+    const source = `export interface Hero {
+     allies: Paginated<Person>;
+   }
+
+   export interface Paginated<T, TMeta> {
+     items: T[];
+     meta: TMeta;
+   }`;
     expect(() => generate(source)).toThrowErrorMatchingInlineSnapshot(
-      `"Type with generics are not supported!"`
+      `"The generic 'Paginated' is referenced with missing type arguments, only the defaults without type parameters are supported"`
     );
   });
 
@@ -1848,25 +2714,17 @@ function generate(
   sourceText: string,
   z?: string,
   skipParseJSDoc?: boolean,
-  customJSDocFormatTypes: CustomJSDocFormatTypes = {}
+  customJSDocFormatTypes: CustomJSDocFormatTypes = {},
+  enumStyle?: EnumStyle,
+  classStyle?: ClassStyle,
+  customJSDocTags?: CustomJSDocTags
 ) {
   const sourceFile = ts.createSourceFile(
     "index.ts",
     sourceText,
     ts.ScriptTarget.Latest
   );
-  const declaration = findNode(
-    sourceFile,
-    (
-      node
-    ): node is
-      | ts.InterfaceDeclaration
-      | ts.TypeAliasDeclaration
-      | ts.EnumDeclaration =>
-      ts.isInterfaceDeclaration(node) ||
-      ts.isTypeAliasDeclaration(node) ||
-      ts.isEnumDeclaration(node)
-  );
+  const declaration = findNode(sourceFile, isTypeNode);
   if (!declaration) {
     throw new Error("No `type` or `interface` found!");
   }
@@ -1880,6 +2738,9 @@ function generate(
     varName: zodConstName,
     skipParseJSDoc,
     customJSDocFormatTypes,
+    enumStyle,
+    classStyle,
+    customJSDocTags,
   });
 
   return ts
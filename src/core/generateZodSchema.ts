@@ -2,25 +2,53 @@ import { camel, lower } from "case";
 import uniq from "lodash/uniq";
 import ts, { factory as f } from "typescript";
 import {
+  ClassStyle,
+  CoerceTypes,
   CustomJSDocFormatTypes,
-  MaybeConfig,
+  CustomJSDocTagImport,
+  CustomJSDocTags,
+  EnumStyle,
   ZodSchemaResult,
+  ZodVersion,
 } from "../config";
+import { transformZodV4Schema } from "./transformZodV4Schema";
+import {
+  buildZodCoerceCall,
+  transformCoerceSchema,
+} from "./transformCoerceSchema";
 import { findNode } from "../utils/findNode";
+import { getTypeChecker } from "../utils/typeChecker";
+import {
+  ClassProperty,
+  getClassProperties,
+  getClassPropertyType,
+} from "../utils/classHandling";
+import { getTemplateLiteralPattern } from "../utils/templateLiteralPattern";
 import { isNotNull } from "../utils/isNotNull";
 import { generateCombinations } from "../utils/generateCombinations";
 import { extractLiteralValue } from "../utils/extractLiteralValue";
 import {
+  HelperFunction,
   JSDocTags,
   ZodProperty,
+  getElementJSDocTags,
+  getHelperFunctions,
   getJSDocTags,
+  jsDocTagToZodEffectsProperties,
   jsDocTagToZodProperties,
+  jsDocTagToZodItemsProperties,
+  jsDocTagToZodSizeProperties,
+  withItemsProperties,
 } from "./jsDocTags";
+import { createFallbackSchema } from "../utils/createSchemaHandler";
+import { EnumMemberValue, getEnumMemberValues } from "../utils/enumHandling";
 import {
-  createFallbackSchema,
-  createObjectSchemaStatement,
-  createOptionalProperty,
-} from "../utils/createSchemaHandler";
+  ConstValue,
+  findConstInitializer,
+  getConstValue,
+  getObjectLiteralKeys,
+  unwrapConstAssertion,
+} from "../utils/constValues";
 
 export interface GenerateZodSchemaProps {
   /**
@@ -29,9 +57,13 @@ export interface GenerateZodSchemaProps {
   varName: string;
 
   /**
-   * Interface or type node
+   * Interface, type, enum or class node
    */
-  node: ts.InterfaceDeclaration | ts.TypeAliasDeclaration | ts.EnumDeclaration;
+  node:
+    | ts.InterfaceDeclaration
+    | ts.TypeAliasDeclaration
+    | ts.EnumDeclaration
+    | ts.ClassDeclaration;
 
   /**
    * Zod import value.
@@ -64,11 +96,41 @@ export interface GenerateZodSchemaProps {
    */
   customJSDocFormatTypes: CustomJSDocFormatTypes;
 
-  maybeConfig?: MaybeConfig;
+  /**
+   * Custom JSDoc tag handlers.
+   */
+  customJSDocTags?: CustomJSDocTags;
+
+  /**
+   * Schema generated for enums and string literal unions.
+   *
+   * @default "nativeEnum"
+   */
+  enumStyle?: EnumStyle;
+
+  /**
+   * Schema generated for classes.
+   *
+   * @default "object"
+   */
+  classStyle?: ClassStyle;
+
+  /**
+   * Primitive types parsed with `z.coerce.*`.
+   */
+  coerce?: CoerceTypes;
+
+  /**
+   * Major version of zod targeted by the generated schema.
+   *
+   * @default 3
+   */
+  zodVersion?: ZodVersion;
 }
 
 type SchemaExtensionClause = {
   extendedSchemaName: string;
+  extendedSchemaArgs?: ts.Expression[];
   omitOrPickType?: "Omit" | "Pick";
   omitOrPickKeys?: ts.TypeNode;
 };
@@ -82,6 +144,8 @@ interface BuildZodPrimitiveParams {
   isRequired?: boolean;
   jsDocTags: JSDocTags;
   customJSDocFormatTypes: CustomJSDocFormatTypes;
+  customJSDocTags: CustomJSDocTags;
+  enumStyle: EnumStyle;
   sourceFile: ts.SourceFile;
   dependencies: string[];
   getDependencyName: (identifierName: string) => string;
@@ -99,11 +163,15 @@ export function generateZodSchemaVariableStatement({
   node,
   sourceFile,
   varName,
-  maybeConfig = { maybeTypeNames: [] },
   zodImportValue = "z",
   getDependencyName = (identifierName) => camel(`${identifierName}Schema`),
   skipParseJSDoc = false,
   customJSDocFormatTypes,
+  customJSDocTags: customJSDocTagHandlers = {},
+  enumStyle = "nativeEnum",
+  classStyle = "object",
+  coerce,
+  zodVersion = 3,
 }: GenerateZodSchemaProps): ZodSchemaResult {
   console.debug(`[GENERATE] Init generateZodSchemaVariableStatement.`);
 
@@ -114,6 +182,21 @@ export function generateZodSchemaVariableStatement({
   let schema: ts.Expression = f.createIdentifier("undefined");
   let dependencies: string[] = [];
   let enumImport = false;
+  const customImports: CustomJSDocTagImport[] = [];
+
+  // Collect the imports declared by the custom tags used in this schema
+  const customJSDocTags = Object.fromEntries(
+    Object.entries(customJSDocTagHandlers).map(([tagName, handler]) => [
+      tagName,
+      (...args: Parameters<typeof handler>) => {
+        const result = handler(...args);
+        if (typeof result !== "string" && result.imports) {
+          customImports.push(...result.imports);
+        }
+        return result;
+      },
+    ])
+  );
 
   const nodeKind = ts.SyntaxKind[node.kind];
   const interfaceName = node.name?.text;
@@ -124,180 +207,26 @@ export function generateZodSchemaVariableStatement({
     return createFallbackSchema(varName);
   }
 
-  if (ts.isInterfaceDeclaration(node)) {
+  // Type parameters are resolved to the schema factory arguments
+  const typeParameterNames =
+    !ts.isEnumDeclaration(node) && node.typeParameters
+      ? node.typeParameters.map((param) => param.name.text)
+      : [];
+  const typeParameterArgNames = typeParameterNames.map((name) => camel(name));
+  const getDependencyOrTypeParameterName = (identifierName: string) =>
+    typeParameterNames.includes(identifierName)
+      ? camel(identifierName)
+      : getDependencyName(identifierName);
+
+  if (ts.isClassDeclaration(node) && classStyle === "instanceof") {
+    // The class is imported from the source file, as native enums
+    schema = buildZodSchema(zodImportValue, "instanceof", [
+      f.createIdentifier(interfaceName),
+    ]);
+    enumImport = true;
+  } else if (ts.isInterfaceDeclaration(node) || ts.isClassDeclaration(node)) {
     let schemaExtensionClauses: SchemaExtensionClause[] | undefined;
-    // console.debug(
-    //   "[CONFIG] Received maybeTypeNames:",
-    //   maybeConfig.maybeTypeNames
-    // );
-
-    const isGenericMaybeInterface = (
-      node:
-        | ts.InterfaceDeclaration
-        | ts.TypeAliasDeclaration
-        | ts.EnumDeclaration
-    ): boolean => {
-      try {
-        if (!node?.name?.text) return false;
-        return (
-          maybeConfig.maybeTypeNames?.some(
-            (giName) => giName === node.name.text
-          ) ?? false
-        );
-      } catch (error) {
-        console.error("[GENERIC] Error checking generic interface:", error);
-        return false;
-      }
-    };
-
-    // Process generic interfaces first
-    if (isGenericMaybeInterface(node)) {
-      const properties =
-        node.members?.filter(ts.isPropertySignature)?.map((prop) => {
-          const propName = prop.name?.getText(sourceFile) || "unknown";
-          return createOptionalProperty(propName, zodImportValue);
-        }) || [];
-
-      return {
-        dependencies: [],
-        statement: createObjectSchemaStatement(
-          varName,
-          properties,
-          zodImportValue
-        ),
-        enumImport: false,
-      };
-    }
-
-    // Skip generic type parameter validation for our special interfaces
-    const isSpecialGenericInterface =
-      interfaceName && maybeConfig.maybeTypeNames?.includes(interfaceName);
-    console.debug(
-      `[DEBUG] Is a generic interface: ${
-        isSpecialGenericInterface ? "true" : "false"
-      }`
-    );
-
-    if (node.typeParameters && !isSpecialGenericInterface) {
-      throw new Error("Interface with generics are not supported!");
-    }
-
-    if (isSpecialGenericInterface) {
-      const properties = node.members
-        .filter(ts.isPropertySignature)
-        .map((prop) => {
-          const propName = prop.name.getText();
-          const anyCall = f.createCallExpression(
-            f.createPropertyAccessExpression(
-              f.createIdentifier(zodImportValue),
-              f.createIdentifier("any")
-            ),
-            undefined,
-            undefined
-          );
-
-          const optionalCall = f.createCallExpression(
-            f.createPropertyAccessExpression(
-              anyCall,
-              f.createIdentifier("optional")
-            ),
-            undefined,
-            undefined
-          );
-
-          return f.createPropertyAssignment(propName, optionalCall);
-        });
-
-      return {
-        dependencies: [],
-        statement: f.createVariableStatement(
-          undefined,
-          f.createVariableDeclarationList(
-            [
-              f.createVariableDeclaration(
-                varName,
-                undefined,
-                undefined,
-                f.createCallExpression(
-                  f.createPropertyAccessExpression(
-                    f.createIdentifier(zodImportValue),
-                    f.createIdentifier("object")
-                  ),
-                  undefined,
-                  [f.createObjectLiteralExpression(properties, true)]
-                )
-              ),
-            ],
-            ts.NodeFlags.Const
-          )
-        ),
-        enumImport: false,
-      };
-    }
-
-    // Check if this is a generic interface from config
-    console.debug(
-      `[DEBUG] Is part of Maybe interfaces list: ${
-        maybeConfig.maybeTypeNames?.includes(interfaceName) ? "true" : "false"
-      }`
-    );
-    if (interfaceName && maybeConfig.maybeTypeNames?.includes(interfaceName)) {
-      const properties = node.members
-        .filter(ts.isPropertySignature)
-        .map((prop) => {
-          const propName = prop.name.getText();
-          const anyCall = f.createCallExpression(
-            f.createPropertyAccessExpression(
-              f.createIdentifier(zodImportValue),
-              f.createIdentifier("any")
-            ),
-            undefined,
-            undefined
-          );
-
-          // Create the optional property by wrapping in a call to .optional()
-          const optionalCall = f.createCallExpression(
-            f.createPropertyAccessExpression(
-              anyCall,
-              f.createIdentifier("optional")
-            ),
-            undefined,
-            undefined
-          );
-
-          return f.createPropertyAssignment(propName, optionalCall);
-        });
-
-      return {
-        dependencies: [],
-        statement: f.createVariableStatement(
-          undefined,
-          f.createVariableDeclarationList(
-            [
-              f.createVariableDeclaration(
-                varName,
-                undefined,
-                undefined,
-                f.createCallExpression(
-                  f.createPropertyAccessExpression(
-                    f.createIdentifier(zodImportValue),
-                    f.createIdentifier("object")
-                  ),
-                  undefined,
-                  [f.createObjectLiteralExpression(properties, true)]
-                )
-              ),
-            ],
-            ts.NodeFlags.Const
-          )
-        ),
-        enumImport: false,
-      };
-    }
 
-    // if (node.typeParameters) {
-    //   throw new Error("Interface with generics are not supported!");
-    // }
     if (node.heritageClauses) {
       // Looping on heritageClauses browses the "extends" keywords
       schemaExtensionClauses = node.heritageClauses.reduce(
@@ -316,7 +245,7 @@ export function generateZodSchemaVariableStatement({
             ) {
               const [originalType, keys] = expression.typeArguments;
               return {
-                extendedSchemaName: getDependencyName(
+                extendedSchemaName: getDependencyOrTypeParameterName(
                   originalType.getText(sourceFile)
                 ),
                 omitOrPickType: identifierName as "Omit" | "Pick",
@@ -324,7 +253,30 @@ export function generateZodSchemaVariableStatement({
               };
             }
 
-            return { extendedSchemaName: getDependencyName(identifierName) };
+            return {
+              extendedSchemaName:
+                getDependencyOrTypeParameterName(identifierName),
+              // Generic interfaces are extended from their schema factory
+              extendedSchemaArgs: getTypeArguments(
+                identifierName,
+                expression.typeArguments,
+                sourceFile
+              )?.map((typeNode) =>
+                buildZodPrimitive({
+                  z: zodImportValue,
+                  typeNode,
+                  isOptional: false,
+                  jsDocTags: {},
+                  customJSDocFormatTypes,
+                  customJSDocTags,
+                  enumStyle,
+                  sourceFile,
+                  dependencies,
+                  getDependencyName: getDependencyOrTypeParameterName,
+                  skipParseJSDoc,
+                })
+              ),
+            };
           });
 
           return deps.concat(heritages);
@@ -342,10 +294,12 @@ export function generateZodSchemaVariableStatement({
       sourceFile,
       z: zodImportValue,
       dependencies,
-      getDependencyName,
+      getDependencyName: getDependencyOrTypeParameterName,
       schemaExtensionClauses,
       skipParseJSDoc,
       customJSDocFormatTypes,
+      customJSDocTags,
+      enumStyle,
     });
 
     if (!skipParseJSDoc) {
@@ -360,13 +314,14 @@ export function generateZodSchemaVariableStatement({
           undefined
         );
       }
+      schema = withZodProperties(
+        schema,
+        jsDocTagToZodEffectsProperties(jsDocTags)
+      );
     }
   }
 
   if (ts.isTypeAliasDeclaration(node)) {
-    if (node.typeParameters) {
-      throw new Error("Type with generics are not supported!");
-    }
     const jsDocTags = skipParseJSDoc ? {} : getJSDocTags(node, sourceFile);
 
     schema = buildZodPrimitive({
@@ -375,16 +330,24 @@ export function generateZodSchemaVariableStatement({
       isOptional: false,
       jsDocTags,
       customJSDocFormatTypes,
+      customJSDocTags,
+      enumStyle,
       sourceFile,
       dependencies,
-      getDependencyName,
+      getDependencyName: getDependencyOrTypeParameterName,
       skipParseJSDoc,
     });
   }
 
   if (ts.isEnumDeclaration(node)) {
-    schema = buildZodSchema(zodImportValue, "nativeEnum", [node.name]);
-    enumImport = true;
+    const values = getEnumMemberValues(node);
+
+    if (enumStyle === "nativeEnum" || !values) {
+      schema = buildZodSchema(zodImportValue, "nativeEnum", [node.name]);
+      enumImport = true;
+    } else {
+      schema = buildZodLiteralValues(zodImportValue, values, enumStyle);
+    }
   }
 
   if (!schema) {
@@ -401,6 +364,21 @@ export function generateZodSchemaVariableStatement({
     };
   }
 
+  if (coerce) {
+    schema = transformCoerceSchema(zodImportValue, schema, coerce);
+  }
+
+  if (zodVersion === 4) {
+    schema = transformZodV4Schema(zodImportValue, schema);
+  }
+
+  if (typeParameterNames.length > 0) {
+    schema = buildZodSchemaFactory(zodImportValue, typeParameterNames, schema);
+    dependencies = dependencies.filter(
+      (dep) => !typeParameterArgNames.includes(dep)
+    );
+  }
+
   return {
     dependencies: uniq(dependencies),
     statement: f.createVariableStatement(
@@ -411,9 +389,33 @@ export function generateZodSchemaVariableStatement({
       )
     ),
     enumImport,
+    customImports,
+    ...(skipParseJSDoc ? {} : getNodeHelperFunctions(node, sourceFile)),
   };
 }
 
+/**
+ * List the helper functions referenced by the `@refine` & `@transform` tags
+ * of a declaration and its members.
+ *
+ * @param node
+ * @param sourceFile
+ */
+function getNodeHelperFunctions(node: ts.Node, sourceFile: ts.SourceFile) {
+  const helperFunctions: HelperFunction[] = [];
+  let hasTransform = false;
+
+  const visit = (child: ts.Node) => {
+    const jsDocTags = getJSDocTags(child, sourceFile);
+    helperFunctions.push(...getHelperFunctions(jsDocTags));
+    hasTransform = hasTransform || Boolean(jsDocTags.transform);
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+
+  return { helperFunctions, hasTransform };
+}
+
 /**
  * Generate zod schema declaration for imported types (using any)
  *
@@ -454,23 +456,31 @@ function buildZodProperties({
   getDependencyName,
   skipParseJSDoc,
   customJSDocFormatTypes,
+  customJSDocTags,
+  enumStyle,
 }: {
-  members: ts.NodeArray<ts.TypeElement> | ts.PropertySignature[];
+  members:
+    | ts.NodeArray<ts.TypeElement>
+    | Array<ts.PropertySignature | ClassProperty>;
   zodImportValue: string;
   sourceFile: ts.SourceFile;
   dependencies: string[];
   getDependencyName: (identifierName: string) => string;
   skipParseJSDoc: boolean;
   customJSDocFormatTypes: CustomJSDocFormatTypes;
+  customJSDocTags: CustomJSDocTags;
+  enumStyle: EnumStyle;
 }) {
   const properties = new Map<
     ts.Identifier | ts.StringLiteral | ts.NumericLiteral,
     ts.CallExpression | ts.Identifier | ts.PropertyAccessExpression
   >();
   members.forEach((member) => {
+    const isClassProperty =
+      ts.isPropertyDeclaration(member) || ts.isParameter(member);
     if (
-      !ts.isPropertySignature(member) ||
-      !member.type ||
+      !(ts.isPropertySignature(member) || isClassProperty) ||
+      !(member.type || isClassProperty) ||
       !(
         ts.isIdentifier(member.name) ||
         ts.isStringLiteral(member.name) ||
@@ -483,14 +493,24 @@ function buildZodProperties({
     const isOptional = Boolean(member.questionToken);
     const jsDocTags = skipParseJSDoc ? {} : getJSDocTags(member, sourceFile);
 
+    // Class property initializers are used as default values
+    if (isClassProperty && member.initializer && !("default" in jsDocTags)) {
+      const value = getConstValue(member.initializer);
+      if (value !== undefined) jsDocTags.default = value;
+    }
+
     properties.set(
       member.name,
       buildZodPrimitive({
         z,
-        typeNode: member.type,
+        typeNode: isClassProperty
+          ? getClassPropertyType(member as ClassProperty)
+          : (member.type as ts.TypeNode),
         isOptional,
         jsDocTags,
         customJSDocFormatTypes,
+        customJSDocTags,
+        enumStyle,
         sourceFile,
         dependencies,
         getDependencyName,
@@ -543,6 +563,8 @@ function buildZodPrimitiveInternal({
   isRequired,
   jsDocTags,
   customJSDocFormatTypes,
+  customJSDocTags,
+  enumStyle,
   sourceFile,
   dependencies,
   getDependencyName,
@@ -554,6 +576,7 @@ function buildZodPrimitiveInternal({
   const zodProperties = jsDocTagToZodProperties(
     jsDocTags,
     customJSDocFormatTypes,
+    customJSDocTags,
     isOptional,
     Boolean(isPartial),
     Boolean(isRequired),
@@ -568,6 +591,8 @@ function buildZodPrimitiveInternal({
       isOptional,
       jsDocTags,
       customJSDocFormatTypes,
+      customJSDocTags,
+      enumStyle,
       sourceFile,
       dependencies,
       getDependencyName,
@@ -575,6 +600,29 @@ function buildZodPrimitiveInternal({
     });
   }
 
+  // Deal with conditional types, evaluated by the type checker
+  if (
+    typeNode.pos >= 0 &&
+    (ts.isConditionalTypeNode(typeNode) ||
+      (ts.isTypeReferenceNode(typeNode) &&
+        isConditionalTypeReference(typeNode, sourceFile)))
+  ) {
+    const typeChecker = getTypeChecker(sourceFile);
+    return withZodProperties(
+      buildZodSchemaFromType({
+        z,
+        type: typeChecker.getTypeFromTypeNode(typeNode),
+        typeChecker,
+        sourceFile,
+        dependencies,
+        getDependencyName,
+        enumStyle,
+        parentNode: typeNode.parent,
+      }),
+      zodProperties
+    );
+  }
+
   if (ts.isTypeReferenceNode(typeNode) && ts.isIdentifier(typeNode.typeName)) {
     const identifierName = typeNode.typeName.text;
 
@@ -591,6 +639,8 @@ function buildZodPrimitiveInternal({
         getDependencyName,
         skipParseJSDoc,
         customJSDocFormatTypes,
+        customJSDocTags,
+        enumStyle,
       });
     }
 
@@ -603,6 +653,8 @@ function buildZodPrimitiveInternal({
         isNullable,
         jsDocTags,
         customJSDocFormatTypes,
+        customJSDocTags,
+        enumStyle,
         sourceFile,
         isPartial: true,
         dependencies,
@@ -620,6 +672,8 @@ function buildZodPrimitiveInternal({
         isNullable,
         jsDocTags,
         customJSDocFormatTypes,
+        customJSDocTags,
+        enumStyle,
         sourceFile,
         isRequired: true,
         dependencies,
@@ -637,6 +691,8 @@ function buildZodPrimitiveInternal({
         isNullable,
         jsDocTags,
         customJSDocFormatTypes,
+        customJSDocTags,
+        enumStyle,
         sourceFile,
         dependencies,
         getDependencyName,
@@ -660,6 +716,8 @@ function buildZodPrimitiveInternal({
             getDependencyName,
             skipParseJSDoc,
             customJSDocFormatTypes,
+            customJSDocTags,
+            enumStyle,
           }),
         ],
         zodProperties
@@ -680,6 +738,8 @@ function buildZodPrimitiveInternal({
               isOptional: false,
               jsDocTags,
               customJSDocFormatTypes,
+              customJSDocTags,
+              enumStyle,
               sourceFile,
               isPartial: false,
               dependencies,
@@ -702,6 +762,8 @@ function buildZodPrimitiveInternal({
             isOptional: false,
             jsDocTags,
             customJSDocFormatTypes,
+            customJSDocTags,
+            enumStyle,
             sourceFile,
             isPartial: false,
             dependencies,
@@ -714,6 +776,8 @@ function buildZodPrimitiveInternal({
             isOptional: false,
             jsDocTags,
             customJSDocFormatTypes,
+            customJSDocTags,
+            enumStyle,
             sourceFile,
             isPartial: false,
             dependencies,
@@ -727,28 +791,89 @@ function buildZodPrimitiveInternal({
 
     // Deal with `Date`
     if (identifierName === "Date") {
-      return buildZodSchema(z, "date", [], zodProperties);
+      return buildZodCoercibleSchema(z, "date", jsDocTags, zodProperties);
     }
 
-    // Deal with `Set<>` syntax
-    if (identifierName === "Set" && typeNode.typeArguments) {
+    // Deal with `Set<>` & `ReadonlySet<>` syntax
+    if (
+      ["Set", "ReadonlySet"].includes(identifierName) &&
+      typeNode.typeArguments
+    ) {
       return buildZodSchema(
         z,
         "set",
-        typeNode.typeArguments.map((i) =>
+        [
           buildZodPrimitive({
             z,
-            typeNode: i,
+            typeNode: typeNode.typeArguments[0],
             isOptional: false,
-            jsDocTags,
+            jsDocTags: getElementJSDocTags(jsDocTags),
             customJSDocFormatTypes,
+            customJSDocTags,
+            enumStyle,
             sourceFile,
             dependencies,
             getDependencyName,
             skipParseJSDoc,
-          })
-        ),
-        zodProperties
+          }),
+        ],
+        [
+          ...jsDocTagToZodSizeProperties(jsDocTags, "set"),
+          ...(identifierName === "ReadonlySet"
+            ? [{ identifier: "readonly" }]
+            : []),
+          ...withItemsProperties(
+            jsDocTagToZodItemsProperties(jsDocTags, "set"),
+            zodProperties
+          ),
+        ]
+      );
+    }
+
+    // Deal with `Map<>` & `ReadonlyMap<>` syntax
+    if (
+      ["Map", "ReadonlyMap"].includes(identifierName) &&
+      typeNode.typeArguments
+    ) {
+      const [keyType, valueType] = typeNode.typeArguments;
+      return buildZodSchema(
+        z,
+        "map",
+        [
+          buildZodPrimitive({
+            z,
+            typeNode: keyType,
+            isOptional: false,
+            jsDocTags: {},
+            customJSDocFormatTypes,
+            customJSDocTags,
+            enumStyle,
+            sourceFile,
+            dependencies,
+            getDependencyName,
+            skipParseJSDoc,
+          }),
+          buildZodPrimitive({
+            z,
+            typeNode: valueType,
+            isOptional: false,
+            jsDocTags: getElementJSDocTags(jsDocTags),
+            customJSDocFormatTypes,
+            customJSDocTags,
+            enumStyle,
+            sourceFile,
+            dependencies,
+            getDependencyName,
+            skipParseJSDoc,
+          }),
+        ],
+        [
+          ...jsDocTagToZodSizeProperties(jsDocTags, "map"),
+          ...(identifierName === "ReadonlyMap"
+            ? [{ identifier: "readonly" }]
+            : []),
+          ...zodProperties,
+        ]
       );
     }
 
@@ -764,6 +889,8 @@ function buildZodPrimitiveInternal({
             isOptional: false,
             jsDocTags,
             customJSDocFormatTypes,
+            customJSDocTags,
+            enumStyle,
             sourceFile,
             dependencies,
             getDependencyName,
@@ -774,6 +901,156 @@ function buildZodPrimitiveInternal({
       );
     }
 
+    // Deal with `Exclude<>`, `Extract<>` & `NonNullable<>` syntax
+    if (
+      ["Exclude", "Extract", "NonNullable"].includes(identifierName) &&
+      typeNode.typeArguments
+    ) {
+      const [type, filter] = typeNode.typeArguments;
+      const filterMembers = filter
+        ? resolveUnionMembers(filter, sourceFile)
+        : [];
+      const isFiltered = (member: ts.TypeNode) =>
+        identifierName === "NonNullable"
+          ? isNullOrUndefined(member)
+          : filterMembers.some((filterMember) =>
+              isMatchingType(member, filterMember, sourceFile)
+            );
+
+      const members = resolveUnionMembers(type, sourceFile).filter((member) =>
+        identifierName === "Extract" ? isFiltered(member) : !isFiltered(member)
+      );
+
+      if (members.length === 0) {
+        return buildZodSchema(z, "never", [], zodProperties);
+      }
+
+      return buildZodPrimitive({
+        z,
+        typeNode:
+          members.length === 1 ? members[0] : f.createUnionTypeNode(members),
+        isOptional,
+        isNullable,
+        jsDocTags,
+        customJSDocFormatTypes,
+        customJSDocTags,
+        enumStyle,
+        sourceFile,
+        dependencies,
+        getDependencyName,
+        skipParseJSDoc,
+      });
+    }
+
+    // Deal with `Awaited<>` syntax
+    if (identifierName === "Awaited" && typeNode.typeArguments) {
+      return buildZodPrimitive({
+        z,
+        typeNode: resolveAwaitedType(typeNode.typeArguments[0], sourceFile),
+        isOptional,
+        isNullable,
+        jsDocTags,
+        customJSDocFormatTypes,
+        customJSDocTags,
+        enumStyle,
+        sourceFile,
+        dependencies,
+        getDependencyName,
+        skipParseJSDoc,
+      });
+    }
+
+    // Deal with `ReturnType<>` & `Parameters<>` syntax
+    if (
+      ["ReturnType", "Parameters"].includes(identifierName) &&
+      typeNode.typeArguments
+    ) {
+      const functionType = resolveFunctionType(
+        typeNode.typeArguments[0],
+        sourceFile
+      );
+
+      if (identifierName === "ReturnType" && functionType?.type) {
+        return buildZodPrimitive({
+          z,
+          typeNode: functionType.type,
+          isOptional,
+          isNullable,
+          jsDocTags,
+          customJSDocFormatTypes,
+          customJSDocTags,
+          enumStyle,
+          sourceFile,
+          dependencies,
+          getDependencyName,
+          skipParseJSDoc,
+        });
+      }
+
+      if (identifierName === "Parameters" && functionType) {
+        const parameters = functionType.parameters.filter(
+          (p) => !p.dotDotDotToken
+        );
+        const restParameter = functionType.parameters.find(
+          (p) => p.dotDotDotToken
+        );
+        const buildParameter = (
+          p: ts.ParameterDeclaration,
+          typeNode = p.type
+        ) =>
+          buildZodPrimitive({
+            z,
+            typeNode:
+              typeNode || f.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword),
+            isOptional: Boolean(p.questionToken),
+            jsDocTags: {},
+            customJSDocFormatTypes,
+            customJSDocTags,
+            enumStyle,
+            sourceFile,
+            dependencies,
+            getDependencyName,
+            skipParseJSDoc,
+          });
+
+        return buildZodSchema(
+          z,
+          "tuple",
+          [
+            f.createArrayLiteralExpression(
+              parameters.map((p) => buildParameter(p))
+            ),
+          ],
+          [
+            ...(restParameter
+              ? [
+                  {
+                    identifier: "rest",
+                    expressions: [
+                      buildParameter(
+                        restParameter,
+                        restParameter.type &&
+                          ts.isArrayTypeNode(restParameter.type)
+                          ? restParameter.type.elementType
+                          : undefined
+                      ),
+                    ],
+                  },
+                ]
+              : []),
+            ...zodProperties,
+          ]
+        );
+      }
+
+      console.warn(
+        ` »   Warning: '${typeNode.getText(
+          sourceFile
+        )}' can't be resolved (local function type with an explicit return type expected), fallback into 'z.any()'`
+      );
+      return buildZodSchema(z, "any", [], zodProperties);
+    }
+
     // Deal with `Omit<>` & `Pick<>` syntax
     if (["Omit", "Pick"].includes(identifierName) && typeNode.typeArguments) {
       const [originalType, keys] = typeNode.typeArguments;
@@ -787,6 +1064,8 @@ function buildZodPrimitiveInternal({
         getDependencyName,
         skipParseJSDoc,
         customJSDocFormatTypes,
+        customJSDocTags,
+        enumStyle,
       });
 
       return buildOmitPickObject(identifierName, keys, sourceFile, zodCall);
@@ -794,8 +1073,34 @@ function buildZodPrimitiveInternal({
 
     const dependencyName = getDependencyName(identifierName);
     dependencies.push(dependencyName);
-    const zodSchema: ts.Identifier | ts.CallExpression =
-      f.createIdentifier(dependencyName);
+
+    // Deal with generic references (`Paginated<User>` -> `paginatedSchema(userSchema)`)
+    const typeArguments = getTypeArguments(
+      identifierName,
+      typeNode.typeArguments,
+      sourceFile
+    );
+    const zodSchema: ts.Identifier | ts.CallExpression = typeArguments
+      ? f.createCallExpression(
+          f.createIdentifier(dependencyName),
+          undefined,
+          typeArguments.map((i) =>
+            buildZodPrimitive({
+              z,
+              typeNode: i,
+              isOptional: false,
+              jsDocTags: {},
+              customJSDocFormatTypes,
+              customJSDocTags,
+              enumStyle,
+              sourceFile,
+              dependencies,
+              getDependencyName,
+              skipParseJSDoc,
+            })
+          )
+        )
+      : f.createIdentifier(dependencyName);
     return withZodProperties(zodSchema, zodProperties);
   }
 
@@ -820,6 +1125,8 @@ function buildZodPrimitiveInternal({
         isNullable: hasNull,
         jsDocTags,
         customJSDocFormatTypes,
+        customJSDocTags,
+        enumStyle,
         sourceFile,
         dependencies,
         getDependencyName,
@@ -827,11 +1134,35 @@ function buildZodPrimitiveInternal({
       });
     }
 
-    const values = nodes.map((i) =>
-      buildZodPrimitive({
+    // Handling null value outside of the union type
+    if (hasNull) {
+      zodProperties.push({
+        identifier: "nullable",
+      });
+    }
+
+    // Deal with string literal unions as `z.enum([…])`
+    if (
+      enumStyle === "enum" &&
+      nodes.every(
+        (node) => ts.isLiteralTypeNode(node) && ts.isStringLiteral(node.literal)
+      )
+    ) {
+      return buildZodLiteralValues(
         z,
-        typeNode: i,
-        isOptional: false,
+        nodes.map((node) =>
+          extractLiteralValue((node as ts.LiteralTypeNode).literal)
+        ),
+        enumStyle,
+        zodProperties
+      );
+    }
+
+    const values = nodes.map((i) =>
+      buildZodPrimitive({
+        z,
+        typeNode: i,
+        isOptional: false,
         isNullable: false,
         jsDocTags: {},
         sourceFile,
@@ -839,16 +1170,11 @@ function buildZodPrimitiveInternal({
         getDependencyName,
         skipParseJSDoc,
         customJSDocFormatTypes,
+        customJSDocTags,
+        enumStyle,
       })
     );
 
-    // Handling null value outside of the union type
-    if (hasNull) {
-      zodProperties.push({
-        identifier: "nullable",
-      });
-    }
-
     if (jsDocTags.discriminator) {
       let isValidDiscriminatedUnion = true;
 
@@ -930,10 +1256,12 @@ function buildZodPrimitiveInternal({
             getDependencyName,
             skipParseJSDoc,
             customJSDocFormatTypes,
+            customJSDocTags,
+            enumStyle,
           })
         );
 
-      zodProperties.unshift({
+      const restProperty: ZodProperty = {
         identifier: "rest",
         expressions: [
           buildZodPrimitive({
@@ -946,15 +1274,23 @@ function buildZodPrimitiveInternal({
             getDependencyName,
             skipParseJSDoc,
             customJSDocFormatTypes,
+            customJSDocTags,
+            enumStyle,
           }),
         ],
-      });
+      };
 
       return buildZodSchema(
         z,
         "tuple",
         [f.createArrayLiteralExpression(values)],
-        zodProperties
+        [
+          restProperty,
+          ...withItemsProperties(
+            jsDocTagToZodItemsProperties(jsDocTags, "tuple"),
+            zodProperties
+          ),
+        ]
       );
     }
 
@@ -969,13 +1305,18 @@ function buildZodPrimitiveInternal({
         getDependencyName,
         skipParseJSDoc,
         customJSDocFormatTypes,
+        customJSDocTags,
+        enumStyle,
       })
     );
     return buildZodSchema(
       z,
       "tuple",
       [f.createArrayLiteralExpression(values)],
-      zodProperties
+      withItemsProperties(
+        jsDocTagToZodItemsProperties(jsDocTags, "tuple"),
+        zodProperties
+      )
     );
   }
 
@@ -1029,6 +1370,29 @@ function buildZodPrimitiveInternal({
     ts.isQualifiedName(typeNode.typeName) &&
     ts.isIdentifier(typeNode.typeName.left)
   ) {
+    const { left, right } = typeNode.typeName;
+
+    // Local enums are not imported with a literal `enumStyle`, the value is inlined
+    const enumDeclaration =
+      enumStyle === "nativeEnum"
+        ? undefined
+        : findNode(
+            sourceFile,
+            (n): n is ts.EnumDeclaration =>
+              ts.isEnumDeclaration(n) && n.name.text === left.text
+          );
+    const memberIndex = enumDeclaration?.members.findIndex(
+      ({ name }) => ts.isIdentifier(name) && name.text === right.text
+    );
+    const value =
+      enumDeclaration && memberIndex !== undefined
+        ? getEnumMemberValues(enumDeclaration)?.[memberIndex]
+        : undefined;
+
+    if (value !== undefined) {
+      return buildZodLiteralValues(z, [value], enumStyle, zodProperties);
+    }
+
     return buildZodSchema(
       z,
       "literal",
@@ -1051,23 +1415,20 @@ function buildZodPrimitiveInternal({
           z,
           typeNode: typeNode.elementType,
           isOptional: false,
-          jsDocTags: {
-            description: jsDocTags.elementDescription,
-            minimum: jsDocTags.elementMinimum,
-            maximum: jsDocTags.elementMaximum,
-            minLength: jsDocTags.elementMinLength,
-            maxLength: jsDocTags.elementMaxLength,
-            format: jsDocTags.elementFormat,
-            pattern: jsDocTags.elementPattern,
-          },
+          jsDocTags: getElementJSDocTags(jsDocTags),
           sourceFile,
           dependencies,
           getDependencyName,
           skipParseJSDoc,
           customJSDocFormatTypes,
+          customJSDocTags,
+          enumStyle,
         }),
       ],
-      zodProperties
+      withItemsProperties(
+        jsDocTagToZodItemsProperties(jsDocTags, "array"),
+        zodProperties
+      )
     );
   }
 
@@ -1081,6 +1442,8 @@ function buildZodPrimitiveInternal({
         getDependencyName,
         skipParseJSDoc,
         customJSDocFormatTypes,
+        customJSDocTags,
+        enumStyle,
       }),
       zodProperties
     );
@@ -1098,6 +1461,8 @@ function buildZodPrimitiveInternal({
       getDependencyName,
       skipParseJSDoc,
       customJSDocFormatTypes,
+      customJSDocTags,
+      enumStyle,
     });
 
     const zodCall = rest.reduce(
@@ -1119,6 +1484,8 @@ function buildZodPrimitiveInternal({
               getDependencyName,
               skipParseJSDoc,
               customJSDocFormatTypes,
+              customJSDocTags,
+              enumStyle,
             }),
           ]
         ),
@@ -1152,6 +1519,8 @@ function buildZodPrimitiveInternal({
                 p.type || f.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword),
               jsDocTags,
               customJSDocFormatTypes,
+              customJSDocTags,
+              enumStyle,
               sourceFile,
               dependencies,
               getDependencyName,
@@ -1168,6 +1537,8 @@ function buildZodPrimitiveInternal({
               typeNode: typeNode.type,
               jsDocTags,
               customJSDocFormatTypes,
+              customJSDocTags,
+              enumStyle,
               sourceFile,
               dependencies,
               getDependencyName,
@@ -1181,7 +1552,64 @@ function buildZodPrimitiveInternal({
     );
   }
 
-  if (ts.isIndexedAccessTypeNode(typeNode)) {
+  // Deal with `typeof`, `keyof typeof` & `(typeof X)[number]` of `as const` variables
+  const constValues = resolveConstType(typeNode, sourceFile);
+  if (constValues) {
+    return buildZodConstValues(z, constValues, enumStyle, zodProperties);
+  }
+
+  // Deal with `keyof X`
+  if (
+    ts.isTypeOperatorNode(typeNode) &&
+    typeNode.operator === ts.SyntaxKind.KeyOfKeyword
+  ) {
+    const keys = resolveKeys(typeNode, sourceFile);
+    if (keys) {
+      return buildZodConstValues(z, keys, enumStyle, zodProperties);
+    }
+
+    // `keyof` of an imported type, the keys are taken from its schema
+    if (
+      ts.isTypeReferenceNode(typeNode.type) &&
+      ts.isIdentifier(typeNode.type.typeName)
+    ) {
+      const dependencyName = getDependencyName(typeNode.type.typeName.text);
+      dependencies.push(dependencyName);
+      return withZodProperties(
+        f.createCallExpression(
+          f.createPropertyAccessExpression(
+            f.createIdentifier(dependencyName),
+            f.createIdentifier("keyof")
+          ),
+          undefined,
+          []
+        ),
+        zodProperties
+      );
+    }
+  }
+
+  if (ts.isMappedTypeNode(typeNode)) {
+    const mappedSchema = buildZodMappedType({
+      z,
+      typeNode,
+      customJSDocFormatTypes,
+      customJSDocTags,
+      enumStyle,
+      sourceFile,
+      dependencies,
+      getDependencyName,
+      skipParseJSDoc,
+    });
+    return mappedSchema
+      ? withZodProperties(mappedSchema, zodProperties)
+      : buildZodSchema(z, "any", [], zodProperties);
+  }
+
+  if (
+    ts.isIndexedAccessTypeNode(typeNode) &&
+    !ts.isTypeQueryNode(skipParentheses(typeNode.objectType))
+  ) {
     return withZodProperties(
       buildSchemaReference({
         node: typeNode,
@@ -1195,17 +1623,17 @@ function buildZodPrimitiveInternal({
 
   switch (typeNode.kind) {
     case ts.SyntaxKind.StringKeyword:
-      return buildZodSchema(z, "string", [], zodProperties);
+      return buildZodCoercibleSchema(z, "string", jsDocTags, zodProperties);
     case ts.SyntaxKind.BooleanKeyword:
-      return buildZodSchema(z, "boolean", [], zodProperties);
+      return buildZodCoercibleSchema(z, "boolean", jsDocTags, zodProperties);
     case ts.SyntaxKind.UndefinedKeyword:
       return buildZodSchema(z, "undefined", [], zodProperties);
     case ts.SyntaxKind.NumberKeyword:
-      return buildZodSchema(z, "number", [], zodProperties);
+      return buildZodCoercibleSchema(z, "number", jsDocTags, zodProperties);
     case ts.SyntaxKind.AnyKeyword:
       return buildZodSchema(z, "any", [], zodProperties);
     case ts.SyntaxKind.BigIntKeyword:
-      return buildZodSchema(z, "bigint", [], zodProperties);
+      return buildZodCoercibleSchema(z, "bigint", jsDocTags, zodProperties);
     case ts.SyntaxKind.VoidKeyword:
       return buildZodSchema(z, "void", [], zodProperties);
     case ts.SyntaxKind.NeverKeyword:
@@ -1222,6 +1650,30 @@ function buildZodPrimitiveInternal({
   }
 
   if (ts.isTemplateLiteralTypeNode(typeNode)) {
+    // Primitive placeholders (`${number}px`) are validated with a regex
+    const templateLiteralPattern = getTemplateLiteralPattern(
+      typeNode,
+      sourceFile
+    );
+    if (templateLiteralPattern && !templateLiteralPattern.isFinite) {
+      return buildZodSchema(
+        z,
+        "string",
+        [],
+        [
+          {
+            identifier: "regex",
+            expressions: [
+              f.createRegularExpressionLiteral(
+                `/^${templateLiteralPattern.pattern}$/`
+              ),
+            ],
+          },
+          ...zodProperties,
+        ]
+      );
+    }
+
     let ignoreNode = false;
 
     // Handling null outside of the template literal browsing
@@ -1365,15 +1817,28 @@ function buildZodSchema(
   return withZodProperties(zodCall, properties);
 }
 
+/**
+ * Build a primitive schema, coerced (`z.coerce.number()`) with the `@coerce` JSDoc tag.
+ */
+function buildZodCoercibleSchema(
+  z: string,
+  callName: keyof CoerceTypes,
+  jsDocTags: JSDocTags,
+  properties?: ZodProperty[]
+) {
+  if (jsDocTags.coerce) {
+    return withZodProperties(buildZodCoerceCall(z, callName), properties);
+  }
+  return buildZodSchema(z, callName, [], properties);
+}
+
 function buildZodExtendedSchema(
   schemaList: SchemaExtensionClause[],
   sourceFile: ts.SourceFile,
   args?: ts.Expression[],
   properties?: ZodProperty[]
 ) {
-  let zodCall = f.createIdentifier(
-    schemaList[0].extendedSchemaName
-  ) as ts.Expression;
+  let zodCall = buildExtendedSchemaReference(schemaList[0]);
 
   if (schemaList[0].omitOrPickType && schemaList[0].omitOrPickKeys) {
     const keys = schemaList[0].omitOrPickKeys;
@@ -1400,7 +1865,7 @@ function buildZodExtendedSchema(
               omitOrPickIdentifierName,
               keys,
               sourceFile,
-              f.createIdentifier(schemaList[i].extendedSchemaName)
+              buildExtendedSchemaReference(schemaList[i])
             ),
             f.createIdentifier("shape")
           ),
@@ -1412,7 +1877,7 @@ function buildZodExtendedSchema(
         undefined,
         [
           f.createPropertyAccessExpression(
-            f.createIdentifier(schemaList[i].extendedSchemaName),
+            buildExtendedSchemaReference(schemaList[i]),
             f.createIdentifier("shape")
           ),
         ]
@@ -1432,63 +1897,1344 @@ function buildZodExtendedSchema(
 }
 
 /**
- * Apply zod properties to an expression (as `.optional()`)
+ * Build the reference to an extended schema (calling the factory for generics)
+ */
+function buildExtendedSchemaReference({
+  extendedSchemaName,
+  extendedSchemaArgs,
+}: SchemaExtensionClause): ts.Expression {
+  if (extendedSchemaArgs) {
+    return f.createCallExpression(
+      f.createIdentifier(extendedSchemaName),
+      undefined,
+      extendedSchemaArgs
+    );
+  }
+  return f.createIdentifier(extendedSchemaName);
+}
+
+/**
+ * Build a zod schema factory for generic declarations.
  *
- * @param expression
- * @param properties
+ * ```ts
+ * <T extends z.ZodTypeAny>(t: T) => ${schema}
+ * ```
+ *
+ * @param z zod namespace
+ * @param typeParameterNames Type parameters of the declaration
+ * @param schema Schema using the factory arguments
  */
-function withZodProperties(
-  expression: ts.Expression,
-  properties: ZodProperty[] = []
+function buildZodSchemaFactory(
+  z: string,
+  typeParameterNames: string[],
+  schema: ts.Expression
 ) {
-  return properties.reduce(
-    (expressionWithProperties, property) =>
-      f.createCallExpression(
-        f.createPropertyAccessExpression(
-          expressionWithProperties,
-          f.createIdentifier(property.identifier)
-        ),
+  return f.createArrowFunction(
+    undefined,
+    typeParameterNames.map((name) =>
+      f.createTypeParameterDeclaration(
         undefined,
-        property.expressions ? property.expressions : undefined
-      ),
-    expression
-  ) as ts.CallExpression;
+        name,
+        f.createTypeReferenceNode(`${z}.ZodTypeAny`)
+      )
+    ),
+    typeParameterNames.map((name) =>
+      f.createParameterDeclaration(
+        undefined,
+        undefined,
+        camel(name),
+        undefined,
+        f.createTypeReferenceNode(name)
+      )
+    ),
+    undefined,
+    undefined,
+    schema
+  );
 }
 
 /**
- * Build z.object (with support of index signature)
+ * Build the schema of a list of literal values, depending on the `enumStyle`.
+ *
+ * ```ts
+ * z.enum(["a", "b"]) // "enum" style, only for string values
+ * z.union([z.literal("a"), z.literal(1)])
+ * z.literal("a") // single value
+ * ```
  */
-function buildZodObject({
-  typeNode,
-  z,
-  dependencies,
-  sourceFile,
-  getDependencyName,
-  schemaExtensionClauses,
-  skipParseJSDoc,
-  customJSDocFormatTypes,
-}: {
-  typeNode: ts.TypeLiteralNode | ts.InterfaceDeclaration;
-  z: string;
-  dependencies: string[];
-  sourceFile: ts.SourceFile;
-  getDependencyName: Required<GenerateZodSchemaProps>["getDependencyName"];
-  schemaExtensionClauses?: SchemaExtensionClause[];
-  skipParseJSDoc: boolean;
-  customJSDocFormatTypes: CustomJSDocFormatTypes;
-}) {
-  const { properties, indexSignature } = typeNode.members.reduce<{
-    properties: ts.PropertySignature[];
-    indexSignature?: ts.IndexSignatureDeclaration;
-  }>(
-    (mem, member) => {
-      if (ts.isIndexSignatureDeclaration(member)) {
-        return {
-          ...mem,
-          indexSignature: member,
-        };
+function buildZodLiteralValues(
+  z: string,
+  values: EnumMemberValue[],
+  enumStyle: EnumStyle,
+  properties?: ZodProperty[]
+) {
+  if (
+    enumStyle === "enum" &&
+    values.length > 1 &&
+    values.every((value) => typeof value === "string")
+  ) {
+    return buildZodSchema(
+      z,
+      "enum",
+      [
+        f.createArrayLiteralExpression(
+          values.map((value) => f.createStringLiteral(value as string))
+        ),
+      ],
+      properties
+    );
+  }
+
+  const literals = values.map((value) =>
+    buildZodSchema(z, "literal", [
+      typeof value === "string"
+        ? f.createStringLiteral(value)
+        : value < 0
+        ? f.createPrefixUnaryExpression(
+            ts.SyntaxKind.MinusToken,
+            f.createNumericLiteral(Math.abs(value))
+          )
+        : f.createNumericLiteral(value),
+    ])
+  );
+
+  if (literals.length === 1) {
+    return withZodProperties(literals[0], properties);
+  }
+  return buildZodSchema(
+    z,
+    literals.length ? "union" : "never",
+    literals.length ? [f.createArrayLiteralExpression(literals)] : [],
+    properties
+  );
+}
+
+/**
+ * Resolve the values of a type derived from a `const` variable.
+ *
+ * ```ts
+ * const roles = ["admin", "user"] as const;
+ * type Role = (typeof roles)[number]; // ["admin", "user"]
+ * ```
+ *
+ * @returns Possible values of the type, `undefined` if it can't be resolved
+ */
+export function resolveConstType(
+  typeNode: ts.TypeNode,
+  sourceFile: ts.SourceFile
+): ConstValue[] | undefined {
+  if (ts.isParenthesizedTypeNode(typeNode)) {
+    return resolveConstType(typeNode.type, sourceFile);
+  }
+
+  // typeof X
+  if (ts.isTypeQueryNode(typeNode) && ts.isIdentifier(typeNode.exprName)) {
+    const initializer = findConstInitializer(
+      sourceFile,
+      typeNode.exprName.text
+    );
+    const expression = initializer && unwrapConstAssertion(initializer);
+    const value = expression && getConstValue(expression);
+    return value === undefined ? undefined : [value];
+  }
+
+  // keyof typeof X
+  if (
+    ts.isTypeOperatorNode(typeNode) &&
+    typeNode.operator === ts.SyntaxKind.KeyOfKeyword &&
+    ts.isTypeQueryNode(typeNode.type) &&
+    ts.isIdentifier(typeNode.type.exprName)
+  ) {
+    const initializer = findConstInitializer(
+      sourceFile,
+      typeNode.type.exprName.text
+    );
+    return initializer && getObjectLiteralKeys(initializer);
+  }
+
+  // (typeof X)[number], (typeof X)[keyof typeof X], (typeof X)["key"]
+  if (ts.isIndexedAccessTypeNode(typeNode)) {
+    const [value] = resolveConstType(typeNode.objectType, sourceFile) ?? [];
+    if (typeof value !== "object" || value === null) return;
+
+    if (typeNode.indexType.kind === ts.SyntaxKind.NumberKeyword) {
+      return Array.isArray(value) ? value : undefined;
+    }
+
+    const keys = ts.isLiteralTypeNode(typeNode.indexType)
+      ? [extractLiteralValue(typeNode.indexType.literal)]
+      : resolveConstType(typeNode.indexType, sourceFile);
+    if (!keys?.every((key) => String(key) in value)) return;
+
+    return keys.map(
+      (key) => (value as Record<string, ConstValue>)[String(key)]
+    );
+  }
+}
+
+/**
+ * Resolve the keys of a statically known key set.
+ *
+ * ```ts
+ * "a" | "b" // ["a", "b"]
+ * keyof Superman // keys of a local interface or type literal
+ * Power // values of a local enum or literal union
+ * ```
+ *
+ * @returns Keys, `undefined` if the key set is open
+ */
+export function resolveKeys(
+  typeNode: ts.TypeNode,
+  sourceFile: ts.SourceFile
+): Array<string | number> | undefined {
+  typeNode = skipParentheses(typeNode);
+
+  if (ts.isLiteralTypeNode(typeNode)) {
+    if (ts.isStringLiteral(typeNode.literal)) return [typeNode.literal.text];
+    if (ts.isNumericLiteral(typeNode.literal)) {
+      return [Number(typeNode.literal.text)];
+    }
+    return;
+  }
+
+  if (ts.isUnionTypeNode(typeNode)) {
+    const keys = typeNode.types.map((type) => resolveKeys(type, sourceFile));
+    return keys.every(Boolean)
+      ? uniq(keys.flat() as Array<string | number>)
+      : undefined;
+  }
+
+  // Local type alias or enum
+  if (ts.isTypeReferenceNode(typeNode) && ts.isIdentifier(typeNode.typeName)) {
+    const name = typeNode.typeName.text;
+    const declaration = findNode(
+      sourceFile,
+      (n): n is ts.TypeAliasDeclaration | ts.EnumDeclaration =>
+        (ts.isTypeAliasDeclaration(n) || ts.isEnumDeclaration(n)) &&
+        n.name.text === name
+    );
+    if (!declaration) return;
+    if (ts.isEnumDeclaration(declaration)) {
+      return getEnumMemberValues(declaration);
+    }
+    return declaration.typeParameters
+      ? undefined
+      : resolveKeys(declaration.type, sourceFile);
+  }
+
+  // keyof X
+  if (
+    ts.isTypeOperatorNode(typeNode) &&
+    typeNode.operator === ts.SyntaxKind.KeyOfKeyword
+  ) {
+    return resolveObjectKeys(typeNode.type, sourceFile);
+  }
+
+  const constValues = resolveConstType(typeNode, sourceFile);
+  if (
+    constValues?.every(
+      (value) => typeof value === "string" || typeof value === "number"
+    )
+  ) {
+    return constValues as Array<string | number>;
+  }
+}
+
+/**
+ * Resolve the keys of a local interface or type literal (`keyof X`).
+ *
+ * @returns Keys, `undefined` if the keys can't be statically known
+ */
+function resolveObjectKeys(
+  typeNode: ts.TypeNode,
+  sourceFile: ts.SourceFile
+): Array<string | number> | undefined {
+  return resolveObjectMembers(typeNode, sourceFile)?.map(({ key }) => key);
+}
+
+type ObjectMember = { key: string | number; isOptional: boolean };
+
+/**
+ * Resolve the members of a local interface or type literal, with their `?` modifier.
+ *
+ * @returns Members, `undefined` if the keys can't be statically known
+ */
+export function resolveObjectMembers(
+  typeNode: ts.TypeNode,
+  sourceFile: ts.SourceFile
+): ObjectMember[] | undefined {
+  typeNode = skipParentheses(typeNode);
+
+  const getMembers = (
+    members: ts.NodeArray<ts.TypeElement>
+  ): ObjectMember[] | undefined => {
+    const result = members.map((member) => {
+      if (ts.isIndexSignatureDeclaration(member) || !member.name) return;
+      const isOptional = Boolean(member.questionToken);
+      if (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)) {
+        return { key: member.name.text, isOptional };
       }
-      if (ts.isPropertySignature(member)) {
+      if (ts.isNumericLiteral(member.name)) {
+        return { key: Number(member.name.text), isOptional };
+      }
+    });
+    return result.every(Boolean) ? (result as ObjectMember[]) : undefined;
+  };
+
+  // A member declared more than once (`A & B`, `extends`) is optional only if it is everywhere
+  const mergeMembers = (
+    members: Array<ObjectMember[] | undefined>
+  ): ObjectMember[] | undefined => {
+    if (!members.every(Boolean)) return;
+    const merged = new Map<string | number, boolean>();
+    (members.flat() as ObjectMember[]).forEach(({ key, isOptional }) =>
+      merged.set(key, (merged.get(key) ?? true) && isOptional)
+    );
+    return Array.from(merged, ([key, isOptional]) => ({ key, isOptional }));
+  };
+
+  if (ts.isTypeLiteralNode(typeNode)) {
+    return getMembers(typeNode.members);
+  }
+
+  if (ts.isIntersectionTypeNode(typeNode)) {
+    return mergeMembers(
+      typeNode.types.map((type) => resolveObjectMembers(type, sourceFile))
+    );
+  }
+
+  if (
+    !ts.isTypeReferenceNode(typeNode) ||
+    !ts.isIdentifier(typeNode.typeName) ||
+    typeNode.typeArguments
+  ) {
+    return;
+  }
+
+  const name = typeNode.typeName.text;
+  const declaration = findNode(
+    sourceFile,
+    (n): n is ts.InterfaceDeclaration | ts.TypeAliasDeclaration =>
+      (ts.isInterfaceDeclaration(n) || ts.isTypeAliasDeclaration(n)) &&
+      n.name.text === name &&
+      !n.typeParameters
+  );
+  if (!declaration) return;
+  if (ts.isTypeAliasDeclaration(declaration)) {
+    return resolveObjectMembers(declaration.type, sourceFile);
+  }
+
+  const extendedMembers = (declaration.heritageClauses ?? [])
+    .flatMap((clause) => clause.types)
+    .map((type) =>
+      ts.isIdentifier(type.expression) && !type.typeArguments
+        ? resolveObjectMembers(
+            f.createTypeReferenceNode(type.expression),
+            sourceFile
+          )
+        : undefined
+    );
+
+  return mergeMembers([...extendedMembers, getMembers(declaration.members)]);
+}
+
+/**
+ * Build the schema of a mapped type.
+ *
+ * ```ts
+ * { [K in keyof Superman]?: Superman[K] } // supermanSchema.partial()
+ * { [K in "a" | "b"]: number } // z.object({ a: z.number(), b: z.number() })
+ * { [K in string]: number } // z.record(z.string(), z.number())
+ * ```
+ */
+function buildZodMappedType({
+  z,
+  typeNode,
+  customJSDocFormatTypes,
+  customJSDocTags,
+  enumStyle,
+  sourceFile,
+  dependencies,
+  getDependencyName,
+  skipParseJSDoc,
+}: Omit<BuildZodPrimitiveParams, "typeNode" | "isOptional" | "jsDocTags"> & {
+  typeNode: ts.MappedTypeNode;
+}): ts.Expression | undefined {
+  const keyName = typeNode.typeParameter.name.text;
+  const constraint = typeNode.typeParameter.constraint;
+  const valueType = typeNode.type;
+
+  if (!constraint || !valueType || typeNode.nameType) {
+    console.warn(
+      ` »   Warning: mapped type '${typeNode.getText(
+        sourceFile
+      )}' is not supported, fallback into 'z.any()'`
+    );
+    return;
+  }
+
+  const isOptional =
+    typeNode.questionToken !== undefined &&
+    typeNode.questionToken.kind !== ts.SyntaxKind.MinusToken;
+  const isRequired = typeNode.questionToken?.kind === ts.SyntaxKind.MinusToken;
+  const readonlyProperties: ZodProperty[] =
+    typeNode.readonlyToken !== undefined &&
+    typeNode.readonlyToken.kind !== ts.SyntaxKind.MinusToken
+      ? [{ identifier: "readonly" }]
+      : [];
+
+  // `X[K]` value, returns the name of `X`
+  const getIndexedTypeName = () =>
+    ts.isIndexedAccessTypeNode(valueType) &&
+    ts.isTypeReferenceNode(valueType.objectType) &&
+    ts.isIdentifier(valueType.objectType.typeName) &&
+    ts.isTypeReferenceNode(valueType.indexType) &&
+    ts.isIdentifier(valueType.indexType.typeName) &&
+    valueType.indexType.typeName.text === keyName
+      ? valueType.objectType.typeName.text
+      : undefined;
+  const indexedTypeName = getIndexedTypeName();
+
+  // Homomorphic mapped type: `{ [K in keyof X]: X[K] }`
+  if (
+    indexedTypeName &&
+    ts.isTypeOperatorNode(constraint) &&
+    constraint.operator === ts.SyntaxKind.KeyOfKeyword &&
+    ts.isTypeReferenceNode(constraint.type) &&
+    ts.isIdentifier(constraint.type.typeName) &&
+    constraint.type.typeName.text === indexedTypeName
+  ) {
+    const dependencyName = getDependencyName(indexedTypeName);
+    dependencies.push(dependencyName);
+    return withZodProperties(f.createIdentifier(dependencyName), [
+      ...(isOptional ? [{ identifier: "partial" }] : []),
+      ...(isRequired ? [{ identifier: "required" }] : []),
+      ...readonlyProperties,
+    ]);
+  }
+
+  const isKeyReference = (node: ts.Node): boolean =>
+    (ts.isTypeReferenceNode(node) &&
+      ts.isIdentifier(node.typeName) &&
+      node.typeName.text === keyName) ||
+    Boolean(node.forEachChild(isKeyReference));
+
+  if (!indexedTypeName && isKeyReference(valueType)) {
+    console.warn(
+      ` »   Warning: mapped type value '${valueType.getText(
+        sourceFile
+      )}' is not supported, fallback into 'z.any()'`
+    );
+    return;
+  }
+
+  // `{ [K in keyof X]: V }` keeps the `?` modifiers of `X` members
+  const optionalKeys = new Set(
+    !typeNode.questionToken &&
+    ts.isTypeOperatorNode(constraint) &&
+    constraint.operator === ts.SyntaxKind.KeyOfKeyword
+      ? resolveObjectMembers(constraint.type, sourceFile)
+          ?.filter((member) => member.isOptional)
+          .map(({ key }) => key)
+      : []
+  );
+
+  const buildValue = (key?: string | number) => {
+    const isKeyOptional =
+      isOptional || (key !== undefined && optionalKeys.has(key));
+
+    if (indexedTypeName === undefined) {
+      return buildZodPrimitive({
+        z,
+        typeNode: valueType,
+        isOptional: isKeyOptional,
+        jsDocTags: {},
+        customJSDocFormatTypes,
+        customJSDocTags,
+        enumStyle,
+        sourceFile,
+        dependencies,
+        getDependencyName,
+        skipParseJSDoc,
+      });
+    }
+
+    // `X[K]` => `xSchema.shape.key`
+    const dependencyName = getDependencyName(indexedTypeName);
+    dependencies.push(dependencyName);
+    const shape = f.createPropertyAccessExpression(
+      f.createIdentifier(dependencyName),
+      f.createIdentifier("shape")
+    );
+    return withZodProperties(
+      typeof key === "string" && /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key)
+        ? f.createPropertyAccessExpression(shape, f.createIdentifier(key))
+        : f.createElementAccessExpression(
+            shape,
+            typeof key === "number"
+              ? f.createNumericLiteral(key)
+              : f.createStringLiteral(String(key))
+          ),
+      isKeyOptional ? [{ identifier: "optional" }] : []
+    );
+  };
+
+  const keys = resolveKeys(constraint, sourceFile);
+
+  // Open key set
+  if (!keys) {
+    if (indexedTypeName) {
+      console.warn(
+        ` »   Warning: mapped type '${typeNode.getText(
+          sourceFile
+        )}' is not supported, fallback into 'z.any()'`
+      );
+      return;
+    }
+
+    return buildZodSchema(
+      z,
+      "record",
+      [
+        buildZodPrimitive({
+          z,
+          typeNode: constraint,
+          isOptional: false,
+          jsDocTags: {},
+          customJSDocFormatTypes,
+          customJSDocTags,
+          enumStyle,
+          sourceFile,
+          dependencies,
+          getDependencyName,
+          skipParseJSDoc,
+        }),
+        buildValue(),
+      ],
+      readonlyProperties
+    );
+  }
+
+  return buildZodSchema(
+    z,
+    "object",
+    [
+      f.createObjectLiteralExpression(
+        keys.map((key) =>
+          f.createPropertyAssignment(
+            typeof key === "number"
+              ? f.createNumericLiteral(key)
+              : /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key)
+              ? f.createIdentifier(key)
+              : f.createStringLiteral(key),
+            buildValue(key)
+          )
+        ),
+        true
+      ),
+    ],
+    readonlyProperties
+  );
+}
+
+/**
+ * Resolve the members of a union type, following the local type aliases.
+ *
+ * ```ts
+ * type Shape = Circle | Square;
+ * resolveUnionMembers(Shape | null) // [Circle, Square, null]
+ * ```
+ */
+export function resolveUnionMembers(
+  typeNode: ts.TypeNode,
+  sourceFile: ts.SourceFile
+): ts.TypeNode[] {
+  typeNode = skipParentheses(typeNode);
+
+  if (ts.isUnionTypeNode(typeNode)) {
+    return typeNode.types.flatMap((type) =>
+      resolveUnionMembers(type, sourceFile)
+    );
+  }
+
+  // Local type alias of a union
+  if (
+    ts.isTypeReferenceNode(typeNode) &&
+    ts.isIdentifier(typeNode.typeName) &&
+    !typeNode.typeArguments
+  ) {
+    const name = typeNode.typeName.text;
+    const declaration = findNode(
+      sourceFile,
+      (n): n is ts.TypeAliasDeclaration =>
+        ts.isTypeAliasDeclaration(n) &&
+        n.name.text === name &&
+        !n.typeParameters
+    );
+    const members = declaration
+      ? resolveUnionMembers(declaration.type, sourceFile)
+      : [];
+    return members.length > 1 ? members : [typeNode];
+  }
+
+  // Property of a local interface or type literal (`Superman["power"]`)
+  if (
+    ts.isIndexedAccessTypeNode(typeNode) &&
+    ts.isTypeReferenceNode(typeNode.objectType) &&
+    ts.isIdentifier(typeNode.objectType.typeName) &&
+    ts.isLiteralTypeNode(typeNode.indexType) &&
+    ts.isStringLiteral(typeNode.indexType.literal)
+  ) {
+    const name = typeNode.objectType.typeName.text;
+    const key = typeNode.indexType.literal.text;
+    const declaration = findNode(
+      sourceFile,
+      (n): n is ts.InterfaceDeclaration | ts.TypeAliasDeclaration =>
+        (ts.isInterfaceDeclaration(n) || ts.isTypeAliasDeclaration(n)) &&
+        n.name.text === name
+    );
+    const members =
+      declaration && ts.isTypeAliasDeclaration(declaration)
+        ? ts.isTypeLiteralNode(declaration.type)
+          ? declaration.type.members
+          : undefined
+        : declaration?.members;
+    const member = members?.find(
+      (m): m is ts.PropertySignature =>
+        ts.isPropertySignature(m) &&
+        (ts.isIdentifier(m.name) || ts.isStringLiteral(m.name)) &&
+        m.name.text === key
+    );
+
+    if (member?.type) {
+      return [
+        ...resolveUnionMembers(member.type, sourceFile),
+        ...(member.questionToken
+          ? [f.createKeywordTypeNode(ts.SyntaxKind.UndefinedKeyword)]
+          : []),
+      ];
+    }
+  }
+
+  return [typeNode];
+}
+
+export function isNullOrUndefined(typeNode: ts.TypeNode) {
+  return (
+    typeNode.kind === ts.SyntaxKind.UndefinedKeyword ||
+    (ts.isLiteralTypeNode(typeNode) &&
+      typeNode.literal.kind === ts.SyntaxKind.NullKeyword)
+  );
+}
+
+/**
+ * Check if a union member is matching a member of `Exclude<>`/`Extract<>`.
+ *
+ * Types are compared by value for literals and keywords, by name otherwise.
+ */
+export function isMatchingType(
+  typeNode: ts.TypeNode,
+  filter: ts.TypeNode,
+  sourceFile: ts.SourceFile
+): boolean {
+  if (ts.isLiteralTypeNode(typeNode)) {
+    const { literal } = typeNode;
+    if (ts.isLiteralTypeNode(filter)) {
+      return (
+        literal.kind === filter.literal.kind &&
+        extractLiteralValue(literal) === extractLiteralValue(filter.literal)
+      );
+    }
+    return (
+      (filter.kind === ts.SyntaxKind.StringKeyword &&
+        ts.isStringLiteral(literal)) ||
+      (filter.kind === ts.SyntaxKind.NumberKeyword &&
+        (ts.isNumericLiteral(literal) ||
+          ts.isPrefixUnaryExpression(literal))) ||
+      (filter.kind === ts.SyntaxKind.BooleanKeyword &&
+        (literal.kind === ts.SyntaxKind.TrueKeyword ||
+          literal.kind === ts.SyntaxKind.FalseKeyword))
+    );
+  }
+
+  if (ts.isLiteralTypeNode(filter) || typeNode.kind !== filter.kind) {
+    return false;
+  }
+  if (ts.isTypeReferenceNode(typeNode) || ts.isTypeLiteralNode(typeNode)) {
+    return typeNode.getText(sourceFile) === filter.getText(sourceFile);
+  }
+  // Keywords
+  return true;
+}
+
+/**
+ * Resolve the type of `Awaited<>`, unwrapping the promises behind the local
+ * type aliases and `ReturnType<>`.
+ *
+ * ```ts
+ * type Fn = () => Promise<Superman>;
+ * resolveAwaitedType(ReturnType<Fn>) // Superman
+ * ```
+ *
+ * @returns The awaited type, `typeNode` if it's not a promise
+ */
+export function resolveAwaitedType(
+  typeNode: ts.TypeNode,
+  sourceFile: ts.SourceFile
+): ts.TypeNode {
+  typeNode = skipParentheses(typeNode);
+
+  if (ts.isUnionTypeNode(typeNode)) {
+    const { types } = typeNode;
+    const awaitedTypes = types.map((type) =>
+      resolveAwaitedType(type, sourceFile)
+    );
+    return awaitedTypes.every((type, index) => type === types[index])
+      ? typeNode
+      : f.createUnionTypeNode(awaitedTypes);
+  }
+
+  if (
+    !ts.isTypeReferenceNode(typeNode) ||
+    !ts.isIdentifier(typeNode.typeName)
+  ) {
+    return typeNode;
+  }
+
+  const name = typeNode.typeName.text;
+  const [typeArgument] = typeNode.typeArguments ?? [];
+
+  if (["Promise", "PromiseLike", "Awaited"].includes(name) && typeArgument) {
+    return resolveAwaitedType(typeArgument, sourceFile);
+  }
+
+  if (name === "ReturnType" && typeArgument) {
+    const returnType = resolveFunctionType(typeArgument, sourceFile)?.type;
+    return returnType ? resolveAwaitedType(returnType, sourceFile) : typeNode;
+  }
+
+  if (typeArgument) return typeNode;
+
+  // Local type alias, the reference is kept if it's not a promise
+  const declaration = findNode(
+    sourceFile,
+    (n): n is ts.TypeAliasDeclaration =>
+      ts.isTypeAliasDeclaration(n) && n.name.text === name && !n.typeParameters
+  );
+  if (!declaration) return typeNode;
+
+  const awaitedType = resolveAwaitedType(declaration.type, sourceFile);
+  return awaitedType === skipParentheses(declaration.type)
+    ? typeNode
+    : awaitedType;
+}
+
+/**
+ * Resolve a local function type, from a type alias or `typeof` a function.
+ *
+ * @returns Parameters & return type of the function, `undefined` if not found
+ */
+function resolveFunctionType(
+  typeNode: ts.TypeNode,
+  sourceFile: ts.SourceFile
+): ts.SignatureDeclarationBase | undefined {
+  typeNode = skipParentheses(typeNode);
+
+  if (ts.isFunctionTypeNode(typeNode)) {
+    return typeNode;
+  }
+
+  // type Fn = (…) => …
+  if (
+    ts.isTypeReferenceNode(typeNode) &&
+    ts.isIdentifier(typeNode.typeName) &&
+    !typeNode.typeArguments
+  ) {
+    const name = typeNode.typeName.text;
+    const declaration = findNode(
+      sourceFile,
+      (n): n is ts.TypeAliasDeclaration =>
+        ts.isTypeAliasDeclaration(n) &&
+        n.name.text === name &&
+        !n.typeParameters
+    );
+    return declaration && resolveFunctionType(declaration.type, sourceFile);
+  }
+
+  // typeof fn
+  if (ts.isTypeQueryNode(typeNode) && ts.isIdentifier(typeNode.exprName)) {
+    const name = typeNode.exprName.text;
+    const declaration = findNode(
+      sourceFile,
+      (n): n is ts.FunctionDeclaration | ts.VariableStatement =>
+        (ts.isFunctionDeclaration(n) && n.name?.text === name) ||
+        (ts.isVariableStatement(n) &&
+          n.declarationList.declarations.some(
+            (d) => ts.isIdentifier(d.name) && d.name.text === name
+          ))
+    );
+
+    if (!declaration || ts.isFunctionDeclaration(declaration)) {
+      return declaration;
+    }
+
+    const variable = declaration.declarationList.declarations.find(
+      (d) => ts.isIdentifier(d.name) && d.name.text === name
+    );
+    if (variable?.type) {
+      return resolveFunctionType(variable.type, sourceFile);
+    }
+    if (
+      variable?.initializer &&
+      (ts.isArrowFunction(variable.initializer) ||
+        ts.isFunctionExpression(variable.initializer))
+    ) {
+      return variable.initializer;
+    }
+  }
+}
+
+function skipParentheses(typeNode: ts.TypeNode): ts.TypeNode {
+  return ts.isParenthesizedTypeNode(typeNode)
+    ? skipParentheses(typeNode.type)
+    : typeNode;
+}
+
+/**
+ * Build the schema of the values of a `const` variable.
+ *
+ * Literal values are generated as `z.enum()`, unless `enumStyle` is `literalUnion`.
+ */
+function buildZodConstValues(
+  z: string,
+  values: ConstValue[],
+  enumStyle: EnumStyle,
+  properties?: ZodProperty[]
+) {
+  const uniqueValues = uniq(values);
+
+  if (
+    uniqueValues.every(
+      (value) => typeof value === "string" || typeof value === "number"
+    )
+  ) {
+    return buildZodLiteralValues(
+      z,
+      uniqueValues as EnumMemberValue[],
+      enumStyle === "literalUnion" ? "literalUnion" : "enum",
+      properties
+    );
+  }
+
+  if (uniqueValues.length === 1) {
+    return withZodProperties(
+      buildZodConstValue(z, uniqueValues[0]),
+      properties
+    );
+  }
+
+  return buildZodSchema(
+    z,
+    "union",
+    [
+      f.createArrayLiteralExpression(
+        uniqueValues.map((value) => buildZodConstValue(z, value))
+      ),
+    ],
+    properties
+  );
+}
+
+/**
+ * Build the schema of an `as const` value (literals, readonly tuples & objects).
+ */
+function buildZodConstValue(z: string, value: ConstValue): ts.Expression {
+  if (value === null) {
+    return buildZodSchema(z, "null");
+  }
+  if (Array.isArray(value)) {
+    return buildZodSchema(
+      z,
+      "tuple",
+      [
+        f.createArrayLiteralExpression(
+          value.map((item) => buildZodConstValue(z, item))
+        ),
+      ],
+      [{ identifier: "readonly" }]
+    );
+  }
+  if (typeof value === "object") {
+    return buildZodSchema(z, "object", [
+      f.createObjectLiteralExpression(
+        Object.entries(value).map(([key, item]) =>
+          f.createPropertyAssignment(
+            /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key)
+              ? f.createIdentifier(key)
+              : f.createStringLiteral(key),
+            buildZodConstValue(z, item)
+          )
+        ),
+        true
+      ),
+    ]);
+  }
+  return buildZodSchema(z, "literal", [
+    typeof value === "string"
+      ? f.createStringLiteral(value)
+      : typeof value === "boolean"
+      ? value
+        ? f.createTrue()
+        : f.createFalse()
+      : value < 0
+      ? f.createPrefixUnaryExpression(
+          ts.SyntaxKind.MinusToken,
+          f.createNumericLiteral(Math.abs(value))
+        )
+      : f.createNumericLiteral(value),
+  ]);
+}
+
+interface BuildZodSchemaFromTypeParams {
+  z: string;
+  type: ts.Type;
+  typeChecker: ts.TypeChecker;
+  sourceFile: ts.SourceFile;
+  dependencies: string[];
+  getDependencyName: (identifierName: string) => string;
+  enumStyle: EnumStyle;
+  visitedTypes?: Set<ts.Type>;
+
+  /**
+   * Parent of the evaluated type node, the type checker can give its alias to
+   * the resolved type (`type A = Dist<B>` resolved as `A`)
+   */
+  parentNode?: ts.Node;
+}
+
+/**
+ * Check if a type reference targets a local generic type alias of a conditional type.
+ *
+ * ```ts
+ * type IsString<T> = T extends string ? "yes" : "no";
+ * type Answer = IsString<"hello">; // true
+ * ```
+ */
+function isConditionalTypeReference(
+  typeNode: ts.TypeReferenceNode,
+  sourceFile: ts.SourceFile
+) {
+  if (!typeNode.typeArguments || !ts.isIdentifier(typeNode.typeName)) {
+    return false;
+  }
+  const { text } = typeNode.typeName;
+  const declaration = findNode(
+    sourceFile,
+    (n): n is ts.TypeAliasDeclaration =>
+      ts.isTypeAliasDeclaration(n) && n.name.text === text
+  );
+  return Boolean(
+    declaration?.typeParameters &&
+      ts.isConditionalTypeNode(skipParentheses(declaration.type))
+  );
+}
+
+/**
+ * Get the type arguments of a generic reference.
+ *
+ * The missing type arguments of a local generic use the defaults of its
+ * type parameters (`Paginated` -> `Paginated<User>`,
+ * `ApiResponse<User>` -> `ApiResponse<User, string>`).
+ *
+ * @returns `undefined` if the reference is not generic
+ */
+function getTypeArguments(
+  typeName: string,
+  typeArguments: ts.NodeArray<ts.TypeNode> | undefined,
+  sourceFile: ts.SourceFile
+): readonly ts.TypeNode[] | undefined {
+  const declaration = findNode(
+    sourceFile,
+    (
+      n
+    ): n is
+      | ts.InterfaceDeclaration
+      | ts.TypeAliasDeclaration
+      | ts.ClassDeclaration =>
+      (ts.isInterfaceDeclaration(n) ||
+        ts.isTypeAliasDeclaration(n) ||
+        ts.isClassDeclaration(n)) &&
+      n.name?.text === typeName &&
+      Boolean(n.typeParameters)
+  );
+  if (!declaration?.typeParameters) return typeArguments;
+  if (
+    typeArguments &&
+    typeArguments.length >= declaration.typeParameters.length
+  ) {
+    return typeArguments;
+  }
+
+  const typeParameterNames = declaration.typeParameters.map(
+    (param) => param.name.text
+  );
+  const defaults = declaration.typeParameters
+    .slice(typeArguments?.length ?? 0)
+    .map((param) => param.default);
+  const hasTypeParameterReference = (node: ts.Node): boolean =>
+    (ts.isTypeReferenceNode(node) &&
+      typeParameterNames.includes(node.typeName.getText(sourceFile))) ||
+    Boolean(ts.forEachChild(node, hasTypeParameterReference));
+  const isResolvable = (defaultType?: ts.TypeNode) =>
+    defaultType && !hasTypeParameterReference(defaultType);
+
+  if (!defaults.every(isResolvable)) {
+    throw new Error(
+      typeArguments
+        ? `The generic '${typeName}' is referenced with missing type arguments, only the defaults without type parameters are supported`
+        : `The generic '${typeName}' is referenced without type arguments, only the defaults without type parameters are supported`
+    );
+  }
+  return [...(typeArguments ?? []), ...(defaults as ts.TypeNode[])];
+}
+
+/**
+ * Build a zod schema from a type resolved by the type checker.
+ *
+ * This is used for types that can't be generated from their syntax
+ * (conditional types), local declarations are still referenced by their schema.
+ */
+function buildZodSchemaFromType(
+  params: BuildZodSchemaFromTypeParams
+): ts.CallExpression | ts.Identifier | ts.PropertyAccessExpression {
+  const {
+    z,
+    type,
+    typeChecker,
+    sourceFile,
+    dependencies,
+    getDependencyName,
+    enumStyle,
+    visitedTypes = new Set(),
+    parentNode,
+  } = params;
+  const fromType = (type: ts.Type) =>
+    buildZodSchemaFromType({ ...params, type, visitedTypes });
+  const fallback = (reason: string) => {
+    console.warn(
+      ` »   Warning: '${typeChecker.typeToString(
+        type
+      )}' ${reason}, fallback into 'z.any()'`
+    );
+    return buildZodSchema(z, "any");
+  };
+
+  if (type.flags & ts.TypeFlags.Conditional) {
+    return fallback("can't be evaluated (generic conditional type)");
+  }
+
+  // Type narrowed in the branch of a conditional type (`User` in `User extends X ? User[] : null`)
+  if (type.flags & ts.TypeFlags.Substitution) {
+    return fromType((type as ts.SubstitutionType).baseType);
+  }
+
+  // The declaration being generated is built from the resolved type
+  const aliasSymbol =
+    parentNode && type.aliasSymbol?.declarations?.[0] === parentNode
+      ? undefined
+      : type.aliasSymbol;
+
+  // Reference to a local declaration
+  const symbol = aliasSymbol ?? type.getSymbol();
+  const declaration = symbol?.declarations?.[0];
+  if (
+    declaration &&
+    declaration.parent === sourceFile &&
+    (ts.isInterfaceDeclaration(declaration) ||
+      ts.isTypeAliasDeclaration(declaration) ||
+      ts.isEnumDeclaration(declaration))
+  ) {
+    const dependencyName = getDependencyName(declaration.name.text);
+    const typeArguments = aliasSymbol
+      ? type.aliasTypeArguments
+      : getObjectFlags(type) & ts.ObjectFlags.Reference
+      ? typeChecker.getTypeArguments(type as ts.TypeReference)
+      : undefined;
+    dependencies.push(dependencyName);
+
+    return typeArguments?.length
+      ? f.createCallExpression(
+          f.createIdentifier(dependencyName),
+          undefined,
+          typeArguments.map(fromType)
+        )
+      : f.createIdentifier(dependencyName);
+  }
+
+  if (type.flags & ts.TypeFlags.EnumLiteral && type.isLiteral()) {
+    if (
+      enumStyle === "nativeEnum" &&
+      symbol &&
+      declaration &&
+      ts.isEnumMember(declaration) &&
+      declaration.parent.parent === sourceFile
+    ) {
+      return buildZodSchema(z, "literal", [
+        f.createPropertyAccessExpression(
+          declaration.parent.name,
+          f.createIdentifier(symbol.name)
+        ),
+      ]);
+    }
+    return buildZodLiteralValues(z, [type.value as EnumMemberValue], enumStyle);
+  }
+
+  if (type.isStringLiteral() || type.isNumberLiteral()) {
+    return buildZodLiteralValues(z, [type.value], enumStyle);
+  }
+
+  if (type.flags & ts.TypeFlags.BooleanLiteral) {
+    return buildZodSchema(z, "literal", [
+      typeChecker.typeToString(type) === "true"
+        ? f.createTrue()
+        : f.createFalse(),
+    ]);
+  }
+
+  if (type.flags & ts.TypeFlags.Any) return buildZodSchema(z, "any");
+  if (type.flags & ts.TypeFlags.Unknown) return buildZodSchema(z, "unknown");
+  if (type.flags & ts.TypeFlags.String) return buildZodSchema(z, "string");
+  if (type.flags & ts.TypeFlags.Number) return buildZodSchema(z, "number");
+  if (type.flags & ts.TypeFlags.Boolean) return buildZodSchema(z, "boolean");
+  if (type.flags & ts.TypeFlags.BigInt) return buildZodSchema(z, "bigint");
+  if (type.flags & ts.TypeFlags.Undefined)
+    return buildZodSchema(z, "undefined");
+  if (type.flags & ts.TypeFlags.Null) return buildZodSchema(z, "null");
+  if (type.flags & ts.TypeFlags.Void) return buildZodSchema(z, "void");
+  if (type.flags & ts.TypeFlags.Never) return buildZodSchema(z, "never");
+  if (type.flags & ts.TypeFlags.NonPrimitive) {
+    return buildZodSchema(z, "record", [buildZodSchema(z, "any")]);
+  }
+
+  if (type.isUnion()) {
+    const properties: ZodProperty[] = [];
+    let types = type.types;
+
+    // `boolean` is resolved as `true | false`
+    const booleanLiterals = types.filter(
+      (t) => t.flags & ts.TypeFlags.BooleanLiteral
+    );
+    if (booleanLiterals.length === 2) {
+      types = types.filter((t) => !booleanLiterals.includes(t));
+      types.push(typeChecker.getBooleanType());
+    }
+
+    if (types.some((t) => t.flags & ts.TypeFlags.Undefined)) {
+      properties.push({ identifier: "optional" });
+    }
+    if (types.some((t) => t.flags & ts.TypeFlags.Null)) {
+      properties.push({ identifier: "nullable" });
+    }
+    types = types.filter(
+      (t) => !(t.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Null))
+    );
+
+    if (
+      types.length > 1 &&
+      types.every(
+        (t) => t.isStringLiteral() && !(t.flags & ts.TypeFlags.EnumLiteral)
+      )
+    ) {
+      return buildZodLiteralValues(
+        z,
+        types.map((t) => (t as ts.StringLiteralType).value),
+        enumStyle,
+        properties
+      );
+    }
+
+    if (types.length === 1) {
+      return withZodProperties(fromType(types[0]), properties);
+    }
+    return buildZodSchema(
+      z,
+      "union",
+      [f.createArrayLiteralExpression(types.map(fromType))],
+      properties
+    );
+  }
+
+  if (type.isIntersection()) {
+    const [base, ...rest] = type.types.map(fromType);
+    return rest.reduce(
+      (intersection, schema) =>
+        f.createCallExpression(
+          f.createPropertyAccessExpression(
+            intersection,
+            f.createIdentifier("and")
+          ),
+          undefined,
+          [schema]
+        ),
+      base
+    );
+  }
+
+  if (!(type.flags & ts.TypeFlags.Object)) {
+    return fallback("is not supported");
+  }
+
+  if (typeChecker.isArrayType(type)) {
+    const [elementType] = typeChecker.getTypeArguments(
+      type as ts.TypeReference
+    );
+    return buildZodSchema(z, "array", [fromType(elementType)]);
+  }
+
+  if (typeChecker.isTupleType(type)) {
+    const { elementFlags } = (type as ts.TupleTypeReference).target;
+    if (elementFlags.some((flag) => !(flag & ts.ElementFlags.Required))) {
+      return fallback("is not supported (optional or rest tuple elements)");
+    }
+    return buildZodSchema(z, "tuple", [
+      f.createArrayLiteralExpression(
+        typeChecker.getTypeArguments(type as ts.TypeReference).map(fromType)
+      ),
+    ]);
+  }
+
+  // Built-in types
+  if (declaration?.getSourceFile().hasNoDefaultLib) {
+    const typeArguments =
+      getObjectFlags(type) & ts.ObjectFlags.Reference
+        ? typeChecker.getTypeArguments(type as ts.TypeReference).map(fromType)
+        : [];
+
+    switch (symbol?.name) {
+      case "Date":
+        return buildZodSchema(z, "date");
+      case "Promise":
+        return buildZodSchema(z, "promise", typeArguments);
+      case "Set":
+        return buildZodSchema(z, "set", typeArguments);
+      case "Map":
+        return buildZodSchema(z, "map", typeArguments);
+    }
+    return fallback("is not supported");
+  }
+
+  if (type.getCallSignatures().length > 0) {
+    return fallback("is not supported (function type)");
+  }
+
+  if (visitedTypes.has(type)) {
+    return fallback("is not supported (recursive type)");
+  }
+  visitedTypes.add(type);
+
+  const properties = typeChecker.getPropertiesOfType(type).map((property) => {
+    const name = property.getName();
+    return f.createPropertyAssignment(
+      /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name)
+        ? f.createIdentifier(name)
+        : f.createStringLiteral(name),
+      fromType(typeChecker.getTypeOfSymbolAtLocation(property, sourceFile))
+    );
+  });
+  const stringIndexType = type.getStringIndexType();
+
+  visitedTypes.delete(type);
+
+  if (stringIndexType && properties.length === 0) {
+    return buildZodSchema(z, "record", [fromType(stringIndexType)]);
+  }
+
+  const schema = buildZodSchema(z, "object", [
+    f.createObjectLiteralExpression(properties, true),
+  ]);
+  return stringIndexType
+    ? withZodProperties(schema, [
+        { identifier: "catchall", expressions: [fromType(stringIndexType)] },
+      ])
+    : schema;
+}
+
+function getObjectFlags(type: ts.Type) {
+  return type.flags & ts.TypeFlags.Object
+    ? (type as ts.ObjectType).objectFlags
+    : 0;
+}
+
+/**
+ * Apply zod properties to an expression (as `.optional()`)
+ *
+ * @param expression
+ * @param properties
+ */
+function withZodProperties(
+  expression: ts.Expression,
+  properties: ZodProperty[] = []
+) {
+  return properties.reduce(
+    (expressionWithProperties, property) =>
+      f.createCallExpression(
+        f.createPropertyAccessExpression(
+          expressionWithProperties,
+          f.createIdentifier(property.identifier)
+        ),
+        property.typeArguments,
+        property.expressions ? property.expressions : undefined
+      ),
+    expression
+  ) as ts.CallExpression;
+}
+
+/**
+ * Build z.object (with support of index signature)
+ */
+function buildZodObject({
+  typeNode,
+  z,
+  dependencies,
+  sourceFile,
+  getDependencyName,
+  schemaExtensionClauses,
+  skipParseJSDoc,
+  customJSDocFormatTypes,
+  customJSDocTags,
+  enumStyle,
+}: {
+  typeNode: ts.TypeLiteralNode | ts.InterfaceDeclaration | ts.ClassDeclaration;
+  z: string;
+  dependencies: string[];
+  sourceFile: ts.SourceFile;
+  getDependencyName: Required<GenerateZodSchemaProps>["getDependencyName"];
+  schemaExtensionClauses?: SchemaExtensionClause[];
+  skipParseJSDoc: boolean;
+  customJSDocFormatTypes: CustomJSDocFormatTypes;
+  customJSDocTags: CustomJSDocTags;
+  enumStyle: EnumStyle;
+}) {
+  const members: ReadonlyArray<ts.TypeElement | ClassProperty> =
+    ts.isClassDeclaration(typeNode)
+      ? getClassProperties(typeNode)
+      : typeNode.members;
+  const { properties, indexSignature } = members.reduce<{
+    properties: Array<ts.PropertySignature | ClassProperty>;
+    indexSignature?: ts.IndexSignatureDeclaration;
+  }>(
+    (mem, member) => {
+      if (ts.isIndexSignatureDeclaration(member)) {
+        return {
+          ...mem,
+          indexSignature: member,
+        };
+      }
+      if (
+        ts.isPropertySignature(member) ||
+        ts.isPropertyDeclaration(member) ||
+        ts.isParameter(member)
+      ) {
         return {
           ...mem,
           properties: [...mem.properties, member],
@@ -1511,6 +3257,8 @@ function buildZodObject({
           getDependencyName,
           skipParseJSDoc,
           customJSDocFormatTypes,
+          customJSDocTags,
+          enumStyle,
         })
       : new Map();
 
@@ -1558,6 +3306,8 @@ function buildZodObject({
         getDependencyName,
         skipParseJSDoc,
         customJSDocFormatTypes,
+        customJSDocTags,
+        enumStyle,
       }),
     ]);
 
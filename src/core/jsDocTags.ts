@@ -1,7 +1,12 @@
 import { getJsDoc } from "tsutils";
 import ts, { factory as f } from "typescript";
 import type { ZodString } from "zod";
-import { CustomJSDocFormatType, CustomJSDocFormatTypes } from "../config";
+import {
+  CustomJSDocFormatType,
+  CustomJSDocFormatTypes,
+  CustomJSDocTags,
+} from "../config";
+import type { JsonSchema } from "./generateJsonSchema";
 
 /**
  * List of formats that can be translated in zod functions.
@@ -25,7 +30,7 @@ type BuiltInJSDocFormatsType = (typeof builtInJSDocFormatsTypes)[number];
 type JsonPrimitive = string | number | boolean | null;
 type JsonArray = JsonValue[];
 type JsonObject = { [key: string]: JsonValue };
-type JsonValue = JsonPrimitive | JsonArray | JsonObject;
+export type JsonValue = JsonPrimitive | JsonArray | JsonObject;
 
 /**
  * Type guard to filter supported JSDoc format tag values (built-in).
@@ -56,6 +61,42 @@ type TagWithError<T> = {
   errorMessage?: string;
 };
 
+/**
+ * Function exported by a module, referenced as `path#name` in a JSDoc tag.
+ */
+export type HelperFunction = {
+  name: string;
+
+  /**
+   * Module specifier, relative paths are relative to the source file
+   */
+  path: string;
+};
+
+/**
+ * HTTP methods of the OpenAPI operations.
+ */
+const operationMethods = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+] as const;
+
+export type OperationMethod = (typeof operationMethods)[number];
+
+/**
+ * OpenAPI operation of a declaration (`@operation get /villains/{id}`).
+ */
+export type Operation = {
+  method: OperationMethod;
+  path: string;
+};
+
 /**
  * JSDoc special tags that can be converted in zod flags.
  */
@@ -63,9 +104,22 @@ export interface JSDocTagsBase {
   description?: string;
   minimum?: TagWithError<number>;
   maximum?: TagWithError<number>;
+  exclusiveMinimum?: TagWithError<number>;
+  exclusiveMaximum?: TagWithError<number>;
+  multipleOf?: TagWithError<number>;
+  integer?: TagWithError<true>;
+  positive?: TagWithError<true>;
+  nonnegative?: TagWithError<true>;
+  finite?: TagWithError<true>;
   default?: JsonValue;
   minLength?: TagWithError<number>;
   maxLength?: TagWithError<number>;
+  minSize?: TagWithError<number>;
+  maxSize?: TagWithError<number>;
+  minItems?: TagWithError<number>;
+  maxItems?: TagWithError<number>;
+  uniqueItems?: TagWithError<true>;
+  nonempty?: TagWithError<true>;
   format?: TagWithError<BuiltInJSDocFormatsType | CustomJSDocFormatType>;
   /**
    * Due to parsing ambiguities, `@pattern`
@@ -75,6 +129,16 @@ export interface JSDocTagsBase {
   strict?: boolean;
   schema?: string;
   discriminator?: string;
+  deprecated?: boolean;
+  example?: JsonValue;
+  coerce?: boolean;
+  refine?: Array<TagWithError<HelperFunction>>;
+  transform?: HelperFunction[];
+  operation?: Operation[];
+  /**
+   * Unknown tags, resolved with the `customJSDocTags` handlers.
+   */
+  customTags?: Array<{ tagName: string; comment: string }>;
 }
 
 export type ElementJSDocTags = Pick<
@@ -82,6 +146,13 @@ export type ElementJSDocTags = Pick<
   | "description"
   | "minimum"
   | "maximum"
+  | "exclusiveMinimum"
+  | "exclusiveMaximum"
+  | "multipleOf"
+  | "integer"
+  | "positive"
+  | "nonnegative"
+  | "finite"
   | "minLength"
   | "maxLength"
   | "pattern"
@@ -96,22 +167,63 @@ const jsDocTagKeys: Array<keyof JSDocTags> = [
   "description",
   "minimum",
   "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "multipleOf",
   "default",
   "minLength",
   "maxLength",
+  "minSize",
+  "maxSize",
+  "minItems",
+  "maxItems",
   "format",
   "pattern",
   "schema",
   "elementDescription",
   "elementMinimum",
   "elementMaximum",
+  "elementExclusiveMinimum",
+  "elementExclusiveMaximum",
+  "elementMultipleOf",
   "elementMinLength",
   "elementMaxLength",
   "elementPattern",
   "elementFormat",
   "discriminator",
+  "example",
+  "refine",
+  "transform",
+  "operation",
 ];
 
+/**
+ * Constraints without value, the comment is the error message.
+ */
+const flagTagKeys = [
+  "uniqueItems",
+  "nonempty",
+  "integer",
+  "positive",
+  "nonnegative",
+  "finite",
+  "elementInteger",
+  "elementPositive",
+  "elementNonnegative",
+  "elementFinite",
+] as const;
+
+/**
+ * Type guard to filter constraints without value.
+ *
+ * @param tagName
+ */
+function isFlagTagKey(
+  tagName: string
+): tagName is (typeof flagTagKeys)[number] {
+  return flagTagKeys.map(String).includes(tagName);
+}
+
 /**
  * Type guard to filter supported JSDoc tag key.
  *
@@ -144,6 +256,25 @@ function parseJsDocComment(comment: string): {
   };
 }
 
+/**
+ * Parse a `path#name` helper function reference.
+ *
+ * @example
+ * parseHelperFunction("./validators#isSlug");
+ * // {name: "isSlug", path: "./validators"}
+ *
+ * @param value
+ */
+function parseHelperFunction(value: string): HelperFunction | undefined {
+  const separatorIndex = value.lastIndexOf("#");
+  const path = value.slice(0, separatorIndex);
+  const name = value.slice(separatorIndex + 1);
+  if (separatorIndex === -1 || !path || !/^[A-Za-z_$][\w$]*$/.test(name)) {
+    return undefined;
+  }
+  return { name, path };
+}
+
 /**
  * Return parsed JSTags.
  *
@@ -163,23 +294,59 @@ export function getJSDocTags(nodeType: ts.Node, sourceFile: ts.SourceFile) {
         const tagName = tag.tagName.escapedText.toString();
 
         // Handling "unary operator" tag first (no tag.comment part needed)
-        if (tagName === "strict") {
+        if (
+          tagName === "strict" ||
+          tagName === "deprecated" ||
+          tagName === "coerce"
+        ) {
           jsDocTags[tagName] = true;
           return;
         }
+        if (isFlagTagKey(tagName)) {
+          jsDocTags[tagName] = {
+            value: true,
+            errorMessage:
+              typeof tag.comment === "string"
+                ? tag.comment.replace(/(^["']|["']$)/g, "") || undefined
+                : undefined,
+          };
+          return;
+        }
 
-        if (!isJSDocTagKey(tagName) || typeof tag.comment !== "string") return;
+        if (!isJSDocTagKey(tagName)) {
+          jsDocTags.customTags = (jsDocTags.customTags || []).concat({
+            tagName,
+            comment: typeof tag.comment === "string" ? tag.comment : "",
+          });
+          return;
+        }
+
+        if (typeof tag.comment !== "string") return;
         const { value, errorMessage } = parseJsDocComment(tag.comment);
 
         switch (tagName) {
           case "minimum":
           case "maximum":
+          case "exclusiveMinimum":
+          case "exclusiveMaximum":
+          case "multipleOf":
+          case "elementMinimum":
+          case "elementMaximum":
+          case "elementExclusiveMinimum":
+          case "elementExclusiveMaximum":
+          case "elementMultipleOf":
+            if (value && Number.isFinite(Number(value))) {
+              jsDocTags[tagName] = { value: Number(value), errorMessage };
+            }
+            break;
           case "minLength":
           case "maxLength":
+          case "minSize":
+          case "maxSize":
+          case "minItems":
+          case "maxItems":
           case "elementMinLength":
           case "elementMaxLength":
-          case "elementMinimum":
-          case "elementMaximum":
             if (value && !Number.isNaN(parseInt(value))) {
               jsDocTags[tagName] = { value: parseInt(value), errorMessage };
             }
@@ -198,6 +365,7 @@ export function getJSDocTags(nodeType: ts.Node, sourceFile: ts.SourceFile) {
             jsDocTags[tagName] = { value, errorMessage };
             break;
           case "default":
+          case "example":
             if (tag.comment) {
               try {
                 // Attempt to parse as JSON
@@ -212,7 +380,50 @@ export function getJSDocTags(nodeType: ts.Node, sourceFile: ts.SourceFile) {
           case "discriminator":
             jsDocTags[tagName] = tag.comment;
             break;
+          case "refine": {
+            const helper = parseHelperFunction(value);
+            if (helper) {
+              jsDocTags[tagName] = (jsDocTags[tagName] || []).concat({
+                value: helper,
+                errorMessage,
+              });
+            }
+            break;
+          }
+          case "transform": {
+            const helper = parseHelperFunction(value);
+            if (helper) {
+              jsDocTags[tagName] = (jsDocTags[tagName] || []).concat(helper);
+            }
+            break;
+          }
+          case "operation": {
+            const [method, path] = tag.comment.trim().split(/\s+/);
+            if (
+              operationMethods.map(String).includes(method.toLowerCase()) &&
+              path?.startsWith("/")
+            ) {
+              jsDocTags[tagName] = (jsDocTags[tagName] || []).concat({
+                method: method.toLowerCase() as OperationMethod,
+                path,
+              });
+            }
+            break;
+          }
           case "strict":
+          case "deprecated":
+          case "coerce":
+          case "customTags":
+          case "uniqueItems":
+          case "nonempty":
+          case "integer":
+          case "positive":
+          case "nonnegative":
+          case "finite":
+          case "elementInteger":
+          case "elementPositive":
+          case "elementNonnegative":
+          case "elementFinite":
             break;
           default:
             tagName satisfies never;
@@ -224,9 +435,63 @@ export function getJSDocTags(nodeType: ts.Node, sourceFile: ts.SourceFile) {
   return jsDocTags;
 }
 
+/**
+ * List the helper functions referenced by the `@refine` & `@transform` tags.
+ *
+ * @param jsDocTags
+ */
+export function getHelperFunctions(jsDocTags: JSDocTags): HelperFunction[] {
+  return [
+    ...(jsDocTags.refine || []).map(({ value }) => value),
+    ...(jsDocTags.transform || []),
+  ];
+}
+
+/**
+ * Extract the `@element*` JSDoc tags, to apply to the elements of a collection.
+ *
+ * @param jsDocTags
+ */
+export function getElementJSDocTags(jsDocTags: JSDocTags): JSDocTags {
+  return {
+    description: jsDocTags.elementDescription,
+    minimum: jsDocTags.elementMinimum,
+    maximum: jsDocTags.elementMaximum,
+    exclusiveMinimum: jsDocTags.elementExclusiveMinimum,
+    exclusiveMaximum: jsDocTags.elementExclusiveMaximum,
+    multipleOf: jsDocTags.elementMultipleOf,
+    integer: jsDocTags.elementInteger,
+    positive: jsDocTags.elementPositive,
+    nonnegative: jsDocTags.elementNonnegative,
+    finite: jsDocTags.elementFinite,
+    minLength: jsDocTags.elementMinLength,
+    maxLength: jsDocTags.elementMaxLength,
+    format: jsDocTags.elementFormat,
+    pattern: jsDocTags.elementPattern,
+  };
+}
+
+/**
+ * Zod properties wrapping the schema or returning a schema without the
+ * validators of its type (`z.string().refine().min()` is not valid).
+ */
+const effectsAndModifiers = [
+  "refine",
+  "superRefine",
+  "transform",
+  "strict",
+  "partial",
+  "optional",
+  "nullable",
+  "required",
+  "describe",
+  "default",
+];
+
 export type ZodProperty = {
   identifier: string;
   expressions?: ts.Expression[];
+  typeArguments?: ts.TypeNode[];
 };
 
 /**
@@ -234,6 +499,7 @@ export type ZodProperty = {
  *
  * @param jsDocTags
  * @param customJSDocFormats
+ * @param customJSDocTags
  * @param isOptional
  * @param isPartial
  * @param isRequired
@@ -242,40 +508,46 @@ export type ZodProperty = {
 export function jsDocTagToZodProperties(
   jsDocTags: JSDocTags,
   customJSDocFormats: CustomJSDocFormatTypes,
+  customJSDocTags: CustomJSDocTags,
   isOptional: boolean,
   isPartial: boolean,
   isRequired: boolean,
   isNullable: boolean
 ) {
   const zodProperties: ZodProperty[] = [];
-  if (jsDocTags.minimum !== undefined) {
+  const numberTags = [
+    { tag: jsDocTags.minimum, identifier: "min" },
+    { tag: jsDocTags.maximum, identifier: "max" },
+    { tag: jsDocTags.exclusiveMinimum, identifier: "gt" },
+    { tag: jsDocTags.exclusiveMaximum, identifier: "lt" },
+    { tag: jsDocTags.multipleOf, identifier: "multipleOf" },
+  ];
+  numberTags.forEach(({ tag, identifier }) => {
+    if (tag === undefined) return;
     zodProperties.push({
-      identifier: "min",
+      identifier,
       expressions: withErrorMessage(
-        jsDocTags.minimum.value < 0
-          ? f.createPrefixUnaryExpression(
-              ts.SyntaxKind.MinusToken,
-              f.createNumericLiteral(Math.abs(jsDocTags.minimum.value))
-            )
-          : f.createNumericLiteral(jsDocTags.minimum.value),
-        jsDocTags.minimum.errorMessage
+        createNumberExpression(tag.value),
+        tag.errorMessage
       ),
     });
-  }
-  if (jsDocTags.maximum !== undefined) {
+  });
+
+  const numberFlagTags = [
+    { tag: jsDocTags.integer, identifier: "int" },
+    { tag: jsDocTags.positive, identifier: "positive" },
+    { tag: jsDocTags.nonnegative, identifier: "nonnegative" },
+    { tag: jsDocTags.finite, identifier: "finite" },
+  ];
+  numberFlagTags.forEach(({ tag, identifier }) => {
+    if (tag === undefined) return;
     zodProperties.push({
-      identifier: "max",
-      expressions: withErrorMessage(
-        jsDocTags.maximum.value < 0
-          ? f.createPrefixUnaryExpression(
-              ts.SyntaxKind.MinusToken,
-              f.createNumericLiteral(Math.abs(jsDocTags.maximum.value))
-            )
-          : f.createNumericLiteral(jsDocTags.maximum.value),
-        jsDocTags.maximum.errorMessage
-      ),
+      identifier,
+      expressions: tag.errorMessage
+        ? [f.createStringLiteral(tag.errorMessage)]
+        : undefined,
     });
-  }
+  });
   if (jsDocTags.minLength !== undefined) {
     zodProperties.push({
       identifier: "min",
@@ -309,10 +581,22 @@ export function jsDocTagToZodProperties(
   if (jsDocTags.pattern) {
     zodProperties.push(createZodRegexProperty(jsDocTags.pattern));
   }
-  // strict() must be before optional() and nullable()
+  // strict() must be before the effects, optional() and nullable()
   if (jsDocTags.strict) {
     zodProperties.push({ identifier: "strict" });
   }
+  jsDocTags.customTags?.forEach(({ tagName, comment }) => {
+    const handler = customJSDocTags[tagName];
+    if (!handler) return;
+    const { value, errorMessage } = parseJsDocComment(comment);
+    zodProperties.push(
+      ...customTagToZodProperties(
+        handler(value, { tagName, comment, errorMessage })
+      )
+    );
+  });
+  // refine() & transform() return effects, without the string/number/… methods
+  zodProperties.push(...jsDocTagToZodEffectsProperties(jsDocTags));
   // partial() must be before optional() and nullable()
   if (isPartial) {
     zodProperties.push({
@@ -350,14 +634,7 @@ export function jsDocTagToZodProperties(
           : jsDocTags.default === false
           ? [f.createFalse()]
           : typeof jsDocTags.default === "number"
-          ? jsDocTags.default < 0
-            ? [
-                f.createPrefixUnaryExpression(
-                  ts.SyntaxKind.MinusToken,
-                  f.createNumericLiteral(Math.abs(jsDocTags.default))
-                ),
-              ]
-            : [f.createNumericLiteral(jsDocTags.default)]
+          ? [createNumberExpression(jsDocTags.default)]
           : jsDocTags.default === null
           ? [f.createNull()]
           : Array.isArray(jsDocTags.default)
@@ -371,6 +648,448 @@ export function jsDocTagToZodProperties(
   return zodProperties;
 }
 
+/**
+ * Convert `@refine` & `@transform` JSDoc tags to zod properties.
+ *
+ * @param jsDocTags
+ */
+export function jsDocTagToZodEffectsProperties(jsDocTags: JSDocTags) {
+  const effectsProperties: ZodProperty[] = [];
+  jsDocTags.refine?.forEach(({ value, errorMessage }) => {
+    effectsProperties.push({
+      identifier: "refine",
+      expressions: [
+        f.createIdentifier(value.name),
+        ...(errorMessage
+          ? [
+              f.createObjectLiteralExpression([
+                f.createPropertyAssignment(
+                  "message",
+                  f.createStringLiteral(errorMessage)
+                ),
+              ]),
+            ]
+          : []),
+      ],
+    });
+  });
+  jsDocTags.transform?.forEach(({ name }) => {
+    effectsProperties.push({
+      identifier: "transform",
+      expressions: [f.createIdentifier(name)],
+    });
+  });
+  return effectsProperties;
+}
+
+/**
+ * Convert the result of a custom JSDoc tag handler to zod properties.
+ *
+ * @example
+ *  customTagToZodProperties('.min(3).refine(isSlug).brand<"Slug">()')
+ *  // [{ identifier: "min", expressions: [3] }, { identifier: "refine", expressions: [isSlug] },
+ *  //  { identifier: "brand", expressions: [], typeArguments: ["Slug"] }]
+ *
+ * @param result Zod methods source code, or a zod property with source code expressions
+ */
+function customTagToZodProperties(
+  result: ReturnType<CustomJSDocTags[string]>
+): ZodProperty[] {
+  if (typeof result !== "string") {
+    return [
+      {
+        identifier: result.identifier,
+        expressions: result.expressions?.map((expression) =>
+          f.createIdentifier(expression)
+        ),
+      },
+    ];
+  }
+
+  const sourceFile = ts.createSourceFile(
+    "customTag.ts",
+    `schema${result.trim()}`,
+    ts.ScriptTarget.Latest
+  );
+  const [statement] = sourceFile.statements;
+  const zodProperties: ZodProperty[] = [];
+
+  let expression =
+    statement && ts.isExpressionStatement(statement)
+      ? statement.expression
+      : undefined;
+  while (
+    expression &&
+    ts.isCallExpression(expression) &&
+    ts.isPropertyAccessExpression(expression.expression)
+  ) {
+    zodProperties.unshift({
+      identifier: expression.expression.name.text,
+      expressions: expression.arguments.map((arg) =>
+        f.createIdentifier(arg.getText(sourceFile))
+      ),
+      typeArguments: expression.typeArguments?.map((typeArgument) =>
+        f.createTypeReferenceNode(typeArgument.getText(sourceFile))
+      ),
+    });
+    expression = expression.expression.expression;
+  }
+
+  if (
+    !expression ||
+    !ts.isIdentifier(expression) ||
+    expression.text !== "schema" ||
+    sourceFile.statements.length !== 1
+  ) {
+    throw new Error(
+      `Invalid custom JSDoc tag result "${result}", zod methods expected (\`.refine(isSlug)\`)`
+    );
+  }
+
+  return zodProperties;
+}
+
+/**
+ * Merge the properties of the items JSDoc tags with the zod properties of a collection.
+ *
+ * The refinements are applied after the other validators (`ZodEffects` has no
+ * `.min()` method) and before the modifiers (`.optional()`, `.describe()`…).
+ *
+ * @param itemsProperties Properties from `jsDocTagToZodItemsProperties`
+ * @param zodProperties Properties from `jsDocTagToZodProperties`
+ */
+export function withItemsProperties(
+  itemsProperties: ZodProperty[],
+  zodProperties: ZodProperty[]
+) {
+  const validators = itemsProperties.filter(
+    ({ identifier }) => identifier !== "refine"
+  );
+  const refinements = itemsProperties.filter(
+    ({ identifier }) => identifier === "refine"
+  );
+  const index = zodProperties.findIndex(({ identifier }) =>
+    effectsAndModifiers.includes(identifier)
+  );
+  const splitIndex = index === -1 ? zodProperties.length : index;
+
+  return [
+    ...validators,
+    ...zodProperties.slice(0, splitIndex),
+    ...refinements,
+    ...zodProperties.slice(splitIndex),
+  ];
+}
+
+/**
+ * Convert `@minSize` & `@maxSize` JSDoc tags to zod properties.
+ *
+ * `z.set()` has `min()` & `max()`, `z.map()` doesn't, so the size
+ * of a map is checked with `refine()`.
+ *
+ * @param jsDocTags
+ * @param schemaType
+ */
+export function jsDocTagToZodSizeProperties(
+  jsDocTags: JSDocTags,
+  schemaType: "set" | "map"
+) {
+  const zodProperties: ZodProperty[] = [];
+  const sizeTags = [
+    {
+      tag: jsDocTags.minSize,
+      identifier: "min",
+      operator: ts.SyntaxKind.GreaterThanEqualsToken,
+    },
+    {
+      tag: jsDocTags.maxSize,
+      identifier: "max",
+      operator: ts.SyntaxKind.LessThanEqualsToken,
+    },
+  ] as const;
+
+  sizeTags.forEach(({ tag, identifier, operator }) => {
+    if (tag === undefined) return;
+
+    if (schemaType === "set") {
+      zodProperties.push({
+        identifier,
+        expressions: withErrorMessage(
+          f.createNumericLiteral(tag.value),
+          tag.errorMessage
+        ),
+      });
+      return;
+    }
+
+    // (map) => map.size >= value
+    zodProperties.push({
+      identifier: "refine",
+      expressions: withErrorMessage(
+        f.createArrowFunction(
+          undefined,
+          undefined,
+          [f.createParameterDeclaration(undefined, undefined, "map")],
+          undefined,
+          f.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+          f.createBinaryExpression(
+            f.createPropertyAccessExpression(f.createIdentifier("map"), "size"),
+            operator,
+            f.createNumericLiteral(tag.value)
+          )
+        ),
+        tag.errorMessage
+      ),
+    });
+  });
+
+  return zodProperties;
+}
+
+/**
+ * Convert `@minItems`, `@maxItems`, `@nonempty` & `@uniqueItems` JSDoc tags
+ * to zod properties.
+ *
+ * `z.tuple()` has no length validators, so the length of a tuple is checked
+ * with `refine()`. `@nonempty` is generated as `.min(1)`, `.nonempty()` would
+ * infer a `[T, ...T[]]` type, not compatible with the source type.
+ *
+ * @param jsDocTags
+ * @param schemaType
+ */
+export function jsDocTagToZodItemsProperties(
+  jsDocTags: JSDocTags,
+  schemaType: "array" | "tuple" | "set"
+) {
+  const zodProperties: ZodProperty[] = [];
+  const lengthTags = [
+    {
+      tag: jsDocTags.nonempty && {
+        value: 1,
+        errorMessage: jsDocTags.nonempty.errorMessage,
+      },
+      identifier: "min",
+      operator: ts.SyntaxKind.GreaterThanEqualsToken,
+    },
+    {
+      tag: jsDocTags.minItems,
+      identifier: "min",
+      operator: ts.SyntaxKind.GreaterThanEqualsToken,
+    },
+    {
+      tag: jsDocTags.maxItems,
+      identifier: "max",
+      operator: ts.SyntaxKind.LessThanEqualsToken,
+    },
+  ] as const;
+
+  lengthTags.forEach(({ tag, identifier, operator }) => {
+    if (tag === undefined) return;
+
+    if (schemaType !== "tuple") {
+      zodProperties.push({
+        identifier,
+        expressions: withErrorMessage(
+          f.createNumericLiteral(tag.value),
+          tag.errorMessage
+        ),
+      });
+      return;
+    }
+
+    // (items) => items.length >= value
+    zodProperties.push({
+      identifier: "refine",
+      expressions: withErrorMessage(
+        createItemsArrowFunction(
+          f.createBinaryExpression(
+            f.createPropertyAccessExpression(
+              f.createIdentifier("items"),
+              "length"
+            ),
+            operator,
+            f.createNumericLiteral(tag.value)
+          )
+        ),
+        tag.errorMessage
+      ),
+    });
+  });
+
+  // The items of a set are already unique
+  if (jsDocTags.uniqueItems && schemaType !== "set") {
+    // Objects & arrays are compared by their serialization
+    // (items) => new Set(items.map((item) => typeof item === "object" ? JSON.stringify(item) : item)).size === items.length
+    zodProperties.push({
+      identifier: "refine",
+      expressions: withErrorMessage(
+        createItemsArrowFunction(
+          f.createBinaryExpression(
+            f.createPropertyAccessExpression(
+              f.createNewExpression(f.createIdentifier("Set"), undefined, [
+                f.createCallExpression(
+                  f.createPropertyAccessExpression(
+                    f.createIdentifier("items"),
+                    "map"
+                  ),
+                  undefined,
+                  [createSerializedItemArrowFunction()]
+                ),
+              ]),
+              "size"
+            ),
+            ts.SyntaxKind.EqualsEqualsEqualsToken,
+            f.createPropertyAccessExpression(
+              f.createIdentifier("items"),
+              "length"
+            )
+          )
+        ),
+        jsDocTags.uniqueItems.errorMessage
+      ),
+    });
+  }
+
+  return zodProperties;
+}
+
+/**
+ * Apply a set of JSDoc tags to a JSON Schema.
+ *
+ * Like the zod properties, the keywords depend on the type of the schema
+ * (`@minLength` is `minItems` for an array, `minLength` for a string).
+ *
+ * @param jsDocTags
+ * @param customJSDocFormats
+ * @param schema
+ */
+export function jsDocTagsToJsonSchema(
+  jsDocTags: JSDocTags,
+  customJSDocFormats: CustomJSDocFormatTypes,
+  schema: JsonSchema
+): JsonSchema {
+  const result: JsonSchema = { ...schema };
+  const isArray = schema.type === "array";
+  const isNumber = schema.type === "number" || schema.type === "integer";
+
+  const setLimit = (limit: "min" | "max", value: number) => {
+    if (isArray) result[`${limit}Items`] = value;
+    else if (isNumber) result[limit === "min" ? "minimum" : "maximum"] = value;
+    else result[`${limit}Length`] = value;
+  };
+
+  if (jsDocTags.minimum !== undefined) {
+    setLimit("min", jsDocTags.minimum.value);
+  }
+  if (jsDocTags.maximum !== undefined) {
+    setLimit("max", jsDocTags.maximum.value);
+  }
+  if (jsDocTags.exclusiveMinimum !== undefined) {
+    result.exclusiveMinimum = jsDocTags.exclusiveMinimum.value;
+  }
+  if (jsDocTags.exclusiveMaximum !== undefined) {
+    result.exclusiveMaximum = jsDocTags.exclusiveMaximum.value;
+  }
+  if (jsDocTags.multipleOf !== undefined) {
+    result.multipleOf = jsDocTags.multipleOf.value;
+  }
+  if (jsDocTags.integer && schema.type === "number") {
+    result.type = "integer";
+  }
+  // Keep the stricter of the explicit bound and `0`
+  if (jsDocTags.positive) {
+    result.exclusiveMinimum = Math.max(result.exclusiveMinimum ?? 0, 0);
+  }
+  if (jsDocTags.nonnegative) {
+    result.minimum = Math.max(result.minimum ?? 0, 0);
+  }
+  if (jsDocTags.minLength !== undefined) {
+    setLimit("min", jsDocTags.minLength.value);
+  }
+  if (jsDocTags.maxLength !== undefined) {
+    setLimit("max", jsDocTags.maxLength.value);
+  }
+  if (jsDocTags.nonempty) {
+    if (isArray) result.minItems = 1;
+  }
+  if (jsDocTags.minItems !== undefined) {
+    if (isArray) result.minItems = jsDocTags.minItems.value;
+  }
+  if (jsDocTags.maxItems !== undefined) {
+    if (isArray) result.maxItems = jsDocTags.maxItems.value;
+  }
+  if (jsDocTags.uniqueItems) {
+    if (isArray) result.uniqueItems = true;
+  }
+  if (jsDocTags.minSize !== undefined) {
+    if (isArray) result.minItems = jsDocTags.minSize.value;
+    else result.minProperties = jsDocTags.minSize.value;
+  }
+  if (jsDocTags.maxSize !== undefined) {
+    if (isArray) result.maxItems = jsDocTags.maxSize.value;
+    else result.maxProperties = jsDocTags.maxSize.value;
+  }
+  if (jsDocTags.format) {
+    Object.assign(
+      result,
+      formatToJsonSchema(jsDocTags.format.value, customJSDocFormats)
+    );
+  }
+  if (jsDocTags.pattern) {
+    result.pattern = jsDocTags.pattern;
+  }
+  if (jsDocTags.strict && schema.type === "object") {
+    result.additionalProperties = false;
+  }
+  if (jsDocTags.description !== undefined) {
+    result.description = jsDocTags.description;
+  }
+  if (jsDocTags.default !== undefined) {
+    result.default = jsDocTags.default;
+  }
+  if (jsDocTags.deprecated) {
+    result.deprecated = true;
+  }
+  if (jsDocTags.example !== undefined) {
+    result.examples = [jsDocTags.example];
+  }
+  if (isArray && typeof result.items === "object") {
+    result.items = jsDocTagsToJsonSchema(
+      getElementJSDocTags(jsDocTags),
+      customJSDocFormats,
+      result.items
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Converts the given JSDoc format to the corresponding JSON Schema keywords.
+ *
+ * @param format The format to be converted.
+ * @param customFormatTypes
+ */
+function formatToJsonSchema(
+  format: string,
+  customFormatTypes: CustomJSDocFormatTypes
+): JsonSchema {
+  if (isCustomFormatType(format, Object.keys(customFormatTypes))) {
+    const rule = customFormatTypes[format];
+    return { pattern: typeof rule === "string" ? rule : rule.regex };
+  }
+  if (!isBuiltInFormatType(format)) return {};
+
+  switch (format) {
+    case "url":
+      return { format: "uri" };
+    case "ip":
+      return { anyOf: [{ format: "ipv4" }, { format: "ipv6" }] };
+    default:
+      return { format };
+  }
+}
+
 /**
  * Converts the given JSDoc format to the corresponding Zod
  * string validation function call represented by a {@link ZodProperty}.
@@ -489,6 +1208,67 @@ function createZodRegexProperty(
   };
 }
 
+/**
+ * Create an `(items) => {body}` arrow function.
+ *
+ * @param body
+ */
+/**
+ * `(item) => typeof item === "object" ? JSON.stringify(item) : item`
+ */
+function createSerializedItemArrowFunction() {
+  return f.createArrowFunction(
+    undefined,
+    undefined,
+    [f.createParameterDeclaration(undefined, undefined, "item")],
+    undefined,
+    f.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+    f.createConditionalExpression(
+      f.createBinaryExpression(
+        f.createTypeOfExpression(f.createIdentifier("item")),
+        ts.SyntaxKind.EqualsEqualsEqualsToken,
+        f.createStringLiteral("object")
+      ),
+      f.createToken(ts.SyntaxKind.QuestionToken),
+      f.createCallExpression(
+        f.createPropertyAccessExpression(
+          f.createIdentifier("JSON"),
+          "stringify"
+        ),
+        undefined,
+        [f.createIdentifier("item")]
+      ),
+      f.createToken(ts.SyntaxKind.ColonToken),
+      f.createIdentifier("item")
+    )
+  );
+}
+
+function createItemsArrowFunction(body: ts.Expression) {
+  return f.createArrowFunction(
+    undefined,
+    undefined,
+    [f.createParameterDeclaration(undefined, undefined, "items")],
+    undefined,
+    f.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+    body
+  );
+}
+
+/**
+ * Create a number literal, negative numbers are prefixed by `-`.
+ *
+ * @param value
+ */
+function createNumberExpression(value: number): ts.Expression {
+  return value < 0
+    ? f.createPrefixUnaryExpression(
+        ts.SyntaxKind.MinusToken,
+        f.createNumericLiteral(Math.abs(value))
+      )
+    : f.createNumericLiteral(value);
+}
+
 function withErrorMessage(expression: ts.Expression, errorMessage?: string) {
   if (errorMessage) {
     return [expression, f.createStringLiteral(errorMessage)];
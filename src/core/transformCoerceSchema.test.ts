@@ -0,0 +1,59 @@
+import ts from "typescript";
+import { transformCoerceSchema } from "./transformCoerceSchema";
+
+describe("transformCoerceSchema", () => {
+  const transform = (schema: string) => {
+    const sourceFile = ts.createSourceFile(
+      "index.ts",
+      schema,
+      ts.ScriptTarget.Latest
+    );
+    const statement = sourceFile.statements[0] as ts.ExpressionStatement;
+
+    return ts.createPrinter({ newLine: ts.NewLineKind.LineFeed }).printNode(
+      ts.EmitHint.Unspecified,
+      transformCoerceSchema("z", statement.expression, {
+        number: true,
+        date: true,
+        boolean: true,
+      }),
+      sourceFile
+    );
+  };
+
+  it("should coerce the configured primitives", () => {
+    expect(
+      transform(`z.object({
+        page: z.number().int().min(1),
+        from: z.date().optional(),
+        archived: z.boolean(),
+        query: z.string(),
+        tags: z.array(z.number()),
+      })`)
+    ).toMatchInlineSnapshot(`
+      "z.object({
+          page: z.coerce.number().int().min(1),
+          from: z.coerce.date().optional(),
+          archived: z.preprocess(value => value === "true" ? true : value === "false" ? false : value, z.boolean()),
+          query: z.string(),
+          tags: z.array(z.coerce.number()),
+      })"
+    `);
+  });
+
+  it("should not coerce the booleans twice", () => {
+    expect(
+      transform(
+        `z.preprocess((value) => value === "true" ? true : value === "false" ? false : value, z.boolean())`
+      )
+    ).toMatchInlineSnapshot(
+      `"z.preprocess((value) => value === "true" ? true : value === "false" ? false : value, z.boolean())"`
+    );
+  });
+
+  it("should not coerce the literals", () => {
+    expect(
+      transform(`z.union([z.literal(1), z.literal(true)])`)
+    ).toMatchInlineSnapshot(`"z.union([z.literal(1), z.literal(true)])"`);
+  });
+});
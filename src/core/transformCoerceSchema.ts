@@ -0,0 +1,156 @@
+import ts, { factory as f } from "typescript";
+import { CoerceTypes } from "../config";
+
+/**
+ * Primitive schemas with a `z.coerce.*` equivalent.
+ */
+const coercibleTypes: Array<keyof CoerceTypes> = [
+  "string",
+  "number",
+  "boolean",
+  "bigint",
+  "date",
+];
+
+/**
+ * Type guard to filter the primitive schemas with a `z.coerce.*` equivalent.
+ *
+ * @param name
+ */
+export function isCoercibleType(name: string): name is keyof CoerceTypes {
+  return coercibleTypes.map(String).includes(name);
+}
+
+/**
+ * Replace the primitive schemas of a zod statement by their coerced version.
+ *
+ * ```ts
+ * z.object({ page: z.number().min(1), from: z.date() })
+ * // becomes (with `{ number: true, date: true }`)
+ * z.object({ page: z.coerce.number().min(1), from: z.coerce.date() })
+ * ```
+ *
+ * Booleans are parsed from `"true"` & `"false"` (see `buildZodCoerceCall`).
+ *
+ * https://zod.dev/?id=coercion-for-primitives
+ */
+export function transformCoerceSchema<T extends ts.Node>(
+  zodImportValue: string,
+  node: T,
+  coerce: CoerceTypes
+): T {
+  const transformer: ts.TransformerFactory<T> = (context) => {
+    const visitor = (node: ts.Node): ts.Node => {
+      // Already coerced with `@coerce`
+      if (isZodCall(zodImportValue, node, "preprocess")) return node;
+
+      node = ts.visitEachChild(node, visitor, context);
+
+      if (
+        ts.isCallExpression(node) &&
+        node.arguments.length === 0 &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        ts.isIdentifier(node.expression.expression) &&
+        node.expression.expression.text === zodImportValue &&
+        isCoercibleType(node.expression.name.text) &&
+        coerce[node.expression.name.text]
+      ) {
+        return buildZodCoerceCall(zodImportValue, node.expression.name.text);
+      }
+
+      return node;
+    };
+    return (node) => visitor(node) as T;
+  };
+
+  return ts.transform(node, [transformer]).transformed[0];
+}
+
+/**
+ * Build `z.coerce.{name}()`
+ *
+ * `z.coerce.boolean()` parses any non-empty string (`"false"` included) as
+ * `true`, the `"true"` & `"false"` strings are preprocessed instead:
+ *
+ * ```ts
+ * z.preprocess((value) => value === "true" ? true : value === "false" ? false : value, z.boolean())
+ * ```
+ */
+export function buildZodCoerceCall(zodImportValue: string, name: string) {
+  if (name === "boolean") {
+    return buildZodBooleanPreprocess(zodImportValue);
+  }
+
+  return f.createCallExpression(
+    f.createPropertyAccessExpression(
+      f.createPropertyAccessExpression(
+        f.createIdentifier(zodImportValue),
+        "coerce"
+      ),
+      name
+    ),
+    undefined,
+    []
+  );
+}
+
+function buildZodBooleanPreprocess(zodImportValue: string) {
+  const value = f.createIdentifier("value");
+  const isString = (text: string) =>
+    f.createBinaryExpression(
+      value,
+      ts.SyntaxKind.EqualsEqualsEqualsToken,
+      f.createStringLiteral(text)
+    );
+
+  return f.createCallExpression(
+    f.createPropertyAccessExpression(
+      f.createIdentifier(zodImportValue),
+      "preprocess"
+    ),
+    undefined,
+    [
+      f.createArrowFunction(
+        undefined,
+        undefined,
+        [f.createParameterDeclaration(undefined, undefined, value)],
+        undefined,
+        undefined,
+        f.createConditionalExpression(
+          isString("true"),
+          undefined,
+          f.createTrue(),
+          undefined,
+          f.createConditionalExpression(
+            isString("false"),
+            undefined,
+            f.createFalse(),
+            undefined,
+            value
+          )
+        )
+      ),
+      f.createCallExpression(
+        f.createPropertyAccessExpression(
+          f.createIdentifier(zodImportValue),
+          "boolean"
+        ),
+        undefined,
+        []
+      ),
+    ]
+  );
+}
+
+/**
+ * Check if a node is a `z.{name}()` call.
+ */
+function isZodCall(zodImportValue: string, node: ts.Node, name: string) {
+  return (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    ts.isIdentifier(node.expression.expression) &&
+    node.expression.expression.text === zodImportValue &&
+    node.expression.name.text === name
+  );
+}
@@ -31,6 +31,118 @@ describe("transformRecursiveSchema", () => {
     `);
   });
 
+  it("should generate getters with zod v4", () => {
+    const sourceFile = ts.createSourceFile(
+      "index.ts",
+      `export const categorySchema = z.object({
+      name: z.string(),
+      subcategories: z.array(categorySchema),
+    }).describe("category")`,
+      ts.ScriptTarget.Latest
+    );
+
+    const declaration = findNode(sourceFile, ts.isVariableStatement);
+    if (!declaration) {
+      fail("should have a variable declaration");
+    }
+
+    const output = transformRecursiveSchema("z", declaration, "Category", 4);
+
+    const printer = ts.createPrinter({ newLine: ts.NewLineKind.LineFeed });
+
+    expect(printer.printNode(ts.EmitHint.Unspecified, output, sourceFile))
+      .toMatchInlineSnapshot(`
+      "export const categorySchema = z.object({
+          name: z.string(),
+          get subcategories() { return z.array(categorySchema); }
+      }).describe("category");"
+    `);
+  });
+
+  it("should fallback on z.lazy with zod v4 if the object schema is wrapped", () => {
+    const sourceFile = ts.createSourceFile(
+      "index.ts",
+      `export const treeSchema = z.object({
+      value: z.string(),
+      children: z.array(treeSchema),
+    }).nullable()`,
+      ts.ScriptTarget.Latest
+    );
+
+    const declaration = findNode(sourceFile, ts.isVariableStatement);
+    if (!declaration) {
+      fail("should have a variable declaration");
+    }
+
+    const output = transformRecursiveSchema("z", declaration, "Tree", 4);
+
+    const printer = ts.createPrinter({ newLine: ts.NewLineKind.LineFeed });
+
+    expect(printer.printNode(ts.EmitHint.Unspecified, output, sourceFile))
+      .toMatchInlineSnapshot(`
+      "export const treeSchema: z.ZodType<Tree> = z.lazy(() => z.object({
+          value: z.string(),
+          children: z.array(treeSchema),
+      }).nullable());"
+    `);
+  });
+
+  it("should build the lazy schema in the factory of a generic declaration", () => {
+    const sourceFile = ts.createSourceFile(
+      "index.ts",
+      `export const treeSchema = <T extends z.ZodTypeAny>(t: T) => z.object({
+      value: t,
+      children: z.array(treeSchema(t)),
+    })`,
+      ts.ScriptTarget.Latest
+    );
+
+    const declaration = findNode(sourceFile, ts.isVariableStatement);
+    if (!declaration) {
+      fail("should have a variable declaration");
+    }
+
+    const output = transformRecursiveSchema("z", declaration, "Tree");
+
+    const printer = ts.createPrinter({ newLine: ts.NewLineKind.LineFeed });
+
+    expect(printer.printNode(ts.EmitHint.Unspecified, output, sourceFile))
+      .toMatchInlineSnapshot(`
+      "export const treeSchema = <T extends z.ZodTypeAny>(t: T): z.ZodSchema<Tree<z.infer<T>>> => z.lazy(() => z.object({
+          value: t,
+          children: z.array(treeSchema(t)),
+      })) as unknown as z.ZodSchema<Tree<z.infer<T>>>;"
+    `);
+  });
+
+  it("should fallback on z.lazy with zod v4 if a schema factory is referenced", () => {
+    const sourceFile = ts.createSourceFile(
+      "index.ts",
+      `export const userSchema = z.object({
+      name: z.string(),
+      friends: paginatedSchema(userSchema),
+    })`,
+      ts.ScriptTarget.Latest
+    );
+
+    const declaration = findNode(sourceFile, ts.isVariableStatement);
+    if (!declaration) {
+      fail("should have a variable declaration");
+    }
+
+    const output = transformRecursiveSchema("z", declaration, "User", 4);
+
+    const printer = ts.createPrinter({ newLine: ts.NewLineKind.LineFeed });
+
+    expect(printer.printNode(ts.EmitHint.Unspecified, output, sourceFile))
+      .toMatchInlineSnapshot(`
+      "export const userSchema: z.ZodType<User> = z.lazy(() => z.object({
+          name: z.string(),
+          friends: paginatedSchema(userSchema),
+      }));"
+    `);
+  });
+
   it("should throw if the statement is not valid", () => {
     const sourceFile = ts.createSourceFile(
       "index.ts",
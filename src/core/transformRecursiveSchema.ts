@@ -1,14 +1,26 @@
 import ts, { factory as f } from "typescript";
+import { ZodVersion } from "../config";
+
+/**
+ * Methods returning the same object schema, which keep the getters typing.
+ *
+ * Wrapped schemas (`z.object({…}).nullable()`) can't infer their getters.
+ */
+const objectSchemaMethods = ["describe", "meta"];
 
 /**
  * Type hint zod to deal with recursive types.
  *
  * https://github.com/colinhacks/zod/tree/v3#recursive-types
+ *
+ * With zod v4, the properties of object schemas referencing other schemas are
+ * generated as getters instead (https://zod.dev/api#recursive-objects).
  */
 export function transformRecursiveSchema(
   zodImportValue: string,
   zodStatement: ts.VariableStatement,
-  typeName: string
+  typeName: string,
+  zodVersion: ZodVersion = 3
 ): ts.VariableStatement {
   const declaration = zodStatement.declarationList.declarations[0];
 
@@ -16,6 +28,79 @@ export function transformRecursiveSchema(
     throw new Error("Invalid zod statement");
   }
 
+  const schemaType = `${zodImportValue}.${
+    zodVersion === 4 ? "ZodType" : "ZodSchema"
+  }`;
+
+  // Generic declarations are schema factories, the lazy schema is built by the factory
+  if (ts.isArrowFunction(declaration.initializer)) {
+    const factory = declaration.initializer;
+    const factorySchemaType = f.createTypeReferenceNode(schemaType, [
+      f.createTypeReferenceNode(
+        typeName,
+        factory.typeParameters?.map((param) =>
+          f.createTypeReferenceNode(`${zodImportValue}.infer`, [
+            f.createTypeReferenceNode(param.name),
+          ])
+        )
+      ),
+    ]);
+
+    // The object type of a type parameter can't be checked by zod, hence the assertion
+    return f.createVariableStatement(
+      zodStatement.modifiers,
+      f.createVariableDeclarationList(
+        [
+          f.createVariableDeclaration(
+            declaration.name,
+            undefined,
+            undefined,
+            f.createArrowFunction(
+              factory.modifiers,
+              factory.typeParameters,
+              factory.parameters,
+              factorySchemaType,
+              factory.equalsGreaterThanToken,
+              f.createAsExpression(
+                f.createAsExpression(
+                  buildLazySchema(
+                    zodImportValue,
+                    factory.body as ts.Expression
+                  ),
+                  f.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)
+                ),
+                factorySchemaType
+              )
+            )
+          ),
+        ],
+        ts.NodeFlags.Const
+      )
+    );
+  }
+
+  const schemaWithGetters =
+    zodVersion === 4
+      ? withReferenceGetters(zodImportValue, declaration.initializer)
+      : undefined;
+
+  if (schemaWithGetters) {
+    return f.createVariableStatement(
+      zodStatement.modifiers,
+      f.createVariableDeclarationList(
+        [
+          f.createVariableDeclaration(
+            declaration.name,
+            undefined,
+            undefined,
+            schemaWithGetters
+          ),
+        ],
+        ts.NodeFlags.Const
+      )
+    );
+  }
+
   return f.createVariableStatement(
     zodStatement.modifiers,
     f.createVariableDeclarationList(
@@ -23,29 +108,146 @@ export function transformRecursiveSchema(
         f.createVariableDeclaration(
           declaration.name,
           undefined,
-          f.createTypeReferenceNode(`${zodImportValue}.ZodSchema`, [
+          f.createTypeReferenceNode(schemaType, [
             f.createTypeReferenceNode(typeName),
           ]),
-          f.createCallExpression(
-            f.createPropertyAccessExpression(
-              f.createIdentifier(zodImportValue),
-              f.createIdentifier("lazy")
-            ),
-            undefined,
-            [
-              f.createArrowFunction(
-                undefined,
-                undefined,
-                [],
-                undefined,
-                undefined,
-                declaration.initializer
-              ),
-            ]
-          )
+          buildLazySchema(zodImportValue, declaration.initializer)
         ),
       ],
       ts.NodeFlags.Const
     )
   );
 }
+
+/**
+ * Build `z.lazy(() => ${schema})`
+ */
+function buildLazySchema(zodImportValue: string, schema: ts.Expression) {
+  return f.createCallExpression(
+    f.createPropertyAccessExpression(
+      f.createIdentifier(zodImportValue),
+      f.createIdentifier("lazy")
+    ),
+    undefined,
+    [
+      f.createArrowFunction(
+        undefined,
+        undefined,
+        [],
+        undefined,
+        undefined,
+        schema
+      ),
+    ]
+  );
+}
+
+/**
+ * Replace the properties referencing other schemas by getters in an object schema.
+ *
+ * ```ts
+ * z.object({ friends: z.array(villainSchema) })
+ * // becomes
+ * z.object({ get friends() { return z.array(villainSchema); } })
+ * ```
+ *
+ * @returns The new schema, `undefined` if the schema is not an (unwrapped) object schema
+ */
+function withReferenceGetters(
+  zodImportValue: string,
+  schema: ts.Expression
+): ts.Expression | undefined {
+  if (
+    !ts.isCallExpression(schema) ||
+    !ts.isPropertyAccessExpression(schema.expression)
+  ) {
+    return;
+  }
+
+  const { expression, name } = schema.expression;
+  const [shape] = schema.arguments;
+  const isObjectCall =
+    (ts.isIdentifier(expression) &&
+      expression.text === zodImportValue &&
+      ["object", "strictObject"].includes(name.text)) ||
+    name.text === "extend";
+
+  if (!isObjectCall || !shape || !ts.isObjectLiteralExpression(shape)) {
+    if (!objectSchemaMethods.includes(name.text)) return;
+
+    // Look for the object schema in the chain (`z.object({}).describe()`)
+    const target = withReferenceGetters(zodImportValue, expression);
+    return (
+      target &&
+      f.createCallExpression(
+        f.createPropertyAccessExpression(target, name),
+        undefined,
+        schema.arguments
+      )
+    );
+  }
+
+  // The getters can't infer their type through a schema factory (`paginatedSchema(villainSchema)`)
+  if (hasFactoryCall(shape)) return;
+
+  return f.createCallExpression(schema.expression, undefined, [
+    f.createObjectLiteralExpression(
+      shape.properties.map((property) =>
+        ts.isPropertyAssignment(property) &&
+        hasSchemaReference(zodImportValue, property.initializer)
+          ? f.createGetAccessorDeclaration(
+              undefined,
+              property.name,
+              [],
+              undefined,
+              f.createBlock([f.createReturnStatement(property.initializer)])
+            )
+          : property
+      ),
+      true
+    ),
+    ...schema.arguments.slice(1),
+  ]);
+}
+
+function hasFactoryCall(node: ts.Node): boolean {
+  if (ts.isCallExpression(node) && ts.isIdentifier(node.expression)) {
+    return true;
+  }
+  return Boolean(
+    ts.forEachChild(node, (child) => (hasFactoryCall(child) ? true : undefined))
+  );
+}
+
+function hasSchemaReference(
+  zodImportValue: string,
+  node: ts.Node,
+  localNames: string[] = []
+): boolean {
+  if (ts.isIdentifier(node)) {
+    return node.text !== zodImportValue && !localNames.includes(node.text);
+  }
+  if (ts.isPropertyAccessExpression(node)) {
+    return hasSchemaReference(zodImportValue, node.expression, localNames);
+  }
+  if (ts.isQualifiedName(node)) {
+    return hasSchemaReference(zodImportValue, node.left, localNames);
+  }
+  if (ts.isPropertyAssignment(node)) {
+    return hasSchemaReference(zodImportValue, node.initializer, localNames);
+  }
+  // The parameters of the functions (`(schema) => …`) are not schema references
+  if (ts.isArrowFunction(node)) {
+    return hasSchemaReference(zodImportValue, node.body, [
+      ...localNames,
+      ...node.parameters.flatMap(({ name }) =>
+        ts.isIdentifier(name) ? [name.text] : []
+      ),
+    ]);
+  }
+  return Boolean(
+    ts.forEachChild(node, (child) =>
+      hasSchemaReference(zodImportValue, child, localNames) ? true : undefined
+    )
+  );
+}
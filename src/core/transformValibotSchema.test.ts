@@ -0,0 +1,166 @@
+import ts from "typescript";
+import { transformValibotSchema } from "./transformValibotSchema";
+
+describe("transformValibotSchema", () => {
+  const transform = (schema: string) => {
+    const sourceFile = ts.createSourceFile(
+      "index.ts",
+      schema,
+      ts.ScriptTarget.Latest
+    );
+
+    return ts
+      .createPrinter({ newLine: ts.NewLineKind.LineFeed })
+      .printNode(
+        ts.EmitHint.Unspecified,
+        transformValibotSchema("z", "v", sourceFile.statements[0]),
+        sourceFile
+      );
+  };
+
+  it("should generate primitives", () => {
+    expect(
+      transform(`z.tuple([z.string(), z.number(), z.boolean(), z.date()])`)
+    ).toMatchInlineSnapshot(
+      `"v.tuple([v.string(), v.number(), v.boolean(), v.date()]);"`
+    );
+  });
+
+  it("should generate the validations as pipe actions", () => {
+    expect(
+      transform(`z.object({
+        name: z.string().min(1).max(20),
+        email: z.string().email("Invalid email"),
+        age: z.number().min(0).max(150, "Too old"),
+        ip: z.string().ip({ version: "v4" }),
+        powers: z.array(z.string()).min(1),
+        strength: z.number().gt(0).lt(1).multipleOf(0.5).finite(),
+        level: z.number().int().positive("Must be positive").nonnegative(),
+      })`)
+    ).toMatchInlineSnapshot(`
+      "v.object({
+          name: v.pipe(v.string(), v.minLength(1), v.maxLength(20)),
+          email: v.pipe(v.string(), v.email("Invalid email")),
+          age: v.pipe(v.number(), v.minValue(0), v.maxValue(150, "Too old")),
+          ip: v.pipe(v.string(), v.ipv4()),
+          powers: v.pipe(v.array(v.string()), v.minLength(1)),
+          strength: v.pipe(v.number(), v.gtValue(0), v.ltValue(1), v.multipleOf(0.5), v.finite()),
+          level: v.pipe(v.number(), v.integer(), v.gtValue(0, "Must be positive"), v.minValue(0)),
+      });"
+    `);
+  });
+
+  it("should generate refinements & transformations", () => {
+    expect(
+      transform(`z.object({
+        slug: z.string().min(1).refine(isSlug, { message: "Invalid slug" }),
+        date: z.string().transform(toDate),
+      })`)
+    ).toMatchInlineSnapshot(`
+      "v.object({
+          slug: v.pipe(v.string(), v.minLength(1), v.check(isSlug, "Invalid slug")),
+          date: v.pipe(v.string(), v.transform(toDate)),
+      });"
+    `);
+  });
+
+  it("should keep optional & nullable as outermost schemas", () => {
+    expect(
+      transform(`z.object({
+        name: z.string().min(1).optional().describe("The name"),
+        age: z.number().nullable(),
+        lair: z.string().optional().nullable(),
+        power: z.string().optional().default("fly"),
+      })`)
+    ).toMatchInlineSnapshot(`
+      "v.object({
+          name: v.optional(v.pipe(v.string(), v.minLength(1), v.description("The name"))),
+          age: v.nullable(v.number()),
+          lair: v.nullish(v.string()),
+          power: v.optional(v.string(), "fly"),
+      });"
+    `);
+  });
+
+  it("should generate enums, unions & records", () => {
+    expect(
+      transform(`z.object({
+        superhero: z.nativeEnum(Superhero),
+        villain: z.enum(["lex", "zod"]),
+        hero: z.discriminatedUnion("kind", [supermanSchema, batmanSchema]),
+        friends: z.union([z.string(), z.number()]).array(),
+        powers: z.record(z.number()),
+      })`)
+    ).toMatchInlineSnapshot(`
+      "v.object({
+          superhero: v.enum(Superhero),
+          villain: v.picklist(["lex", "zod"]),
+          hero: v.variant("kind", [supermanSchema, batmanSchema]),
+          friends: v.array(v.union([v.string(), v.number()])),
+          powers: v.record(v.string(), v.number()),
+      });"
+    `);
+  });
+
+  it("should generate objects modifiers", () => {
+    expect(
+      transform(`heroSchema.extend(villainSchema.shape).extend({
+        name: z.string(),
+      }).omit({ "age": true }).strict()`)
+    ).toMatchInlineSnapshot(`
+      "v.strictObject(v.omit(v.object({
+          ...heroSchema.entries,
+          ...villainSchema.entries,
+          name: v.string()
+      }), ["age"]).entries);"
+    `);
+  });
+
+  it("should generate recursive schemas", () => {
+    expect(
+      transform(`const categorySchema: z.ZodSchema<Category> = z.lazy(() => z.object({
+        name: categorySchema.shape.name,
+        subcategories: z.array(categorySchema),
+      }))`)
+    ).toMatchInlineSnapshot(`
+      "const categorySchema: v.GenericSchema<unknown, Category> = v.lazy(() => v.object({
+          name: categorySchema.entries.name,
+          subcategories: v.array(categorySchema),
+      }));"
+    `);
+  });
+
+  it("should generate promises as custom schemas", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    expect(transform(`z.promise(z.string())`)).toMatchInlineSnapshot(
+      `"v.custom<Promise<any>>(input => input instanceof Promise);"`
+    );
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it("should skip the coercions", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    expect(
+      transform(`z.object({
+        page: z.coerce.number(),
+        archived: z.preprocess((value) => value === "true" ? true : value === "false" ? false : value, z.boolean()).optional(),
+      })`)
+    ).toMatchInlineSnapshot(`
+      "v.object({
+          page: v.number(),
+          archived: v.optional(v.boolean()),
+      });"
+    `);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it("should generate functions", () => {
+    expect(
+      transform(`z.function().args(z.string()).returns(z.boolean())`)
+    ).toMatchInlineSnapshot(
+      `"v.pipe(v.function(), v.args(v.tuple([v.string()])), v.returns(v.boolean()));"`
+    );
+  });
+});
@@ -0,0 +1,529 @@
+import ts, { factory as f } from "typescript";
+
+/**
+ * Zod schemas that have a valibot equivalent with a different name.
+ */
+const schemaNames = new Map([
+  ["enum", "picklist"],
+  ["nativeEnum", "enum"],
+  ["discriminatedUnion", "variant"],
+  ["instanceof", "instance"],
+]);
+
+/**
+ * Zod string formats and their valibot actions.
+ */
+const stringFormats = new Map([
+  ["email", "email"],
+  ["url", "url"],
+  ["uuid", "uuid"],
+  ["cuid2", "cuid2"],
+  ["ulid", "ulid"],
+  ["emoji", "emoji"],
+  ["datetime", "isoTimestamp"],
+  ["date", "isoDate"],
+  ["time", "isoTime"],
+  ["regex", "regex"],
+  ["startsWith", "startsWith"],
+  ["endsWith", "endsWith"],
+  ["includes", "includes"],
+]);
+
+/**
+ * Zod methods wrapping the schema (`v.optional(schema)`), they need to be
+ * the outermost schemas for valibot to mark the object keys as optional.
+ */
+const wrapperMethods = ["optional", "nullable", "nullish", "default"];
+
+/**
+ * Zod types and their valibot equivalents.
+ *
+ * `z.ZodSchema<T>` only types the output, its valibot equivalent is
+ * `v.GenericSchema<unknown, T>` (the input of `v.optional(schema, default)` differs).
+ */
+const typeNames = new Map([
+  ["ZodSchema", "GenericSchema"],
+  ["ZodType", "GenericSchema"],
+  ["ZodTypeAny", "GenericSchema"],
+  ["infer", "InferOutput"],
+  ["input", "InferInput"],
+]);
+
+interface ChainStep {
+  name: string;
+
+  /**
+   * Arguments of the method call, `undefined` for a property access
+   */
+  args?: ts.Expression[];
+}
+
+/**
+ * Translate a zod statement to its valibot equivalent.
+ *
+ * ```ts
+ * z.string().email().optional()
+ * // becomes
+ * v.optional(v.pipe(v.string(), v.email()))
+ * ```
+ *
+ * The zod methods are translated into pipe actions (`v.minLength()`, `v.email()`…)
+ * or wrapping schemas (`v.optional()`, `v.nullable()`…).
+ *
+ * https://valibot.dev/guides/migrate-from-zod/
+ */
+export function transformValibotSchema<T extends ts.Node>(
+  zodImportValue: string,
+  valibotImportValue: string,
+  node: T
+): T {
+  const buildCall = (name: string, args: readonly ts.Expression[] = []) =>
+    f.createCallExpression(
+      f.createPropertyAccessExpression(
+        f.createIdentifier(valibotImportValue),
+        name
+      ),
+      undefined,
+      args
+    );
+
+  const transformer: ts.TransformerFactory<T> = (context) => {
+    const visit = <N extends ts.Node>(node: N) =>
+      ts.visitNode(node, visitor) as N;
+
+    const visitor = (node: ts.Node): ts.Node => {
+      if (ts.isTypeReferenceNode(node)) {
+        return transformTypeReference(node);
+      }
+      if (ts.isCallExpression(node) || ts.isPropertyAccessExpression(node)) {
+        return transformChain(node);
+      }
+      return ts.visitEachChild(node, visitor, context);
+    };
+
+    const isValibotCall = (
+      expression: ts.Expression,
+      name: string
+    ): expression is ts.CallExpression =>
+      ts.isCallExpression(expression) &&
+      ts.isPropertyAccessExpression(expression.expression) &&
+      ts.isIdentifier(expression.expression.expression) &&
+      expression.expression.expression.text === valibotImportValue &&
+      expression.expression.name.text === name;
+
+    const transformTypeReference = (node: ts.TypeReferenceNode) => {
+      const typeName = ts.isIdentifier(node.typeName)
+        ? node.typeName.text
+        : `${getEntityNameText(node.typeName.left)}.${
+            node.typeName.right.text
+          }`;
+      const [importValue, name] = typeName.split(".");
+      const typeArguments = node.typeArguments?.map(visit);
+
+      if (importValue !== zodImportValue || !name) {
+        return f.updateTypeReferenceNode(
+          node,
+          node.typeName,
+          typeArguments && f.createNodeArray(typeArguments)
+        );
+      }
+      const valibotName = typeNames.get(name) ?? name;
+      return f.createTypeReferenceNode(
+        `${valibotImportValue}.${valibotName}`,
+        valibotName === "GenericSchema" && typeArguments?.length === 1
+          ? [
+              f.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword),
+              ...typeArguments,
+            ]
+          : typeArguments
+      );
+    };
+
+    const transformChain = (node: ts.Expression): ts.Expression => {
+      // Split `root.step1().step2` into its root and steps
+      const steps: ChainStep[] = [];
+      let root = node;
+      while (true) {
+        if (
+          ts.isCallExpression(root) &&
+          ts.isPropertyAccessExpression(root.expression)
+        ) {
+          steps.unshift({
+            name: root.expression.name.text,
+            args: root.arguments.map(visit),
+          });
+          root = root.expression.expression;
+        } else if (ts.isPropertyAccessExpression(root)) {
+          steps.unshift({ name: root.name.text });
+          root = root.expression;
+        } else {
+          break;
+        }
+      }
+
+      // `z.coerce.number()` has no valibot equivalent
+      if (
+        ts.isIdentifier(root) &&
+        root.text === zodImportValue &&
+        steps[0]?.name === "coerce" &&
+        !steps[0].args
+      ) {
+        console.warn(
+          ` »   Warning: coercion is not supported by valibot, the schema is not coerced`
+        );
+        steps.shift();
+      }
+
+      let schema: ts.Expression;
+      let schemaType: string | undefined;
+      if (
+        ts.isIdentifier(root) &&
+        root.text === zodImportValue &&
+        steps[0]?.args
+      ) {
+        const [{ name, args = [] }] = steps.splice(0, 1);
+        schema = buildSchema(name, args);
+        schemaType = name;
+      } else {
+        schema = ts.visitEachChild(root, visitor, context);
+      }
+
+      let actions: ts.Expression[] = [];
+      let wrappers: ChainStep[] = [];
+
+      const flush = () => {
+        if (actions.length) {
+          schema = buildCall("pipe", [schema, ...actions]);
+        }
+        schema = wrappers.reduce(
+          (inner, { name, args = [] }) =>
+            name === "default"
+              ? buildCall("optional", [inner, ...args])
+              : buildCall(name, [inner]),
+          schema
+        );
+        actions = [];
+        wrappers = [];
+        return schema;
+      };
+
+      steps.forEach((step) => {
+        const { name, args } = step;
+
+        if (!args) {
+          // Property access (`schema.shape.name`)
+          flush();
+          const propertyName =
+            name === "shape"
+              ? "entries"
+              : name === "element"
+              ? "item"
+              : name.replace(/^shape\./, "entries.");
+          schema = f.createPropertyAccessExpression(schema, propertyName);
+          schemaType = undefined;
+          return;
+        }
+
+        if (wrapperMethods.includes(name)) {
+          const lastWrapper = wrappers[wrappers.length - 1];
+          if (name === "default" && lastWrapper?.name === "optional") {
+            // `.optional().default(x)` => `v.optional(schema, x)`
+            wrappers[wrappers.length - 1] = step;
+          } else if (
+            (name === "optional" && lastWrapper?.name === "nullable") ||
+            (name === "nullable" && lastWrapper?.name === "optional")
+          ) {
+            // `.optional().nullable()` => `v.nullish(schema)`
+            wrappers[wrappers.length - 1] = { name: "nullish", args };
+          } else {
+            wrappers.push(step);
+          }
+          return;
+        }
+
+        const action = buildAction(name, args, schemaType);
+        if (action) {
+          // Descriptions are kept in the inner pipe, so the wrappers stay outermost
+          if (wrappers.length && name !== "describe") flush();
+          if (action !== "skip") actions.push(action);
+          return;
+        }
+
+        schema = buildMethodCall(flush(), name, args);
+        schemaType = isValibotCall(schema, "object")
+          ? "object"
+          : ["partial", "required"].includes(name)
+          ? schemaType
+          : undefined;
+      });
+
+      return flush();
+    };
+
+    const buildSchema = (name: string, args: ts.Expression[]) => {
+      switch (name) {
+        case "record":
+          return buildCall(
+            "record",
+            args.length === 1 ? [buildCall("string"), ...args] : args
+          );
+        case "intersection":
+          return buildCall("intersect", [f.createArrayLiteralExpression(args)]);
+        case "preprocess":
+          // Coerced boolean: `z.preprocess((value) => …, z.boolean())`
+          console.warn(
+            ` »   Warning: coercion is not supported by valibot, the schema is not coerced`
+          );
+          return args[1];
+        case "promise":
+          // `v.promise()` is not generic, the resolved value can't be typed
+          console.warn(
+            ` »   Warning: 'promise' schemas are not supported by valibot, the resolved value is not validated`
+          );
+          // v.custom<Promise<any>>((input) => input instanceof Promise)
+          return f.createCallExpression(
+            f.createPropertyAccessExpression(
+              f.createIdentifier(valibotImportValue),
+              "custom"
+            ),
+            [
+              f.createTypeReferenceNode("Promise", [
+                f.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword),
+              ]),
+            ],
+            [
+              f.createArrowFunction(
+                undefined,
+                undefined,
+                [f.createParameterDeclaration(undefined, undefined, "input")],
+                undefined,
+                undefined,
+                f.createBinaryExpression(
+                  f.createIdentifier("input"),
+                  ts.SyntaxKind.InstanceOfKeyword,
+                  f.createIdentifier("Promise")
+                )
+              ),
+            ]
+          );
+        default:
+          return buildCall(schemaNames.get(name) ?? name, args);
+      }
+    };
+
+    /**
+     * Build the pipe action of a zod method.
+     *
+     * @returns The action, `"skip"` if it has no valibot equivalent, `undefined` if the method is not an action
+     */
+    const buildAction = (
+      name: string,
+      args: ts.Expression[],
+      schemaType?: string
+    ): ts.Expression | "skip" | undefined => {
+      const format = stringFormats.get(name);
+      if (format) return buildCall(format, args);
+
+      switch (name) {
+        case "min":
+        case "max": {
+          const suffix =
+            schemaType === "number" ||
+            schemaType === "bigint" ||
+            schemaType === "date"
+              ? "Value"
+              : schemaType === "set" || schemaType === "map"
+              ? "Size"
+              : "Length";
+          return buildCall(`${name}${suffix}`, args);
+        }
+        case "length":
+          return buildCall("length", args);
+        case "nonempty":
+          return buildCall("nonEmpty", args);
+        case "int":
+          return buildCall("integer", args);
+        case "multipleOf":
+          return buildCall("multipleOf", args);
+        case "gt":
+          return buildCall("gtValue", args);
+        case "lt":
+          return buildCall("ltValue", args);
+        case "positive":
+          return buildCall("gtValue", [f.createNumericLiteral(0), ...args]);
+        case "nonnegative":
+          return buildCall("minValue", [f.createNumericLiteral(0), ...args]);
+        case "finite":
+          return buildCall("finite", args);
+        case "ip":
+          return buildIpAction(args);
+        case "describe":
+          return buildCall("description", args);
+        case "refine":
+          return buildCall("check", args.map(toValibotMessage));
+        case "transform":
+          return buildCall("transform", args);
+        case "readonly":
+          return buildCall("readonly");
+        case "args":
+          return buildCall("args", [
+            buildCall("tuple", [f.createArrayLiteralExpression(args)]),
+          ]);
+        case "returns":
+          return buildCall("returns", args);
+        case "duration":
+          console.warn(
+            ` »   Warning: 'duration' format is not supported by valibot, the validation is skipped`
+          );
+          return "skip";
+      }
+    };
+
+    const buildIpAction = ([options]: ts.Expression[]) => {
+      let version: string | undefined;
+      let message: ts.Expression | undefined;
+
+      if (options && ts.isObjectLiteralExpression(options)) {
+        options.properties.forEach((property) => {
+          if (
+            !ts.isPropertyAssignment(property) ||
+            !ts.isIdentifier(property.name)
+          )
+            return;
+          if (
+            property.name.text === "version" &&
+            ts.isStringLiteral(property.initializer)
+          ) {
+            version = property.initializer.text;
+          }
+          if (property.name.text === "message") {
+            message = property.initializer;
+          }
+        });
+      } else {
+        message = options;
+      }
+
+      return buildCall(
+        version === "v4" ? "ipv4" : version === "v6" ? "ipv6" : "ip",
+        message ? [message] : []
+      );
+    };
+
+    /**
+     * Build the valibot equivalent of a zod method modifying the schema.
+     */
+    const buildMethodCall = (
+      schema: ts.Expression,
+      name: string,
+      args: ts.Expression[]
+    ): ts.Expression => {
+      const [arg] = args;
+      const objectShape = isValibotCall(schema, "object")
+        ? schema.arguments[0]
+        : f.createPropertyAccessExpression(schema, "entries");
+
+      switch (name) {
+        case "partial":
+        case "required":
+        case "keyof":
+          return buildCall(name, [schema]);
+        case "array":
+          return buildCall("array", [schema]);
+        case "and":
+          return buildCall("intersect", [
+            f.createArrayLiteralExpression([schema, arg]),
+          ]);
+        case "or":
+          return buildCall("union", [
+            f.createArrayLiteralExpression([schema, arg]),
+          ]);
+        case "strict":
+          return buildCall("strictObject", [objectShape]);
+        case "passthrough":
+          return buildCall("looseObject", [objectShape]);
+        case "catchall":
+          return buildCall("objectWithRest", [objectShape, arg]);
+        case "rest":
+          return buildCall("tupleWithRest", [
+            isValibotCall(schema, "tuple")
+              ? schema.arguments[0]
+              : f.createPropertyAccessExpression(schema, "items"),
+            arg,
+          ]);
+        case "extend":
+        case "merge":
+          // `a.extend(b)` => `v.object({ ...a.entries, ...b })`
+          return buildCall("object", [
+            f.createObjectLiteralExpression(
+              [
+                ...(ts.isObjectLiteralExpression(objectShape)
+                  ? objectShape.properties
+                  : [f.createSpreadAssignment(objectShape)]),
+                ...(ts.isObjectLiteralExpression(arg)
+                  ? arg.properties
+                  : [
+                      f.createSpreadAssignment(
+                        name === "merge"
+                          ? f.createPropertyAccessExpression(arg, "entries")
+                          : arg
+                      ),
+                    ]),
+              ],
+              true
+            ),
+          ]);
+        case "omit":
+        case "pick":
+          // `a.omit({ key: true })` => `v.omit(a, ["key"])`
+          return buildCall(name, [
+            schema,
+            f.createArrayLiteralExpression(
+              ts.isObjectLiteralExpression(arg)
+                ? arg.properties.map((property) =>
+                    f.createStringLiteral(
+                      property.name && ts.isStringLiteral(property.name)
+                        ? property.name.text
+                        : property.name && ts.isIdentifier(property.name)
+                        ? property.name.text.replace(/^["']|["']$/g, "")
+                        : ""
+                    )
+                  )
+                : []
+            ),
+          ]);
+        default:
+          return f.createCallExpression(
+            f.createPropertyAccessExpression(schema, name),
+            undefined,
+            args
+          );
+      }
+    };
+
+    return (node) => visit(node);
+  };
+
+  return ts.transform(node, [transformer]).transformed[0];
+}
+
+function getEntityNameText(name: ts.EntityName): string {
+  return ts.isIdentifier(name)
+    ? name.text
+    : `${getEntityNameText(name.left)}.${name.right.text}`;
+}
+
+/**
+ * Unwrap zod custom error params (`{ message: "…" }`), valibot only takes the message.
+ */
+function toValibotMessage(arg: ts.Expression): ts.Expression {
+  if (!ts.isObjectLiteralExpression(arg)) return arg;
+
+  const message = arg.properties.find(
+    (property): property is ts.PropertyAssignment =>
+      ts.isPropertyAssignment(property) &&
+      ts.isIdentifier(property.name) &&
+      property.name.text === "message"
+  );
+  return message ? message.initializer : arg;
+}
@@ -0,0 +1,82 @@
+import ts from "typescript";
+import { transformZodV4Schema } from "./transformZodV4Schema";
+
+describe("transformZodV4Schema", () => {
+  const transform = (schema: string) => {
+    const sourceFile = ts.createSourceFile(
+      "index.ts",
+      schema,
+      ts.ScriptTarget.Latest
+    );
+    const statement = sourceFile.statements[0] as ts.ExpressionStatement;
+
+    return ts
+      .createPrinter({ newLine: ts.NewLineKind.LineFeed })
+      .printNode(
+        ts.EmitHint.Unspecified,
+        transformZodV4Schema("z", statement.expression),
+        sourceFile
+      );
+  };
+
+  it("should generate native enums with z.enum()", () => {
+    expect(transform(`z.nativeEnum(Superhero)`)).toMatchInlineSnapshot(
+      `"z.enum(Superhero)"`
+    );
+  });
+
+  it("should generate string formats as top-level schemas", () => {
+    expect(
+      transform(`z.object({
+        email: z.string().email("Invalid email"),
+        website: z.string().min(4).url().optional(),
+        createdAt: z.string().datetime(),
+        birthday: z.string().date(),
+        ip: z.string().ip({ version: "v4" }),
+        anyIp: z.string().ip(),
+      })`)
+    ).toMatchInlineSnapshot(`
+      "z.object({
+          email: z.email("Invalid email"),
+          website: z.url().min(4).optional(),
+          createdAt: z.iso.datetime(),
+          birthday: z.iso.date(),
+          ip: z.ipv4(),
+          anyIp: z.union([z.ipv4(), z.ipv6()]),
+      })"
+    `);
+  });
+
+  it("should generate strict objects with z.strictObject()", () => {
+    expect(
+      transform(`z.object({ name: z.string() }).strict()`)
+    ).toMatchInlineSnapshot(`"z.strictObject({ name: z.string() })"`);
+  });
+
+  it("should generate functions as custom schemas typed with input & output", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    expect(
+      transform(
+        `z.function().args(z.string(), z.number()).returns(z.boolean())`
+      )
+    ).toMatchInlineSnapshot(
+      `"(schema => z.custom<typeof schema._output>(value => typeof value === "function"))(z.function({ input: z.tuple([z.string(), z.number()]), output: z.boolean() }))"`
+    );
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it("should add the key schema of records", () => {
+    expect(transform(`z.record(z.number())`)).toMatchInlineSnapshot(
+      `"z.record(z.string(), z.number())"`
+    );
+  });
+
+  it("should not transform other schemas", () => {
+    expect(
+      transform(`heroSchema.shape.email.and(z.date()).describe("url")`)
+    ).toMatchInlineSnapshot(
+      `"heroSchema.shape.email.and(z.date()).describe("url")"`
+    );
+  });
+});
@@ -0,0 +1,252 @@
+import ts, { factory as f } from "typescript";
+
+/**
+ * String formats that are top-level schemas in zod v4 (`z.string().email()` -> `z.email()`)
+ */
+const stringFormats = new Map([
+  ["email", ["email"]],
+  ["url", ["url"]],
+  ["uuid", ["uuid"]],
+  ["datetime", ["iso", "datetime"]],
+  ["date", ["iso", "date"]],
+  ["time", ["iso", "time"]],
+  ["duration", ["iso", "duration"]],
+]);
+
+/**
+ * Replace the zod v3 only APIs of a zod statement by their zod v4 equivalents.
+ *
+ * - `z.nativeEnum(Enum)` -> `z.enum(Enum)`
+ * - `z.string().email()` -> `z.email()` (and other string formats)
+ * - `z.string().ip({ version: "v4" })` -> `z.ipv4()`
+ * - `z.object({}).strict()` -> `z.strictObject({})`
+ * - `z.function().args(a).returns(b)` -> `z.custom()` typed by `z.function({ input: z.tuple([a]), output: b })`
+ * - `z.record(value)` -> `z.record(z.string(), value)`
+ *
+ * https://zod.dev/v4/changelog
+ */
+export function transformZodV4Schema<T extends ts.Node>(
+  zodImportValue: string,
+  node: T
+): T {
+  const isZodCall = (expression: ts.Expression, name: string): boolean =>
+    ts.isCallExpression(expression) &&
+    ts.isPropertyAccessExpression(expression.expression) &&
+    ts.isIdentifier(expression.expression.expression) &&
+    expression.expression.expression.text === zodImportValue &&
+    expression.expression.name.text === name;
+
+  const transformer: ts.TransformerFactory<T> = (context) => {
+    const visitor = (node: ts.Node): ts.Node => {
+      // Transform the inner calls first, so the chains are already migrated
+      node = ts.visitEachChild(node, visitor, context);
+
+      if (
+        !ts.isCallExpression(node) ||
+        !ts.isPropertyAccessExpression(node.expression)
+      ) {
+        return node;
+      }
+
+      const method = node.expression.name.text;
+      const target = node.expression.expression;
+
+      if (isZodCall(node, "nativeEnum")) {
+        return buildZodCall(zodImportValue, ["enum"], node.arguments);
+      }
+
+      if (isZodCall(node, "record") && node.arguments.length === 1) {
+        return buildZodCall(
+          zodImportValue,
+          ["record"],
+          [buildZodCall(zodImportValue, ["string"]), ...node.arguments]
+        );
+      }
+
+      if (
+        method === "strict" &&
+        ts.isCallExpression(target) &&
+        isZodCall(target, "object")
+      ) {
+        return buildZodCall(zodImportValue, ["strictObject"], target.arguments);
+      }
+
+      if (
+        method === "returns" &&
+        ts.isCallExpression(target) &&
+        ts.isPropertyAccessExpression(target.expression) &&
+        target.expression.name.text === "args" &&
+        isZodCall(target.expression.expression, "function")
+      ) {
+        console.warn(
+          ` »   Warning: function schemas are not supported by zod v4, the arguments and the returned values are not validated`
+        );
+        return buildZodFunctionSchema(
+          zodImportValue,
+          buildZodCall(
+            zodImportValue,
+            ["function"],
+            [
+              f.createObjectLiteralExpression([
+                // A tuple schema, the array of schemas is not inferred as a tuple before TS 5.3
+                f.createPropertyAssignment(
+                  "input",
+                  buildZodCall(
+                    zodImportValue,
+                    ["tuple"],
+                    [f.createArrayLiteralExpression(target.arguments)]
+                  )
+                ),
+                f.createPropertyAssignment("output", node.arguments[0]),
+              ]),
+            ]
+          )
+        );
+      }
+
+      const stringFormat = stringFormats.get(method);
+      if (method === "ip" || stringFormat) {
+        // Find the `z.string()` at the root of the chain
+        const chain: ts.CallExpression[] = [];
+        let current = target;
+        while (
+          !isZodCall(current, "string") &&
+          ts.isCallExpression(current) &&
+          ts.isPropertyAccessExpression(current.expression)
+        ) {
+          chain.unshift(current);
+          current = current.expression.expression;
+        }
+        if (!isZodCall(current, "string")) return node;
+
+        const formatSchema =
+          method === "ip"
+            ? buildZodIpSchema(zodImportValue, node.arguments)
+            : buildZodCall(zodImportValue, stringFormat ?? [], node.arguments);
+
+        return chain.reduce<ts.Expression>(
+          (expression, call) =>
+            f.createCallExpression(
+              f.createPropertyAccessExpression(
+                expression,
+                (call.expression as ts.PropertyAccessExpression).name
+              ),
+              call.typeArguments,
+              call.arguments
+            ),
+          formatSchema
+        );
+      }
+
+      return node;
+    };
+    return (node) => visitor(node) as T;
+  };
+
+  return ts.transform(node, [transformer]).transformed[0];
+}
+
+/**
+ * `z.function()` is not a schema in zod v4, build a custom schema typed by the function:
+ *
+ * ```ts
+ * ((schema) => z.custom<typeof schema._output>((value) => typeof value === "function"))(z.function({…}))
+ * ```
+ */
+function buildZodFunctionSchema(
+  zodImportValue: string,
+  functionSchema: ts.Expression
+) {
+  const schema = f.createIdentifier("schema");
+  const value = f.createIdentifier("value");
+
+  return f.createCallExpression(
+    f.createParenthesizedExpression(
+      f.createArrowFunction(
+        undefined,
+        undefined,
+        [f.createParameterDeclaration(undefined, undefined, schema)],
+        undefined,
+        undefined,
+        f.createCallExpression(
+          f.createPropertyAccessExpression(
+            f.createIdentifier(zodImportValue),
+            "custom"
+          ),
+          [f.createTypeQueryNode(f.createQualifiedName(schema, "_output"))],
+          [
+            f.createArrowFunction(
+              undefined,
+              undefined,
+              [f.createParameterDeclaration(undefined, undefined, value)],
+              undefined,
+              undefined,
+              f.createStrictEquality(
+                f.createTypeOfExpression(value),
+                f.createStringLiteral("function")
+              )
+            ),
+          ]
+        )
+      )
+    ),
+    undefined,
+    [functionSchema]
+  );
+}
+
+/**
+ * Build `z.ipv4()`, `z.ipv6()` or both from the arguments of `z.string().ip()`
+ */
+function buildZodIpSchema(
+  zodImportValue: string,
+  args: ts.NodeArray<ts.Expression>
+) {
+  const [options] = args;
+  let version: string | undefined;
+  let message: ts.Expression | undefined;
+
+  if (options && ts.isObjectLiteralExpression(options)) {
+    options.properties.forEach((property) => {
+      if (!ts.isPropertyAssignment(property) || !ts.isIdentifier(property.name))
+        return;
+      if (
+        property.name.text === "version" &&
+        ts.isStringLiteral(property.initializer)
+      ) {
+        version = property.initializer.text;
+      }
+      if (property.name.text === "message") {
+        message = property.initializer;
+      }
+    });
+  } else {
+    message = options;
+  }
+
+  const buildIp = (name: string) =>
+    buildZodCall(zodImportValue, [name], message ? [message] : []);
+
+  if (version === "v4") return buildIp("ipv4");
+  if (version === "v6") return buildIp("ipv6");
+  return buildZodCall(
+    zodImportValue,
+    ["union"],
+    [f.createArrayLiteralExpression([buildIp("ipv4"), buildIp("ipv6")])]
+  );
+}
+
+function buildZodCall(
+  zodImportValue: string,
+  path: string[],
+  args: readonly ts.Expression[] = []
+) {
+  return f.createCallExpression(
+    path.reduce<ts.Expression>(
+      (expression, name) => f.createPropertyAccessExpression(expression, name),
+      f.createIdentifier(zodImportValue)
+    ),
+    undefined,
+    args
+  );
+}
@@ -1075,6 +1075,65 @@ describe("validateGeneratedTypes", () => {
     `);
   });
 
+  it("should return an error if a helper function is not exported", () => {
+    const sourceTypes = {
+      sourceText: `
+      export type Slug = string;
+    `,
+      relativePath: "source.ts",
+    };
+
+    const zodSchemas = {
+      sourceText: `// Generated by ts-to-zod
+      import { z } from "zod";
+      import { doesNotExist } from "./validators";
+      export const slugSchema = z.string().refine(doesNotExist);
+      `,
+      relativePath: "source.zod.ts",
+    };
+
+    const extraFiles = [
+      {
+        sourceText: `export const isSlug = (value: string) => /^[a-z-]+$/.test(value);`,
+        relativePath: "validators.ts",
+      },
+    ];
+
+    const integrationTests = {
+      sourceText: `// Generated by ts-to-zod
+        import { z } from "zod";
+
+        import * as spec from "./${sourceTypes.relativePath.slice(0, -3)}";
+        import * as generated from "./${zodSchemas.relativePath.slice(0, -3)}";
+
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        function expectType<T>(_: T) {
+          /* noop */
+        }
+
+        export type slugSchemaInferredType = z.infer<typeof generated.slugSchema>;
+
+        expectType<slugSchemaInferredType>({} as spec.Slug);
+        expectType<spec.Slug>({} as slugSchemaInferredType);
+    `,
+      relativePath: "source.integration.ts",
+    };
+
+    const errors = validateGeneratedTypes({
+      sourceTypes,
+      zodSchemas,
+      integrationTests,
+      skipParseJSDoc: false,
+      extraFiles,
+    });
+
+    expect(errors).toMatchInlineSnapshot(`
+      [
+        "Module '"./validators"' has no exported member 'doesNotExist'.",
+      ]
+    `);
+  });
+
   it("should deal with optional value with default", () => {
     const sourceTypes = {
       sourceText: `
@@ -1180,4 +1239,96 @@ describe("validateGeneratedTypes", () => {
 
     expect(errors).toEqual([]);
   });
+
+  describe("with zod v4", () => {
+    const sourceTypes = {
+      sourceText: `
+      export enum Superpower {
+        Fly = "fly",
+        Swim = "swim",
+      }
+
+      export interface Villain {
+        email: string;
+        powers: Superpower[];
+        friends: Villain[];
+      };
+    `,
+      relativePath: "source.ts",
+    };
+
+    const getIntegrationTests = (zodSchemas: { relativePath: string }) => ({
+      sourceText: `// Generated by ts-to-zod
+      import { z } from "zod/v4";
+
+      import * as spec from "./${sourceTypes.relativePath.slice(0, -3)}";
+      import * as generated from "./${zodSchemas.relativePath.slice(0, -3)}";
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      function expectType<T>(_: T) {
+        /* noop */
+      }
+
+      export type VillainInferredType = z.infer<typeof generated.villainSchema>;
+
+      expectType<VillainInferredType>({} as spec.Villain);
+      expectType<spec.Villain>({} as VillainInferredType);
+  `,
+      relativePath: "source.integration.ts",
+    });
+
+    it("should return no error if the types match", () => {
+      const zodSchemas = {
+        sourceText: `// Generated by ts-to-zod
+      import { z } from "zod/v4";
+      import { Superpower } from "./source";
+
+      export const superpowerSchema = z.enum(Superpower);
+
+      export const villainSchema = z.object({
+        email: z.email(),
+        powers: z.array(superpowerSchema),
+        get friends() { return z.array(villainSchema); }
+      });
+      `,
+        relativePath: "source.zod.ts",
+      };
+
+      const errors = validateGeneratedTypes({
+        sourceTypes,
+        zodSchemas,
+        integrationTests: getIntegrationTests(zodSchemas),
+        skipParseJSDoc: false,
+      });
+
+      expect(errors).toEqual([]);
+    });
+
+    it("should return an error if the types doesn't match", () => {
+      const zodSchemas = {
+        sourceText: `// Generated by ts-to-zod
+      import { z } from "zod/v4";
+
+      export const villainSchema = z.object({
+        email: z.email(),
+        powers: z.array(z.number()),
+        get friends() { return z.array(villainSchema); }
+      });
+      `,
+        relativePath: "source.zod.ts",
+      };
+
+      const errors = validateGeneratedTypes({
+        sourceTypes,
+        zodSchemas,
+        integrationTests: getIntegrationTests(zodSchemas),
+        skipParseJSDoc: false,
+      });
+
+      expect(errors).toHaveLength(2);
+      errors.forEach((error) =>
+        expect(error).toContain("Types of property 'powers' are incompatible.")
+      );
+    });
+  });
 });
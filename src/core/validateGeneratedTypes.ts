@@ -13,6 +13,11 @@ import {
   areImportPathsEqualIgnoringExtension,
 } from "../utils/getImportPath";
 
+/**
+ * "Cannot find module", "Module has no exported member" & co.
+ */
+const unresolvedImportCodes = [2305, 2307, 2614, 2724];
+
 interface File {
   sourceText: string;
   relativePath: string;
@@ -107,6 +112,24 @@ export function validateGeneratedTypes({
   errors.push(
     ...env.languageService.getSyntacticDiagnostics(getPath(integrationTests))
   );
+  // Unresolved imports of the schemas (ie. a missing `@refine` helper) are typed as `any`
+  const zodSchemasImports = env
+    .getSourceFile(getPath(zodSchemas))
+    ?.statements.filter(ts.isImportDeclaration);
+  errors.push(
+    ...env.languageService
+      .getSemanticDiagnostics(getPath(zodSchemas))
+      .filter(
+        (diagnostic) =>
+          unresolvedImportCodes.includes(diagnostic.code) &&
+          diagnostic.start !== undefined &&
+          zodSchemasImports?.some(
+            (declaration) =>
+              diagnostic.start! >= declaration.getStart() &&
+              diagnostic.start! < declaration.getEnd()
+          )
+      )
+  );
 
   return errors.map((diagnostic) => {
     const message = ts.flattenDiagnosticMessageText(
@@ -10,6 +10,20 @@ export {
   GenerateZodSchemaProps,
 } from "./core/generateZodSchema";
 
+export {
+  generateSchemaIR,
+  GenerateSchemaIRProps,
+  SchemaNode,
+  SchemaDeclaration,
+} from "./core/generateSchemaIR";
+
 export { generateIntegrationTests } from "./core/generateIntegrationTests";
 
-export { TsToZodConfig } from "./config";
+export {
+  inlineImportedTypes,
+  InlineImportedTypesProps,
+} from "./utils/inlineImportedTypes";
+
+export { TsToZodConfig, Emitter, EmitterContext } from "./config";
+
+export { defineConfig } from "./loadConfig";
@@ -0,0 +1,203 @@
+import { outputFileSync, removeSync } from "fs-extra";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  findConfigFile,
+  getConfigDependencies,
+  loadConfig,
+} from "./loadConfig";
+
+describe("loadConfig", () => {
+  let root: string;
+
+  const load = (configFilePath?: string) => {
+    const configFile = findConfigFile(root, configFilePath);
+    if (!configFile) {
+      throw new Error("No config file found!");
+    }
+    return { name: configFile.name, config: loadConfig(configFile) };
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "ts-to-zod-"));
+  });
+
+  afterEach(() => {
+    removeSync(root);
+  });
+
+  it("should load a typescript config", () => {
+    outputFileSync(
+      join(root, "ts-to-zod.config.ts"),
+      `import type { TsToZodConfig } from "ts-to-zod";
+
+const config: TsToZodConfig = { input: "hero.ts", output: "hero.zod.ts" };
+
+export default config;`
+    );
+
+    expect(load()).toEqual({
+      name: "ts-to-zod.config.ts",
+      config: expect.objectContaining({
+        input: "hero.ts",
+        output: "hero.zod.ts",
+      }),
+    });
+  });
+
+  it("should load an ES module config", () => {
+    outputFileSync(
+      join(root, "ts-to-zod.config.mjs"),
+      `export default [{ name: "hero", input: "hero.ts", output: "hero.zod.ts" }];`
+    );
+
+    expect(load()).toEqual({
+      name: "ts-to-zod.config.mjs",
+      config: [
+        expect.objectContaining({
+          name: "hero",
+          input: "hero.ts",
+          output: "hero.zod.ts",
+        }),
+      ],
+    });
+  });
+
+  it("should load a CommonJS config", () => {
+    outputFileSync(
+      join(root, "ts-to-zod.config.js"),
+      `module.exports = { input: "hero.ts", output: "hero.zod.ts" };`
+    );
+
+    expect(load().config).toEqual(
+      expect.objectContaining({ input: "hero.ts", output: "hero.zod.ts" })
+    );
+  });
+
+  it("should load the config from package.json", () => {
+    outputFileSync(
+      join(root, "package.json"),
+      JSON.stringify({
+        name: "heroes",
+        "ts-to-zod": { input: "hero.ts", output: "hero.zod.ts" },
+      })
+    );
+
+    expect(load()).toEqual({
+      name: "package.json#ts-to-zod",
+      config: expect.objectContaining({
+        input: "hero.ts",
+        output: "hero.zod.ts",
+      }),
+    });
+  });
+
+  it("should ignore a package.json without config", () => {
+    outputFileSync(join(root, "package.json"), JSON.stringify({ name: "a" }));
+
+    expect(findConfigFile(root)).toBeUndefined();
+  });
+
+  it("should load an explicit config file", () => {
+    outputFileSync(
+      join(root, "ts-to-zod.config.js"),
+      `module.exports = { input: "villain.ts", output: "villain.zod.ts" };`
+    );
+    outputFileSync(
+      join(root, "config/heroes.cjs"),
+      `module.exports = { input: "hero.ts", output: "hero.zod.ts" };`
+    );
+
+    expect(load("config/heroes.cjs")).toEqual({
+      name: "config/heroes.cjs",
+      config: expect.objectContaining({ input: "hero.ts" }),
+    });
+  });
+
+  it("should load a config file from an absolute path", () => {
+    const configRoot = mkdtempSync(join(tmpdir(), "ts-to-zod-config-"));
+    const configFilePath = join(configRoot, "heroes.config.js");
+    outputFileSync(
+      configFilePath,
+      `module.exports = { input: "hero.ts", output: "hero.zod.ts" };`
+    );
+
+    try {
+      expect(load(configFilePath).config).toEqual(
+        expect.objectContaining({ input: "hero.ts" })
+      );
+    } finally {
+      removeSync(configRoot);
+    }
+  });
+
+  it("should keep the members of an emitter instance", () => {
+    outputFileSync(
+      join(root, "ts-to-zod.config.js"),
+      `class Emitter {
+  prefix = "// ";
+  emit() {
+    return this.prefix + "emitted";
+  }
+}
+
+module.exports = { input: "hero.ts", output: "hero.txt", emitter: new Emitter() };`
+    );
+
+    const { config } = load();
+    expect(
+      "emitter" in config && config.emitter?.emit([], { typesImportPath: "" })
+    ).toBe("// emitted");
+  });
+
+  it.each(["ts-to-zod.config.js", "ts-to-zod.config.ts"])(
+    "should list the local modules required by %s",
+    (configFileName) => {
+      outputFileSync(
+        join(root, "prefix.js"),
+        `module.exports = { prefix: "// " };`
+      );
+      outputFileSync(
+        join(root, "emitter.js"),
+        `const { prefix } = require("./prefix");
+module.exports = { emit: () => prefix + "emitted" };`
+      );
+      outputFileSync(
+        join(root, configFileName),
+        `const path = require("path");
+const emitter = require("./emitter");
+
+module.exports = { input: "hero.ts", output: path.join("hero.txt"), emitter };`
+      );
+
+      const configFile = findConfigFile(root);
+      if (!configFile) {
+        throw new Error("No config file found!");
+      }
+      expect(getConfigDependencies(configFile)).toEqual([
+        join(root, "emitter.js"),
+        join(root, "prefix.js"),
+      ]);
+    }
+  );
+
+  it("should throw a friendly error for an invalid config", () => {
+    outputFileSync(
+      join(root, "ts-to-zod.config.js"),
+      `module.exports = [{ name: "hero", input: 42 }];`
+    );
+
+    expect(() => load()).toThrowErrorMatchingInlineSnapshot(`
+      ""ts-to-zod.config.js" invalid:
+        - 0.input: Expected string, received number
+        - 0.output: Required"
+    `);
+  });
+
+  it("should throw if the config file doesn't exist", () => {
+    expect(() => load("missing.js")).toThrowErrorMatchingInlineSnapshot(
+      `""missing.js" not found"`
+    );
+  });
+});
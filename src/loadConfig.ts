@@ -0,0 +1,225 @@
+import { existsSync, readFileSync } from "fs";
+import Module from "module";
+import { dirname, join, parse, relative, resolve, sep } from "path";
+import slash from "slash";
+import ts from "typescript";
+import { ZodError } from "zod";
+import { TsToZodConfig } from "./config";
+import { tsToZodConfigSchema } from "./config.zod";
+
+/**
+ * Key of the configuration in `package.json`.
+ */
+export const packageJsonConfigKey = "ts-to-zod";
+
+/**
+ * Config files, in lookup order.
+ */
+const configFileNames = [
+  "ts-to-zod.config.ts",
+  "ts-to-zod.config.mts",
+  "ts-to-zod.config.cts",
+  "ts-to-zod.config.mjs",
+  "ts-to-zod.config.js",
+  "ts-to-zod.config.cjs",
+];
+
+export interface ConfigFile {
+  /**
+   * Absolute path of the file
+   */
+  path: string;
+
+  /**
+   * Name displayed in the messages (`ts-to-zod.config.ts`, `package.json#ts-to-zod`…)
+   */
+  name: string;
+}
+
+/**
+ * Find the config file: the explicit `configFilePath`, the first
+ * `ts-to-zod.config.*` file or a `package.json` with a `"ts-to-zod"` key.
+ *
+ * @param cwd Current working directory
+ * @param configFilePath Path of the config file (`--config-file` flag),
+ * absolute or relative to `cwd`
+ */
+export function findConfigFile(
+  cwd: string,
+  configFilePath?: string
+): ConfigFile | undefined {
+  if (configFilePath) {
+    const path = resolve(cwd, configFilePath);
+    return { path, name: slash(relative(cwd, path)) };
+  }
+
+  const configFileName = configFileNames.find((fileName) =>
+    existsSync(join(cwd, fileName))
+  );
+  if (configFileName) {
+    return { path: join(cwd, configFileName), name: configFileName };
+  }
+
+  const packageJsonPath = join(cwd, "package.json");
+  if (
+    existsSync(packageJsonPath) &&
+    packageJsonConfigKey in readJsonFile(packageJsonPath)
+  ) {
+    return {
+      path: packageJsonPath,
+      name: `package.json#${packageJsonConfigKey}`,
+    };
+  }
+}
+
+/**
+ * Load and validate a config file.
+ *
+ * TypeScript & ES modules are transpiled to CommonJS, so the config can be
+ * loaded synchronously (the config keys are needed to declare the cli flags).
+ *
+ * @param configFile
+ * @param isEsm `true` if the `.js` files are ES modules (`"type": "module"`)
+ * @throws If the file can't be loaded or the config is invalid
+ */
+export function loadConfig(
+  { path, name }: ConfigFile,
+  isEsm = false
+): TsToZodConfig {
+  if (!existsSync(path)) {
+    throw new Error(`"${name}" not found`);
+  }
+
+  const rawConfig = getRawConfig(path, isEsm);
+  const result = tsToZodConfigSchema.safeParse(rawConfig);
+  if (!result.success) {
+    throw new Error(
+      `"${name}" invalid:\n${formatConfigErrors(result.error, rawConfig)}`
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Get the local modules a config file depends on (`require("./emitter")`),
+ * the functions of the config can be defined in these modules.
+ *
+ * @param configFile
+ * @returns Absolute paths of the modules, without the `node_modules` ones
+ */
+export function getConfigDependencies({ path }: ConfigFile): string[] {
+  const dependencies = new Set<string>();
+
+  const visit = (filename: string) => {
+    const { importedFiles } = ts.preProcessFile(
+      readFileSync(filename, "utf-8"),
+      true,
+      true
+    );
+    const requireModule = Module.createRequire(filename);
+
+    importedFiles
+      .filter(({ fileName }) => fileName.startsWith("."))
+      .forEach(({ fileName }) => {
+        let dependency: string;
+        try {
+          dependency = requireModule.resolve(fileName);
+        } catch {
+          return;
+        }
+        if (
+          dependencies.has(dependency) ||
+          dependency.split(sep).includes("node_modules")
+        ) {
+          return;
+        }
+        dependencies.add(dependency);
+        visit(dependency);
+      });
+  };
+  visit(path);
+
+  return Array.from(dependencies);
+}
+
+/**
+ * Helper to type the config in `ts-to-zod.config.ts`.
+ *
+ * @example
+ *  export default defineConfig({
+ *    input: "src/heros.ts",
+ *    output: "src/heros.zod.ts",
+ *  });
+ */
+export function defineConfig<T extends TsToZodConfig>(config: T): T {
+  return config;
+}
+
+function getRawConfig(path: string, isEsm: boolean): unknown {
+  const { base, ext } = parse(path);
+
+  if (base === "package.json") {
+    return readJsonFile(path)[packageJsonConfigKey];
+  }
+  if (ext === ".json") {
+    return readJsonFile(path);
+  }
+  if (ext === ".cjs" || (ext === ".js" && !isEsm)) {
+    return Module.createRequire(path)(path);
+  }
+
+  // `.ts`, `.mts`, `.cts`, `.mjs` & ESM `.js`
+  const { outputText } = ts.transpileModule(readFileSync(path, "utf-8"), {
+    fileName: path,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      esModuleInterop: true,
+    },
+  });
+  const configModule: { exports: { default?: unknown } } = { exports: {} };
+  new Function(
+    "require",
+    "module",
+    "exports",
+    "__filename",
+    "__dirname",
+    outputText
+  )(
+    Module.createRequire(path),
+    configModule,
+    configModule.exports,
+    path,
+    dirname(path)
+  );
+
+  return "default" in configModule.exports
+    ? configModule.exports.default
+    : configModule.exports;
+}
+
+function readJsonFile(path: string): Record<string, unknown> {
+  return JSON.parse(readFileSync(path, "utf-8"));
+}
+
+/**
+ * Format the validation errors, one line per invalid key.
+ *
+ * @param error Validation error
+ * @param rawConfig Config validated, to only display the errors of the
+ *                  single/multiple configs union member
+ */
+function formatConfigErrors(error: ZodError, rawConfig: unknown) {
+  const issues = error.issues.flatMap((issue) =>
+    issue.code === "invalid_union"
+      ? issue.unionErrors[Array.isArray(rawConfig) ? 1 : 0].issues
+      : [issue]
+  );
+
+  return issues
+    .map(
+      ({ path, message }) =>
+        `  - ${path.length ? `${path.join(".")}: ` : ""}${message}`
+    )
+    .join("\n");
+}
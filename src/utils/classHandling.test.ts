@@ -0,0 +1,29 @@
+import ts from "typescript";
+import { classesToInterfaces } from "./classHandling";
+
+describe("classesToInterfaces", () => {
+  it("should replace classes by interfaces of their public properties", () => {
+    const sourceFile = ts.createSourceFile(
+      "index.ts",
+      `export class Superman extends Hero implements Flying {
+        static count = 0;
+        readonly name = "superman";
+        age?: number;
+        private secret: string;
+        constructor(public power: Power) { super(); }
+        fly() {}
+      }`,
+      ts.ScriptTarget.Latest
+    );
+
+    expect(ts.createPrinter().printFile(classesToInterfaces(sourceFile)))
+      .toMatchInlineSnapshot(`
+      "export interface Superman extends Hero {
+          readonly name: string;
+          age?: number;
+          power: Power;
+      }
+      "
+    `);
+  });
+});
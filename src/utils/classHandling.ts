@@ -0,0 +1,127 @@
+import ts, { factory as f } from "typescript";
+
+export type ClassProperty = (
+  | ts.PropertyDeclaration
+  | ts.ParameterDeclaration
+) & {
+  name: ts.Identifier | ts.StringLiteral | ts.NumericLiteral;
+};
+
+/**
+ * Get the public instance properties of a class, including the constructor
+ * parameter properties (`constructor(public name: string)`).
+ *
+ * Methods, accessors, static, `private`, `protected` and `#private` members are ignored.
+ *
+ * @param node
+ */
+export function getClassProperties(node: ts.ClassDeclaration): ClassProperty[] {
+  return node.members.flatMap<ClassProperty>((member) => {
+    if (ts.isConstructorDeclaration(member)) {
+      return member.parameters.filter(
+        (parameter) =>
+          ts.isParameterPropertyDeclaration(parameter, member) &&
+          isPublicProperty(parameter)
+      ) as ClassProperty[];
+    }
+    return ts.isPropertyDeclaration(member) && isPublicProperty(member)
+      ? [member as ClassProperty]
+      : [];
+  });
+}
+
+/**
+ * Get the type of a class property, inferred from its initializer if not annotated.
+ *
+ * ```ts
+ * class Hero { name = "superman"; } // string
+ * ```
+ *
+ * @returns The type node, `any` if the type can't be inferred
+ */
+export function getClassPropertyType(property: ClassProperty): ts.TypeNode {
+  if (property.type) return property.type;
+
+  const { initializer } = property;
+  if (
+    initializer &&
+    (ts.isStringLiteral(initializer) ||
+      ts.isNoSubstitutionTemplateLiteral(initializer))
+  ) {
+    return f.createKeywordTypeNode(ts.SyntaxKind.StringKeyword);
+  }
+  if (
+    initializer &&
+    (ts.isNumericLiteral(initializer) ||
+      (ts.isPrefixUnaryExpression(initializer) &&
+        ts.isNumericLiteral(initializer.operand)))
+  ) {
+    return f.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword);
+  }
+  if (
+    initializer?.kind === ts.SyntaxKind.TrueKeyword ||
+    initializer?.kind === ts.SyntaxKind.FalseKeyword
+  ) {
+    return f.createKeywordTypeNode(ts.SyntaxKind.BooleanKeyword);
+  }
+  return f.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword);
+}
+
+/**
+ * Replace the classes of a source file by interfaces of their public properties.
+ *
+ * Classes generated as `z.object()` are only compatible with their properties,
+ * not with the methods and private members of the original class.
+ *
+ * @param sourceFile
+ */
+export function classesToInterfaces(sourceFile: ts.SourceFile) {
+  const statements = sourceFile.statements.map((statement) => {
+    if (!ts.isClassDeclaration(statement) || !statement.name) return statement;
+
+    const heritageClauses = statement.heritageClauses?.filter(
+      (clause) => clause.token === ts.SyntaxKind.ExtendsKeyword
+    );
+
+    return f.createInterfaceDeclaration(
+      statement.modifiers?.filter(
+        (modifier) =>
+          modifier.kind === ts.SyntaxKind.ExportKeyword ||
+          modifier.kind === ts.SyntaxKind.DefaultKeyword
+      ),
+      statement.name,
+      statement.typeParameters,
+      heritageClauses?.length ? heritageClauses : undefined,
+      getClassProperties(statement).map((property) =>
+        f.createPropertySignature(
+          property.modifiers?.some(
+            (modifier) => modifier.kind === ts.SyntaxKind.ReadonlyKeyword
+          )
+            ? [f.createModifier(ts.SyntaxKind.ReadonlyKeyword)]
+            : undefined,
+          property.name,
+          property.questionToken,
+          getClassPropertyType(property)
+        )
+      )
+    );
+  });
+
+  return f.updateSourceFile(sourceFile, statements);
+}
+
+function isPublicProperty(
+  member: ts.PropertyDeclaration | ts.ParameterDeclaration
+) {
+  return (
+    (ts.isIdentifier(member.name) ||
+      ts.isStringLiteral(member.name) ||
+      ts.isNumericLiteral(member.name)) &&
+    !member.modifiers?.some(
+      (modifier) =>
+        modifier.kind === ts.SyntaxKind.PrivateKeyword ||
+        modifier.kind === ts.SyntaxKind.ProtectedKeyword ||
+        modifier.kind === ts.SyntaxKind.StaticKeyword
+    )
+  );
+}
@@ -0,0 +1,59 @@
+import ts from "typescript";
+import {
+  findConstInitializer,
+  getConstValue,
+  getObjectLiteralKeys,
+  unwrapConstAssertion,
+} from "./constValues";
+
+describe("constValues", () => {
+  const getInitializer = (sourceText: string) => {
+    const sourceFile = ts.createSourceFile(
+      "index.ts",
+      sourceText,
+      ts.ScriptTarget.Latest
+    );
+    const initializer = findConstInitializer(sourceFile, "HERO");
+    if (!initializer) throw new Error("No `HERO` const found!");
+    return initializer;
+  };
+
+  it("should evaluate an `as const` initializer", () => {
+    const initializer = getInitializer(
+      `export const HERO = { name: "superman", powers: ["fly", -1, true, null] } as const;`
+    );
+    const expression = unwrapConstAssertion(initializer);
+
+    expect(expression && getConstValue(expression)).toEqual({
+      name: "superman",
+      powers: ["fly", -1, true, null],
+    });
+  });
+
+  it("should not unwrap an initializer without `as const`", () => {
+    expect(
+      unwrapConstAssertion(getInitializer(`const HERO = ["superman"];`))
+    ).toBeUndefined();
+  });
+
+  it("should not evaluate non-literal values", () => {
+    const initializer = getInitializer(
+      `const HERO = { name: getName() } as const;`
+    );
+    const expression = unwrapConstAssertion(initializer);
+
+    expect(expression && getConstValue(expression)).toBeUndefined();
+  });
+
+  it("should get the keys of an object literal", () => {
+    expect(
+      getObjectLiteralKeys(
+        getInitializer(`const HERO = { name, "super-power": 1, 42: true };`)
+      )
+    ).toEqual(["name", "super-power", 42]);
+  });
+
+  it("should ignore `let` declarations", () => {
+    expect(() => getInitializer(`let HERO = "superman";`)).toThrow();
+  });
+});
@@ -0,0 +1,152 @@
+import ts from "typescript";
+import { findNode } from "./findNode";
+
+export type ConstValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ConstValue[]
+  | { [key: string]: ConstValue };
+
+/**
+ * Find the initializer of a `const` variable declared in a source file.
+ *
+ * @param sourceFile
+ * @param name Name of the variable
+ */
+export function findConstInitializer(
+  sourceFile: ts.SourceFile,
+  name: string
+): ts.Expression | undefined {
+  const statement = findNode(
+    sourceFile,
+    (n): n is ts.VariableStatement =>
+      ts.isVariableStatement(n) &&
+      Boolean(n.declarationList.flags & ts.NodeFlags.Const) &&
+      n.declarationList.declarations.some(
+        (d) => ts.isIdentifier(d.name) && d.name.text === name
+      )
+  );
+
+  return statement?.declarationList.declarations.find(
+    (d) => ts.isIdentifier(d.name) && d.name.text === name
+  )?.initializer;
+}
+
+/**
+ * Unwrap `as const` (and `satisfies`) assertions of an expression.
+ *
+ * @returns The asserted expression, `undefined` without `as const`
+ */
+export function unwrapConstAssertion(
+  expression: ts.Expression
+): ts.Expression | undefined {
+  if (
+    ts.isSatisfiesExpression(expression) ||
+    ts.isParenthesizedExpression(expression)
+  ) {
+    return unwrapConstAssertion(expression.expression);
+  }
+  if (
+    ts.isAsExpression(expression) &&
+    ts.isTypeReferenceNode(expression.type) &&
+    ts.isIdentifier(expression.type.typeName) &&
+    expression.type.typeName.text === "const"
+  ) {
+    return expression.expression;
+  }
+}
+
+/**
+ * Evaluate a literal expression (`as const` initializer).
+ *
+ * @returns The value, `undefined` if the expression is not a literal
+ */
+export function getConstValue(
+  expression: ts.Expression
+): ConstValue | undefined {
+  if (
+    ts.isStringLiteral(expression) ||
+    ts.isNoSubstitutionTemplateLiteral(expression)
+  ) {
+    return expression.text;
+  }
+  if (ts.isNumericLiteral(expression)) {
+    return Number(expression.text);
+  }
+  if (
+    ts.isPrefixUnaryExpression(expression) &&
+    expression.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(expression.operand)
+  ) {
+    return -Number(expression.operand.text);
+  }
+  if (expression.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (expression.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (expression.kind === ts.SyntaxKind.NullKeyword) return null;
+  if (
+    ts.isParenthesizedExpression(expression) ||
+    ts.isSatisfiesExpression(expression)
+  ) {
+    return getConstValue(expression.expression);
+  }
+
+  if (ts.isArrayLiteralExpression(expression)) {
+    const values = expression.elements.map(getConstValue);
+    return values.every(isDefined) ? values : undefined;
+  }
+
+  if (ts.isObjectLiteralExpression(expression)) {
+    const entries = expression.properties.map((property) => {
+      if (!ts.isPropertyAssignment(property)) return;
+      const key = getPropertyKey(property.name);
+      const value = getConstValue(property.initializer);
+      return key !== undefined && value !== undefined
+        ? ([key, value] as const)
+        : undefined;
+    });
+    return entries.every(isDefined) ? Object.fromEntries(entries) : undefined;
+  }
+}
+
+/**
+ * Get the keys of an object literal expression.
+ *
+ * @returns The keys (numeric keys as numbers), `undefined` if a key is computed
+ */
+export function getObjectLiteralKeys(
+  expression: ts.Expression
+): Array<string | number> | undefined {
+  const unwrapped = unwrapConstAssertion(expression) ?? expression;
+  if (!ts.isObjectLiteralExpression(unwrapped)) return;
+
+  const keys = unwrapped.properties.map((property) => {
+    if (
+      !ts.isPropertyAssignment(property) &&
+      !ts.isShorthandPropertyAssignment(property) &&
+      !ts.isMethodDeclaration(property)
+    ) {
+      return;
+    }
+    return ts.isNumericLiteral(property.name)
+      ? Number(property.name.text)
+      : getPropertyKey(property.name);
+  });
+
+  return keys.every(isDefined) ? keys : undefined;
+}
+
+function getPropertyKey(name: ts.PropertyName) {
+  if (
+    ts.isIdentifier(name) ||
+    ts.isStringLiteral(name) ||
+    ts.isNumericLiteral(name)
+  ) {
+    return name.text;
+  }
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+  return value !== undefined;
+}
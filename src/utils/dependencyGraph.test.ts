@@ -0,0 +1,66 @@
+import { getImportedInputs, getInputsToRegenerate } from "./dependencyGraph";
+
+describe("getImportedInputs", () => {
+  it("should return the imported inputs", () => {
+    const sourceText = `
+      import { Villain } from "./villain";
+      import type { Power } from "../powers/power.ts";
+      import { z } from "zod";
+
+      export interface Hero {
+        enemy: Villain;
+        powers: Power[];
+      }`;
+
+    expect(
+      getImportedInputs(sourceText, "src/heroes/hero.ts", [
+        "src/heroes/hero.ts",
+        "src/heroes/villain.ts",
+        "src/powers/power.ts",
+        "src/planets/planet.ts",
+      ])
+    ).toEqual(["src/heroes/villain.ts", "src/powers/power.ts"]);
+  });
+});
+
+describe("getInputsToRegenerate", () => {
+  // hero -> villain -> power, planet
+  const dependencies = new Map([
+    ["hero.ts", ["villain.ts"]],
+    ["villain.ts", ["power.ts"]],
+    ["power.ts", []],
+    ["planet.ts", []],
+  ]);
+
+  it("should return the changed input and its dependents, dependencies first", () => {
+    expect(getInputsToRegenerate(dependencies, ["power.ts"])).toEqual([
+      "power.ts",
+      "villain.ts",
+      "hero.ts",
+    ]);
+  });
+
+  it("should only return the changed input without dependents", () => {
+    expect(getInputsToRegenerate(dependencies, ["hero.ts"])).toEqual([
+      "hero.ts",
+    ]);
+  });
+
+  it("should handle multiple changes", () => {
+    expect(
+      getInputsToRegenerate(dependencies, ["hero.ts", "planet.ts", "power.ts"])
+    ).toEqual(["power.ts", "villain.ts", "hero.ts", "planet.ts"]);
+  });
+
+  it("should handle circular dependencies", () => {
+    const circularDependencies = new Map([
+      ["hero.ts", ["villain.ts"]],
+      ["villain.ts", ["hero.ts"]],
+    ]);
+
+    expect(getInputsToRegenerate(circularDependencies, ["hero.ts"])).toEqual([
+      "villain.ts",
+      "hero.ts",
+    ]);
+  });
+});
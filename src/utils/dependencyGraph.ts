@@ -0,0 +1,79 @@
+import ts from "typescript";
+import {
+  areImportPathsEqualIgnoringExtension,
+  getImportPath,
+} from "./getImportPath";
+
+/**
+ * Find the mapped inputs imported by a source file.
+ *
+ * @param sourceText Content of the source file
+ * @param inputPath Path of the source file
+ * @param inputs Paths of the mapped inputs
+ * @returns The imported inputs
+ */
+export function getImportedInputs(
+  sourceText: string,
+  inputPath: string,
+  inputs: string[]
+) {
+  const { importedFiles } = ts.preProcessFile(sourceText);
+
+  return inputs.filter((input) =>
+    importedFiles.some(({ fileName }) =>
+      areImportPathsEqualIgnoringExtension(
+        getImportPath(inputPath, input),
+        fileName
+      )
+    )
+  );
+}
+
+/**
+ * Get the inputs to regenerate after some changes: the changed inputs and
+ * their dependents (direct or not), dependencies first.
+ *
+ * @param dependencies Imported inputs, by input
+ * @param changedInputs Changed inputs
+ */
+export function getInputsToRegenerate(
+  dependencies: Map<string, string[]>,
+  changedInputs: string[]
+) {
+  const dependents = new Map<string, string[]>();
+  dependencies.forEach((imports, input) =>
+    imports.forEach((dependency) =>
+      dependents.set(dependency, [...(dependents.get(dependency) ?? []), input])
+    )
+  );
+
+  const affectedInputs = new Set<string>();
+  const queue = [...changedInputs];
+  while (queue.length) {
+    const input = queue.shift() as string;
+    if (affectedInputs.has(input)) continue;
+    affectedInputs.add(input);
+    queue.push(...(dependents.get(input) ?? []));
+  }
+
+  // Topological sort, circular dependencies are kept in the inputs order
+  const sortedInputs: string[] = [];
+  const visited = new Set<string>();
+  const visit = (input: string) => {
+    if (visited.has(input)) return;
+    visited.add(input);
+    (dependencies.get(input) ?? [])
+      .filter(
+        (dependency) =>
+          dependencies.has(dependency) && affectedInputs.has(dependency)
+      )
+      .forEach(visit);
+    sortedInputs.push(input);
+  };
+
+  Array.from(dependencies.keys())
+    .filter((input) => affectedInputs.has(input))
+    .forEach(visit);
+
+  return sortedInputs;
+}
@@ -0,0 +1,37 @@
+import ts from "typescript";
+import { findNode } from "./findNode";
+import { getEnumMemberValues } from "./enumHandling";
+
+describe("getEnumMemberValues", () => {
+  const getValues = (sourceText: string) => {
+    const sourceFile = ts.createSourceFile(
+      "index.ts",
+      sourceText,
+      ts.ScriptTarget.Latest
+    );
+    const declaration = findNode(sourceFile, ts.isEnumDeclaration);
+    if (!declaration) throw new Error("No `enum` found!");
+    return getEnumMemberValues(declaration);
+  };
+
+  it("should return string values", () => {
+    expect(
+      getValues(`enum Superhero { Superman = "superman", Batman = 'batman' }`)
+    ).toEqual(["superman", "batman"]);
+  });
+
+  it("should auto-increment numeric values", () => {
+    expect(getValues(`enum Power { Fly, Laser = 5, Invisibility }`)).toEqual([
+      0, 5, 6,
+    ]);
+  });
+
+  it("should return negative values", () => {
+    expect(getValues(`enum Power { Weakness = -1, Fly }`)).toEqual([-1, 0]);
+  });
+
+  it("should return undefined for computed values", () => {
+    expect(getValues(`enum Power { Fly = "fly".length }`)).toBeUndefined();
+    expect(getValues(`enum Power { Fly = "fly", Laser }`)).toBeUndefined();
+  });
+});
@@ -0,0 +1,123 @@
+import ts, { factory as f } from "typescript";
+
+export type EnumMemberValue = string | number;
+
+/**
+ * Get the values of the members of an enum.
+ *
+ * Members without initializer are auto-incremented from the previous numeric value.
+ *
+ * @returns Values of the members, `undefined` if one of them is computed
+ */
+export function getEnumMemberValues(
+  node: ts.EnumDeclaration
+): EnumMemberValue[] | undefined {
+  const values: EnumMemberValue[] = [];
+  let nextValue: number | undefined = 0;
+
+  for (const member of node.members) {
+    const { initializer } = member;
+    let value: EnumMemberValue | undefined;
+
+    if (!initializer) {
+      value = nextValue;
+    } else if (
+      ts.isStringLiteral(initializer) ||
+      ts.isNoSubstitutionTemplateLiteral(initializer)
+    ) {
+      value = initializer.text;
+    } else if (ts.isNumericLiteral(initializer)) {
+      value = Number(initializer.text);
+    } else if (
+      ts.isPrefixUnaryExpression(initializer) &&
+      initializer.operator === ts.SyntaxKind.MinusToken &&
+      ts.isNumericLiteral(initializer.operand)
+    ) {
+      value = -Number(initializer.operand.text);
+    }
+
+    if (value === undefined) return;
+
+    values.push(value);
+    nextValue = typeof value === "number" ? value + 1 : undefined;
+  }
+
+  return values;
+}
+
+/**
+ * Replace the enums of a source file by type aliases of their values.
+ *
+ * Enums generated as literal schemas (see `enumStyle`) are only compatible
+ * with their values, not with the original enum type: the validation is done
+ * against the values, the string enums mismatch is a generation warning.
+ *
+ * ```ts
+ * enum Superhero { Superman = "superman" }
+ * // becomes
+ * type Superhero = "superman";
+ * declare namespace Superhero { type Superman = "superman"; }
+ * ```
+ *
+ * @param sourceFile
+ */
+export function enumsToLiteralTypes(sourceFile: ts.SourceFile) {
+  const statements = sourceFile.statements.flatMap((statement) => {
+    if (!ts.isEnumDeclaration(statement)) return [statement];
+
+    const values = getEnumMemberValues(statement);
+    if (!values) return [statement];
+
+    const modifiers = statement.modifiers?.filter(
+      (modifier) =>
+        modifier.kind !== ts.SyntaxKind.ConstKeyword &&
+        modifier.kind !== ts.SyntaxKind.DeclareKeyword
+    );
+
+    return [
+      f.createTypeAliasDeclaration(
+        modifiers,
+        statement.name,
+        undefined,
+        values.length
+          ? f.createUnionTypeNode(values.map(createLiteralTypeNode))
+          : f.createKeywordTypeNode(ts.SyntaxKind.NeverKeyword)
+      ),
+      f.createModuleDeclaration(
+        [...(modifiers ?? []), f.createModifier(ts.SyntaxKind.DeclareKeyword)],
+        statement.name,
+        f.createModuleBlock(
+          statement.members.flatMap(({ name }, i) =>
+            ts.isIdentifier(name)
+              ? [
+                  f.createTypeAliasDeclaration(
+                    [f.createModifier(ts.SyntaxKind.ExportKeyword)],
+                    name.text,
+                    undefined,
+                    createLiteralTypeNode(values[i])
+                  ),
+                ]
+              : []
+          )
+        ),
+        ts.NodeFlags.Namespace
+      ),
+    ];
+  });
+
+  return f.updateSourceFile(sourceFile, statements);
+}
+
+function createLiteralTypeNode(value: EnumMemberValue) {
+  if (typeof value === "string") {
+    return f.createLiteralTypeNode(f.createStringLiteral(value));
+  }
+  return f.createLiteralTypeNode(
+    value < 0
+      ? f.createPrefixUnaryExpression(
+          ts.SyntaxKind.MinusToken,
+          f.createNumericLiteral(Math.abs(value))
+        )
+      : f.createNumericLiteral(value)
+  );
+}
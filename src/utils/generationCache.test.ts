@@ -0,0 +1,68 @@
+import { outputFileSync, removeSync } from "fs-extra";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getCacheEntryPath,
+  getCacheKey,
+  isCacheUpToDate,
+  writeCacheEntry,
+} from "./generationCache";
+
+describe("getCacheKey", () => {
+  it("should return the same key for the same inputs", () => {
+    expect(getCacheKey({ sourceText: "type A = string;" })).toBe(
+      getCacheKey({ sourceText: "type A = string;" })
+    );
+  });
+
+  it("should hash the source of the functions", () => {
+    expect(
+      getCacheKey({ getSchemaName: (id: string) => `${id}Schema` })
+    ).not.toBe(getCacheKey({ getSchemaName: (id: string) => `${id}Zod` }));
+  });
+});
+
+describe("isCacheUpToDate", () => {
+  let root: string;
+  let entryPath: string;
+  let outputPath: string;
+
+  beforeEach(async () => {
+    root = mkdtempSync(join(tmpdir(), "ts-to-zod-"));
+    outputPath = join(root, "hero.zod.ts");
+    entryPath = getCacheEntryPath(join(root, ".cache"), outputPath);
+
+    const content = "export const heroSchema = z.object({});\n";
+    outputFileSync(outputPath, content);
+    await writeCacheEntry(entryPath, "key", [{ path: outputPath, content }]);
+  });
+
+  afterEach(() => {
+    removeSync(root);
+  });
+
+  it("should be up to date with the same key", async () => {
+    expect(await isCacheUpToDate(entryPath, "key")).toBe(true);
+  });
+
+  it("should not be up to date with another key", async () => {
+    expect(await isCacheUpToDate(entryPath, "another key")).toBe(false);
+  });
+
+  it("should not be up to date if a generated file changed", async () => {
+    outputFileSync(outputPath, "// edited\n");
+    expect(await isCacheUpToDate(entryPath, "key")).toBe(false);
+  });
+
+  it("should not be up to date if a generated file is missing", async () => {
+    removeSync(outputPath);
+    expect(await isCacheUpToDate(entryPath, "key")).toBe(false);
+  });
+
+  it("should not be up to date without cache entry", async () => {
+    expect(
+      await isCacheUpToDate(join(root, ".cache", "missing.json"), "key")
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { createHash } from "crypto";
+import { existsSync, outputJson, readFile, readJson } from "fs-extra";
+import { join } from "path";
+
+/**
+ * Default location of the cache, relative to the current working directory.
+ */
+export const cacheDirectory = join("node_modules", ".cache", "ts-to-zod");
+
+type CacheEntry = {
+  /**
+   * Hash of the generation inputs
+   */
+  key: string;
+
+  /**
+   * Hash of the generated files, by path
+   */
+  files: Record<string, string>;
+};
+
+function hash(value: string) {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Compute the cache key of a generation.
+ *
+ * Functions (`getSchemaName`, `nameFilter`…) are hashed with their source.
+ *
+ * @param inputs Everything the generated files depend on (source text, options, version…)
+ */
+export function getCacheKey(inputs: Record<string, unknown>) {
+  return hash(
+    JSON.stringify(inputs, (_, value) =>
+      typeof value === "function" ? value.toString() : value
+    )
+  );
+}
+
+/**
+ * Get the path of the cache entry of an output file.
+ *
+ * @param directory Cache directory
+ * @param outputPath Path of the generated zod schemas
+ */
+export function getCacheEntryPath(directory: string, outputPath: string) {
+  return join(directory, `${hash(outputPath).slice(0, 16)}.json`);
+}
+
+/**
+ * Check if the generated files are up to date: the cache key didn't change
+ * and the files on disk are still the generated ones.
+ *
+ * @param entryPath Path of the cache entry
+ * @param key Cache key of the current generation
+ */
+export async function isCacheUpToDate(entryPath: string, key: string) {
+  if (!existsSync(entryPath)) return false;
+
+  let entry: CacheEntry;
+  try {
+    entry = await readJson(entryPath);
+  } catch {
+    return false;
+  }
+  if (entry.key !== key) return false;
+
+  for (const [path, fileHash] of Object.entries(entry.files)) {
+    if (!existsSync(path) || hash(await readFile(path, "utf-8")) !== fileHash) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Save the cache entry of a generation.
+ *
+ * @param entryPath Path of the cache entry
+ * @param key Cache key of the generation
+ * @param files Generated files
+ */
+export async function writeCacheEntry(
+  entryPath: string,
+  key: string,
+  files: Array<{ path: string; content: string }>
+) {
+  const entry: CacheEntry = {
+    key,
+    files: Object.fromEntries(
+      files.map(({ path, content }) => [path, hash(content)])
+    ),
+  };
+  await outputJson(entryPath, entry);
+}
@@ -1,6 +1,7 @@
 import {
   areImportPathsEqualIgnoringExtension,
   getImportPath,
+  getSourceRelativeImportPath,
 } from "./getImportPath";
 
 describe("getImportPath", () => {
@@ -27,6 +28,26 @@ describe("getImportPath", () => {
   });
 });
 
+describe("getSourceRelativeImportPath", () => {
+  it("should resolve a relative path from the source file directory", () => {
+    expect(getSourceRelativeImportPath("./types/article", "./validators")).toBe(
+      "./types/validators"
+    );
+    expect(
+      getSourceRelativeImportPath("./../types/article", "../validators")
+    ).toBe("../validators");
+    expect(getSourceRelativeImportPath("./article", "./validators")).toBe(
+      "./validators"
+    );
+  });
+
+  it("should keep package imports", () => {
+    expect(getSourceRelativeImportPath("./../types/article", "validator")).toBe(
+      "validator"
+    );
+  });
+});
+
 describe("areImportPathsEqualIgnoringExtension", () => {
   it("should return true for the same path", () => {
     expect(
@@ -1,5 +1,5 @@
 import slash from "slash";
-import { join, normalize, parse, relative } from "path";
+import { dirname, join, normalize, parse, relative } from "path";
 
 /**
  * Resolve the path of an import.
@@ -15,6 +15,24 @@ export function getImportPath(from: string, to: string) {
   return `${dir}/${name}`;
 }
 
+/**
+ * Resolve an import of the source file, from a file importing the source file.
+ *
+ * @param sourceImportPath import path of the source file
+ * @param path import path, relative to the source file
+ * @returns import path, relative to the importing file
+ */
+export function getSourceRelativeImportPath(
+  sourceImportPath: string,
+  path: string
+) {
+  // Package import
+  if (!path.startsWith(".")) return path;
+
+  const importPath = slash(join(dirname(sourceImportPath), path));
+  return importPath.startsWith(".") ? importPath : `./${importPath}`;
+}
+
 export function areImportPathsEqualIgnoringExtension(
   path1: string,
   path2: string
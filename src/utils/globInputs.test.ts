@@ -0,0 +1,112 @@
+import { outputFileSync, removeSync } from "fs-extra";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { expandGlobConfig, getBarrelFile, isGlobInput } from "./globInputs";
+
+describe("globInputs", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "ts-to-zod-"));
+    outputFileSync(join(root, "src/types/hero.ts"), "");
+    outputFileSync(join(root, "src/types/hero.zod.ts"), "");
+    outputFileSync(join(root, "src/types/villains/villain.ts"), "");
+    outputFileSync(join(root, "src/types/villains/villain.d.ts"), "");
+    outputFileSync(join(root, "src/types/index.ts"), "");
+  });
+
+  afterEach(() => {
+    removeSync(root);
+  });
+
+  describe("isGlobInput", () => {
+    it("should detect glob patterns and directories", () => {
+      expect(isGlobInput("src/types/**/*.ts", root)).toBe(true);
+      expect(isGlobInput("src/types", root)).toBe(true);
+      expect(isGlobInput("src/types/hero.ts", root)).toBe(false);
+    });
+  });
+
+  describe("expandGlobConfig", () => {
+    it("should expand a glob with an output pattern", () => {
+      expect(
+        expandGlobConfig(
+          {
+            input: "src/types/**/*.ts",
+            output: "{dir}/{name}.zod.ts",
+            inferredTypes: "{dir}/{name}.types.ts",
+            barrelOutput: "src/types/index.ts",
+          },
+          root
+        )
+      ).toEqual([
+        {
+          input: "src/types/hero.ts",
+          output: "src/types/hero.zod.ts",
+          inferredTypes: "src/types/hero.types.ts",
+        },
+        {
+          input: "src/types/villains/villain.ts",
+          output: "src/types/villains/villain.zod.ts",
+          inferredTypes: "src/types/villains/villain.types.ts",
+        },
+      ]);
+    });
+
+    it("should mirror a directory input in an output directory", () => {
+      expect(
+        expandGlobConfig(
+          { input: "src/types/villains", output: "src/schemas" },
+          root
+        )
+      ).toEqual([
+        {
+          input: "src/types/villains/villain.ts",
+          output: "src/schemas/villain.ts",
+        },
+      ]);
+    });
+
+    it("should throw if a derived path has no placeholder", () => {
+      expect(() =>
+        expandGlobConfig(
+          {
+            input: "src/types/*.ts",
+            output: "{dir}/{name}.zod.ts",
+            jsonSchemaOutput: "schemas.json",
+          },
+          root
+        )
+      ).toThrowErrorMatchingInlineSnapshot(
+        `""jsonSchemaOutput" must contain a {dir} or {name} placeholder with a glob input"`
+      );
+    });
+
+    it("should throw if the glob uses braces or brackets", () => {
+      expect(() =>
+        expandGlobConfig(
+          { input: "src/types/**/*.{ts,tsx}", output: "{dir}/{name}.zod.ts" },
+          root
+        )
+      ).toThrowErrorMatchingInlineSnapshot(
+        `""src/types/**/*.{ts,tsx}" is not supported, only the "*", "?" and "**" wildcards can be used in a glob input (the ".ts" & ".tsx" files are the only inputs)"`
+      );
+    });
+  });
+
+  describe("getBarrelFile", () => {
+    it("should re-export all the schemas", () => {
+      expect(
+        getBarrelFile("src/index.ts", [
+          "src/types/hero.zod.ts",
+          "src/types/villains/villain.zod.ts",
+        ])
+      ).toMatchInlineSnapshot(`
+        "export * from "./types/hero.zod";
+        export * from "./types/villains/villain.zod";
+        "
+      `);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { existsSync, statSync } from "fs";
+import { join, parse, relative } from "path";
+import slash from "slash";
+import ts from "typescript";
+import { Config } from "../config";
+import { getImportPath } from "./getImportPath";
+
+const globCharacters = /[*?[\]{}]/;
+
+/**
+ * Glob syntax not supported by `ts.sys.readDirectory` (only `*`, `?` & `**` are).
+ */
+const unsupportedGlobCharacters = /[[\]{}]/;
+
+/**
+ * Config options with a path derived from each input file.
+ */
+const derivedPathKeys = [
+  "output",
+  "inferredTypes",
+  "jsonSchemaOutput",
+  "openApiOutput",
+] as const;
+
+/**
+ * Check if an input is a glob pattern or a directory.
+ *
+ * @param input Input path, relative to `cwd`
+ * @param cwd Current working directory
+ */
+export function isGlobInput(input: string, cwd: string) {
+  if (globCharacters.test(input)) return true;
+
+  const path = join(cwd, input);
+  return existsSync(path) && statSync(path).isDirectory();
+}
+
+/**
+ * Expand a config with a glob/directory input to one config per source file.
+ *
+ * The derived paths (`output`, `inferredTypes`, `jsonSchemaOutput` & `openApiOutput`)
+ * are patterns with `{dir}` (directory of the source file) and `{name}` (file name
+ * without extension) placeholders. An `output` without placeholder is a directory
+ * mirroring the input tree.
+ *
+ * Generated files matching the glob are not considered as inputs.
+ *
+ * @param config Config with a glob/directory input
+ * @param cwd Current working directory
+ * @returns Configs with paths relative to `cwd`, sorted by input
+ * @throws If the glob uses braces or brackets (`*.{ts,tsx}`), only `*`, `?` & `**` are supported
+ */
+export function expandGlobConfig<T extends Config>(
+  config: T,
+  cwd: string
+): Array<Omit<T, "barrelOutput">> {
+  const { barrelOutput, ...fileConfig } = config;
+
+  if (unsupportedGlobCharacters.test(config.input)) {
+    throw new Error(
+      `"${config.input}" is not supported, only the "*", "?" and "**" wildcards can be used in a glob input (the ".ts" & ".tsx" files are the only inputs)`
+    );
+  }
+
+  derivedPathKeys.slice(1).forEach((key) => {
+    const path = config[key];
+    if (path && !hasPlaceholders(path)) {
+      throw new Error(
+        `"${key}" must contain a {dir} or {name} placeholder with a glob input`
+      );
+    }
+  });
+
+  const rootDir = getGlobRoot(config.input);
+  const include = globCharacters.test(config.input)
+    ? config.input
+    : join(config.input, "**/*");
+
+  const inputs = ts.sys
+    .readDirectory(join(cwd, rootDir), [".ts", ".tsx"], undefined, [
+      slash(join(cwd, include)),
+    ])
+    .map((path) => slash(relative(cwd, path)))
+    .filter((input) => !input.endsWith(".d.ts"))
+    .sort();
+
+  const configs = inputs.map((input) => {
+    const expandedConfig = { ...fileConfig, input };
+    derivedPathKeys.forEach((key) => {
+      const path = config[key];
+      if (path) {
+        expandedConfig[key] = getDerivedPath(path, input, rootDir);
+      }
+    });
+    return expandedConfig;
+  });
+
+  const generatedFiles = new Set(
+    configs.flatMap((c) => derivedPathKeys.map((key) => c[key]))
+  );
+  if (barrelOutput) {
+    generatedFiles.add(slash(join(barrelOutput)));
+  }
+
+  return configs.filter((c) => !generatedFiles.has(c.input));
+}
+
+/**
+ * Generate an `index.ts` re-exporting all the generated schemas.
+ *
+ * @param barrelOutput Path of the barrel file
+ * @param outputs Paths of the generated schemas files
+ */
+export function getBarrelFile(barrelOutput: string, outputs: string[]) {
+  return outputs
+    .map(
+      (output) => `export * from "${getImportPath(barrelOutput, output)}";\n`
+    )
+    .join("");
+}
+
+function hasPlaceholders(path: string) {
+  return path.includes("{dir}") || path.includes("{name}");
+}
+
+/**
+ * Non-glob leading directories of a glob/directory input.
+ *
+ * @example
+ *  getGlobRoot("src/types/**\/*.ts") // "src/types"
+ */
+function getGlobRoot(input: string) {
+  const segments = slash(input).split("/");
+  const globIndex = segments.findIndex((segment) =>
+    globCharacters.test(segment)
+  );
+  return globIndex === -1
+    ? slash(join(input))
+    : segments.slice(0, globIndex).join("/") || ".";
+}
+
+function getDerivedPath(path: string, input: string, rootDir: string) {
+  const { dir, name } = parse(input);
+
+  if (!hasPlaceholders(path)) {
+    // Output directory mirroring the input tree
+    return slash(join(path, relative(rootDir, input)));
+  }
+
+  return slash(
+    join(path.replace(/\{dir\}/g, dir || ".").replace(/\{name\}/g, name))
+  );
+}
@@ -0,0 +1,169 @@
+import { outputFileSync, removeSync } from "fs-extra";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { inlineImportedTypes } from "./inlineImportedTypes";
+
+describe("inlineImportedTypes", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "ts-to-zod-"));
+    outputFileSync(
+      join(root, "tsconfig.json"),
+      JSON.stringify({
+        compilerOptions: {
+          strict: true,
+          baseUrl: ".",
+          paths: { "@models/*": ["models/*"] },
+        },
+      })
+    );
+  });
+
+  afterEach(() => {
+    removeSync(root);
+  });
+
+  it("should inline a relative import", () => {
+    outputFileSync(
+      join(root, "villain.ts"),
+      `/**
+ * A villain
+ */
+export interface Villain {
+  name: string;
+}`
+    );
+    outputFileSync(
+      join(root, "hero.ts"),
+      `import { Villain } from "./villain";
+
+export interface Hero {
+  nemesis: Villain;
+}
+`
+    );
+
+    expect(inlineImportedTypes({ inputPath: join(root, "hero.ts") }).sourceText)
+      .toMatchInlineSnapshot(`
+      "export interface Hero {
+        nemesis: Villain;
+      }
+
+      /**
+       * A villain
+       */
+      export interface Villain {
+        name: string;
+      }
+      "
+    `);
+  });
+
+  it("should inline transitive references, through aliases and barrels", () => {
+    outputFileSync(
+      join(root, "models/power.ts"),
+      `export type Power = "fly" | "laser";`
+    );
+    outputFileSync(
+      join(root, "models/villain.ts"),
+      `import { Power as SuperPower } from "./power";
+
+export interface Villain {
+  powers: SuperPower[];
+}`
+    );
+    outputFileSync(join(root, "models/index.ts"), `export * from "./villain";`);
+    outputFileSync(
+      join(root, "hero.ts"),
+      `import { Villain as Enemy } from "@models/index";
+
+export interface Hero {
+  nemesis: Enemy;
+}
+`
+    );
+
+    const { sourceText, inlinedImports } = inlineImportedTypes({
+      inputPath: join(root, "hero.ts"),
+    });
+
+    expect(sourceText).toMatchInlineSnapshot(`
+      "export interface Hero {
+        nemesis: Enemy;
+      }
+
+      export interface Enemy {
+        powers: SuperPower[];
+      }
+
+      export type SuperPower = "fly" | "laser";
+      "
+    `);
+    expect(inlinedImports).toEqual([
+      { name: "Enemy", original: "Villain", from: "./models/villain" },
+      { name: "SuperPower", original: "Power", from: "./models/power" },
+    ]);
+  });
+
+  it("should inline enums and keep imports of mapped files and external libraries", () => {
+    outputFileSync(
+      join(root, "node_modules/@3rdparty/person/index.d.ts"),
+      `export interface Person { name: string }`
+    );
+    outputFileSync(
+      join(root, "person.ts"),
+      `export interface Citizen { name: string }`
+    );
+    outputFileSync(join(root, "power.ts"), `export enum Power { Fly = "fly" }`);
+    outputFileSync(
+      join(root, "villain.ts"),
+      `import { Person } from "@3rdparty/person";
+import { Citizen } from "./person";
+import { Power } from "./power";
+
+export interface Villain {
+  person: Person;
+  victim: Citizen;
+  power: Power;
+}`
+    );
+    outputFileSync(
+      join(root, "hero.ts"),
+      `import { Person } from "@3rdparty/person";
+import { Citizen } from "./person";
+import { Villain } from "./villain";
+
+export interface Hero {
+  person: Person;
+  nemesis: Villain;
+}
+`
+    );
+
+    expect(
+      inlineImportedTypes({
+        inputPath: join(root, "hero.ts"),
+        isMappedFile: (fileName) => fileName === join(root, "person.ts"),
+      }).sourceText
+    ).toMatchInlineSnapshot(`
+      "import { Person } from "@3rdparty/person";
+      import { Citizen } from "./person";
+
+      export interface Hero {
+        person: Person;
+        nemesis: Villain;
+      }
+
+      export interface Villain {
+        person: Person;
+        victim: Citizen;
+        power: Power;
+      }
+
+      export enum Power { Fly = "fly" }
+      "
+    `);
+  });
+});
@@ -0,0 +1,418 @@
+import { dirname } from "path";
+import ts from "typescript";
+import { getImportPath } from "./getImportPath";
+import { ImportIdentifier, getImportIdentifiers } from "./importHandling";
+
+type InlinableDeclaration =
+  | ts.InterfaceDeclaration
+  | ts.TypeAliasDeclaration
+  | ts.EnumDeclaration;
+
+type TextEdit = { start: number; end: number; text: string };
+
+export interface InlineImportedTypesProps {
+  /**
+   * Absolute path of the typescript source file.
+   */
+  inputPath: string;
+
+  /**
+   * Absolute path of the `tsconfig.json` to use.
+   *
+   * @default closest `tsconfig.json` from `inputPath`
+   */
+  tsConfigPath?: string;
+
+  /**
+   * Files with their own zod schemas (`inputOutputMappings`), their
+   * declarations are imported instead of being inlined.
+   */
+  isMappedFile?: (fileName: string) => boolean;
+}
+
+/**
+ * Exported declaration inlined from another file.
+ */
+export interface InlinedImport extends ImportIdentifier {
+  /**
+   * Import path of the declaration file, relative to the source file.
+   */
+  from: string;
+}
+
+export interface InlinedImportedTypes {
+  /**
+   * Source text with the imported declarations inlined.
+   */
+  sourceText: string;
+
+  /**
+   * Exported declarations inlined from other files, the generated schemas
+   * import them from their own file (the source file doesn't export them).
+   */
+  inlinedImports: InlinedImport[];
+}
+
+/**
+ * Inline the declarations imported by a source file.
+ *
+ * The imports are followed with the TypeScript compiler (`paths` aliases and
+ * `export * from` barrels included), every imported interface/type alias/enum,
+ * and the declarations they reference, are copied into the returned source text.
+ *
+ * Imports from external libraries and declarations of mapped files are
+ * kept as imports.
+ */
+export function inlineImportedTypes({
+  inputPath,
+  tsConfigPath,
+  isMappedFile = () => false,
+}: InlineImportedTypesProps): InlinedImportedTypes {
+  const program = createProgram(inputPath, tsConfigPath);
+  const checker = program.getTypeChecker();
+  const entry = program.getSourceFile(inputPath);
+
+  if (!entry) {
+    throw new Error(`"${inputPath}" can't be resolved`);
+  }
+
+  // Names already declared or imported in the entry file
+  const declaredNames = new Set<string>();
+  const importedNames = new Set<string>();
+  entry.statements.forEach((statement) => {
+    if (isInlinableDeclaration(statement)) {
+      declaredNames.add(statement.name.text);
+    }
+    if (ts.isImportDeclaration(statement)) {
+      getImportIdentifiers(statement).forEach(({ name }) =>
+        importedNames.add(name)
+      );
+    }
+  });
+
+  // Declarations to inline, by local name
+  const inlinedDeclarations = new Map<string, InlinableDeclaration>();
+
+  // Imports to add for references of inlined declarations, by module specifier
+  const extraImports = new Map<string, Set<string>>();
+
+  const getInlinableDeclaration = (
+    identifier: ts.Identifier
+  ): InlinableDeclaration | undefined => {
+    const declaration = getDeclaration(identifier);
+    if (!declaration || !isInlinableDeclaration(declaration)) return;
+
+    const file = declaration.getSourceFile();
+    if (
+      file === entry ||
+      file.isDeclarationFile ||
+      program.isSourceFileFromExternalLibrary(file) ||
+      isMappedFile(file.fileName)
+    ) {
+      return;
+    }
+    return declaration;
+  };
+
+  const getDeclaration = (identifier: ts.Identifier) => {
+    let symbol = checker.getSymbolAtLocation(identifier);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+    return symbol?.declarations?.find(isInlinableDeclaration);
+  };
+
+  const addExtraImport = (name: string, moduleSpecifier: string) => {
+    if (importedNames.has(name) || declaredNames.has(name)) return;
+    const names = extraImports.get(moduleSpecifier);
+    names
+      ? names.add(name)
+      : extraImports.set(moduleSpecifier, new Set([name]));
+  };
+
+  const inline = (name: string, declaration: InlinableDeclaration) => {
+    const existing = inlinedDeclarations.get(name);
+    if (existing === declaration) return true;
+    if (existing || declaredNames.has(name)) {
+      console.warn(
+        ` »   Warning: "${name}" from "${
+          declaration.getSourceFile().fileName
+        }" can't be inlined, the name is already used.`
+      );
+      return false;
+    }
+
+    inlinedDeclarations.set(name, declaration);
+    declaration.forEachChild(function visit(node) {
+      if (ts.isTypeReferenceNode(node)) {
+        const identifier = ts.isQualifiedName(node.typeName)
+          ? getLeftmostIdentifier(node.typeName)
+          : node.typeName;
+        resolveReference(identifier);
+      } else if (
+        ts.isExpressionWithTypeArguments(node) &&
+        ts.isIdentifier(node.expression)
+      ) {
+        resolveReference(node.expression);
+      }
+      node.forEachChild(visit);
+    });
+    return true;
+  };
+
+  // Reference from an inlined declaration
+  const resolveReference = (identifier: ts.Identifier) => {
+    const name = identifier.text;
+    const inlinableDeclaration = getInlinableDeclaration(identifier);
+    if (inlinableDeclaration) {
+      inline(name, inlinableDeclaration);
+      return;
+    }
+
+    const declaration = getDeclaration(identifier);
+    if (!declaration || declaration.getSourceFile() === entry) return;
+
+    // Declarations of mapped files are imported from their own file
+    const file = declaration.getSourceFile();
+    if (
+      !file.isDeclarationFile &&
+      !program.isSourceFileFromExternalLibrary(file)
+    ) {
+      addExtraImport(name, getImportPath(inputPath, file.fileName));
+      return;
+    }
+
+    // Keep the original import of an external library
+    const moduleSpecifier = getImportModuleSpecifier(
+      checker.getSymbolAtLocation(identifier)
+    );
+    if (moduleSpecifier && !moduleSpecifier.startsWith(".")) {
+      addExtraImport(name, moduleSpecifier);
+    }
+  };
+
+  // Import from the entry file, returns `true` if inlined
+  const resolveImport = (identifier: ts.Identifier) => {
+    const declaration = getInlinableDeclaration(identifier);
+    return declaration ? inline(identifier.text, declaration) : false;
+  };
+
+  const edits: TextEdit[] = [];
+
+  entry.statements.forEach((statement) => {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !statement.importClause ||
+      !ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      return;
+    }
+
+    const { importClause } = statement;
+    const inlinedDefault = Boolean(
+      importClause.name && resolveImport(importClause.name)
+    );
+
+    const namedBindings = importClause.namedBindings;
+    const keptElements =
+      namedBindings && ts.isNamedImports(namedBindings)
+        ? namedBindings.elements.filter(
+            (element) => !resolveImport(element.name)
+          )
+        : [];
+
+    if (
+      !inlinedDefault &&
+      (!namedBindings ||
+        !ts.isNamedImports(namedBindings) ||
+        keptElements.length === namedBindings.elements.length)
+    ) {
+      return;
+    }
+
+    const text = printImportDeclaration(
+      statement,
+      inlinedDefault ? undefined : importClause.name,
+      namedBindings && ts.isNamespaceImport(namedBindings)
+        ? namedBindings
+        : undefined,
+      keptElements
+    );
+
+    // Removing the line break with the statement
+    const lineBreak = text
+      ? ""
+      : /^\r?\n/.exec(entry.text.slice(statement.getEnd()))?.[0] ?? "";
+
+    edits.push({
+      start: statement.getStart(entry),
+      end: statement.getEnd() + lineBreak.length,
+      text,
+    });
+  });
+
+  const sourceText = applyTextEdits(entry.text, edits);
+
+  const importsText = Array.from(extraImports.entries())
+    .map(
+      ([moduleSpecifier, names]) =>
+        `import { ${Array.from(names).join(", ")} } from "${moduleSpecifier}";`
+    )
+    .join("\n");
+
+  const declarationsText = Array.from(inlinedDeclarations.entries())
+    .map(([name, declaration]) => printInlinedDeclaration(name, declaration))
+    .join("\n\n");
+
+  const inlinedImports = Array.from(inlinedDeclarations.entries())
+    .filter(([, declaration]) =>
+      hasModifier(declaration, ts.SyntaxKind.ExportKeyword)
+    )
+    .map(([name, declaration]) => ({
+      name,
+      original: hasModifier(declaration, ts.SyntaxKind.DefaultKeyword)
+        ? "default"
+        : declaration.name.text === name
+        ? undefined
+        : declaration.name.text,
+      from: getImportPath(inputPath, declaration.getSourceFile().fileName),
+    }));
+
+  return {
+    sourceText: [importsText, sourceText.trim(), declarationsText]
+      .filter(Boolean)
+      .join("\n\n")
+      .concat("\n"),
+    inlinedImports,
+  };
+}
+
+/**
+ * Create a program from the tsconfig with `inputPath` as only root file.
+ */
+function createProgram(inputPath: string, tsConfigPath?: string) {
+  const configPath =
+    tsConfigPath ?? ts.findConfigFile(dirname(inputPath), ts.sys.fileExists);
+
+  let options: ts.CompilerOptions = {};
+  if (configPath) {
+    const configFile = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (configFile.error) {
+      throw new Error(
+        ts.flattenDiagnosticMessageText(configFile.error.messageText, "\n")
+      );
+    }
+    options = ts.parseJsonConfigFileContent(
+      configFile.config,
+      ts.sys,
+      dirname(configPath)
+    ).options;
+  }
+
+  return ts.createProgram({ rootNames: [inputPath], options });
+}
+
+function isInlinableDeclaration(node: ts.Node): node is InlinableDeclaration {
+  return (
+    ts.isInterfaceDeclaration(node) ||
+    ts.isTypeAliasDeclaration(node) ||
+    ts.isEnumDeclaration(node)
+  );
+}
+
+function hasModifier(node: InlinableDeclaration, kind: ts.SyntaxKind) {
+  return Boolean(node.modifiers?.some((modifier) => modifier.kind === kind));
+}
+
+function getLeftmostIdentifier(name: ts.QualifiedName): ts.Identifier {
+  return ts.isIdentifier(name.left)
+    ? name.left
+    : getLeftmostIdentifier(name.left);
+}
+
+/**
+ * Get the module specifier of the import declaring a symbol, if any.
+ */
+function getImportModuleSpecifier(symbol?: ts.Symbol) {
+  const importDeclaration = symbol?.declarations
+    ?.map((declaration) => ts.findAncestor(declaration, ts.isImportDeclaration))
+    .find(Boolean);
+
+  if (
+    importDeclaration &&
+    ts.isStringLiteral(importDeclaration.moduleSpecifier)
+  ) {
+    return importDeclaration.moduleSpecifier.text;
+  }
+}
+
+/**
+ * Print an import declaration with only the kept identifiers.
+ */
+function printImportDeclaration(
+  node: ts.ImportDeclaration,
+  defaultImport: ts.Identifier | undefined,
+  namespaceImport: ts.NamespaceImport | undefined,
+  elements: ts.ImportSpecifier[]
+) {
+  const sourceFile = node.getSourceFile();
+  const bindings = [
+    defaultImport?.text,
+    namespaceImport?.getText(sourceFile),
+    elements.length
+      ? `{ ${elements.map((i) => i.getText(sourceFile)).join(", ")} }`
+      : undefined,
+  ].filter(Boolean);
+
+  if (bindings.length === 0) return "";
+
+  return `import ${node.importClause?.isTypeOnly ? "type " : ""}${bindings.join(
+    ", "
+  )} from ${node.moduleSpecifier.getText(sourceFile)};`;
+}
+
+/**
+ * Print a declaration from another file, without `default` modifier and
+ * renamed to its local name.
+ */
+function printInlinedDeclaration(
+  name: string,
+  declaration: InlinableDeclaration
+) {
+  const sourceFile = declaration.getSourceFile();
+  const start = declaration.getStart(sourceFile, true);
+
+  const edits: TextEdit[] = (declaration.modifiers || [])
+    .filter((modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword)
+    .map((modifier) => ({
+      start: modifier.getStart(sourceFile) - start,
+      end:
+        modifier.getEnd() +
+        /^\s*/.exec(sourceFile.text.slice(modifier.getEnd()))![0].length -
+        start,
+      text: "",
+    }));
+
+  if (declaration.name.text !== name) {
+    edits.push({
+      start: declaration.name.getStart(sourceFile) - start,
+      end: declaration.name.getEnd() - start,
+      text: name,
+    });
+  }
+
+  return applyTextEdits(
+    sourceFile.text.slice(start, declaration.getEnd()),
+    edits
+  );
+}
+
+function applyTextEdits(text: string, edits: TextEdit[]) {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (result, { start, end, text }) =>
+        result.slice(0, start) + text + result.slice(end),
+      text
+    );
+}
@@ -0,0 +1,71 @@
+import ts from "typescript";
+import { findNode } from "./findNode";
+import {
+  getTemplateLiteralPattern,
+  templateLiteralsToString,
+} from "./templateLiteralPattern";
+
+describe("templateLiteralPattern", () => {
+  const parse = (sourceText: string) =>
+    ts.createSourceFile("index.ts", sourceText, ts.ScriptTarget.Latest);
+
+  const getPattern = (sourceText: string) => {
+    const sourceFile = parse(sourceText);
+    const declaration = findNode(
+      sourceFile,
+      (n): n is ts.TypeAliasDeclaration =>
+        ts.isTypeAliasDeclaration(n) && n.name.text === "Hero"
+    );
+    if (!declaration) throw new Error("No `Hero` type found!");
+    return getTemplateLiteralPattern(declaration.type, sourceFile);
+  };
+
+  it("should get the pattern of primitive placeholders", () => {
+    expect(getPattern("type Hero = `${number}px`;")).toEqual({
+      pattern: "\\d+(\\.\\d+)?px",
+      isFinite: false,
+    });
+    expect(
+      getPattern("type Hero = `${Lowercase<string>}-${bigint}.${boolean}`;")
+    ).toEqual({
+      pattern: "[^A-Z]*-\\d+\\.(true|false)",
+      isFinite: false,
+    });
+  });
+
+  it("should resolve local unions, template literals and enums", () => {
+    expect(
+      getPattern(`
+        type Prefix = "super" | "wonder";
+        enum Unit { Px = "px", Em = "em" }
+        type Id = \`id_\${string}\`;
+        type Hero = \`\${Prefix}:\${Id}:\${number}\${Unit}\`;
+      `)
+    ).toEqual({
+      pattern: "(super|wonder):id_.*:\\d+(\\.\\d+)?(px|em)",
+      isFinite: false,
+    });
+  });
+
+  it("should flag literal only template literals as finite", () => {
+    expect(
+      getPattern('type Gender = "man" | "woman"; type Hero = `super${Gender}`;')
+    ).toEqual({ pattern: "super(man|woman)", isFinite: true });
+  });
+
+  it("should return undefined for unsupported spans", () => {
+    expect(getPattern("type Hero = `super${Power}`;")).toBeUndefined();
+  });
+
+  it("should replace template literals with placeholders by `string`", () => {
+    const sourceFile = templateLiteralsToString(
+      parse('type Size = `${number}px`; type Hero = `super${"man"}`;')
+    );
+
+    expect(ts.createPrinter().printFile(sourceFile)).toMatchInlineSnapshot(`
+      "type Size = string;
+      type Hero = \`super\${"man"}\`;
+      "
+    `);
+  });
+});
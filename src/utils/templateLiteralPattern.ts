@@ -0,0 +1,181 @@
+import ts, { factory as f } from "typescript";
+import { findNode } from "./findNode";
+import { getEnumMemberValues } from "./enumHandling";
+
+export interface TemplateLiteralPattern {
+  /**
+   * Regular expression source, without anchors
+   */
+  pattern: string;
+
+  /**
+   * `true` if the type only contains literal values (no primitive placeholder)
+   */
+  isFinite: boolean;
+}
+
+/**
+ * Get the regular expression matching a template literal type (or one of its spans).
+ *
+ * ```ts
+ * type Size = `${number}px`; // \d+(\.\d+)?px
+ * ```
+ *
+ * Primitive placeholders (`string`, `number`, `bigint`, `boolean`, `Lowercase<string>`…),
+ * literals, unions and local type aliases or enums are supported.
+ *
+ * @returns The pattern, `undefined` if a part of the type is not supported
+ */
+export function getTemplateLiteralPattern(
+  typeNode: ts.TypeNode,
+  sourceFile: ts.SourceFile
+): TemplateLiteralPattern | undefined {
+  if (ts.isParenthesizedTypeNode(typeNode)) {
+    return getTemplateLiteralPattern(typeNode.type, sourceFile);
+  }
+
+  switch (typeNode.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return { pattern: ".*", isFinite: false };
+    case ts.SyntaxKind.NumberKeyword:
+      return { pattern: "\\d+(\\.\\d+)?", isFinite: false };
+    case ts.SyntaxKind.BigIntKeyword:
+      return { pattern: "\\d+", isFinite: false };
+    case ts.SyntaxKind.BooleanKeyword:
+      return { pattern: "(true|false)", isFinite: false };
+  }
+
+  if (ts.isLiteralTypeNode(typeNode)) {
+    const { literal } = typeNode;
+    if (ts.isStringLiteral(literal) || ts.isNumericLiteral(literal)) {
+      return { pattern: escapeRegExp(literal.text), isFinite: true };
+    }
+    if (
+      ts.isPrefixUnaryExpression(literal) &&
+      literal.operator === ts.SyntaxKind.MinusToken &&
+      ts.isNumericLiteral(literal.operand)
+    ) {
+      return {
+        pattern: `-${escapeRegExp(literal.operand.text)}`,
+        isFinite: true,
+      };
+    }
+    if (literal.kind === ts.SyntaxKind.TrueKeyword) {
+      return { pattern: "true", isFinite: true };
+    }
+    if (literal.kind === ts.SyntaxKind.FalseKeyword) {
+      return { pattern: "false", isFinite: true };
+    }
+    return;
+  }
+
+  if (ts.isUnionTypeNode(typeNode)) {
+    return joinPatterns(
+      typeNode.types.map((type) => getTemplateLiteralPattern(type, sourceFile)),
+      "|"
+    );
+  }
+
+  if (ts.isTemplateLiteralTypeNode(typeNode)) {
+    return joinPatterns(
+      [
+        { pattern: escapeRegExp(typeNode.head.text), isFinite: true },
+        ...typeNode.templateSpans.flatMap((span) => [
+          getTemplateLiteralPattern(span.type, sourceFile),
+          { pattern: escapeRegExp(span.literal.text), isFinite: true },
+        ]),
+      ],
+      ""
+    );
+  }
+
+  if (ts.isTypeReferenceNode(typeNode) && ts.isIdentifier(typeNode.typeName)) {
+    const { text } = typeNode.typeName;
+
+    // Intrinsic string manipulation types
+    if (
+      typeNode.typeArguments?.length === 1 &&
+      typeNode.typeArguments[0].kind === ts.SyntaxKind.StringKeyword
+    ) {
+      switch (text) {
+        case "Lowercase":
+          return { pattern: "[^A-Z]*", isFinite: false };
+        case "Uppercase":
+          return { pattern: "[^a-z]*", isFinite: false };
+        case "Capitalize":
+          return { pattern: "([^a-z].*)?", isFinite: false };
+        case "Uncapitalize":
+          return { pattern: "([^A-Z].*)?", isFinite: false };
+      }
+    }
+    if (typeNode.typeArguments) return;
+
+    const declaration = findNode(
+      sourceFile,
+      (n): n is ts.TypeAliasDeclaration | ts.EnumDeclaration =>
+        (ts.isTypeAliasDeclaration(n) || ts.isEnumDeclaration(n)) &&
+        n.name.text === text
+    );
+
+    if (declaration && ts.isTypeAliasDeclaration(declaration)) {
+      return declaration.typeParameters
+        ? undefined
+        : getTemplateLiteralPattern(declaration.type, sourceFile);
+    }
+
+    const values = declaration && getEnumMemberValues(declaration);
+    if (values) {
+      return joinPatterns(
+        values.map((value) => ({
+          pattern: escapeRegExp(String(value)),
+          isFinite: true,
+        })),
+        "|"
+      );
+    }
+  }
+}
+
+/**
+ * Replace the template literal types with primitive placeholders by `string`.
+ *
+ * Template literal types are generated as `z.string().regex()`, which is
+ * inferred as `string`.
+ *
+ * @param sourceFile
+ */
+export function templateLiteralsToString(sourceFile: ts.SourceFile) {
+  const transformer: ts.TransformerFactory<ts.SourceFile> = (context) => {
+    const visitor = (node: ts.Node): ts.Node => {
+      if (
+        ts.isTemplateLiteralTypeNode(node) &&
+        getTemplateLiteralPattern(node, sourceFile)?.isFinite === false
+      ) {
+        return f.createKeywordTypeNode(ts.SyntaxKind.StringKeyword);
+      }
+      return ts.visitEachChild(node, visitor, context);
+    };
+    return (node) => ts.visitEachChild(node, visitor, context);
+  };
+
+  return ts.transform(sourceFile, [transformer]).transformed[0];
+}
+
+function joinPatterns(
+  patterns: Array<TemplateLiteralPattern | undefined>,
+  separator: "|" | ""
+): TemplateLiteralPattern | undefined {
+  if (!patterns.every((p): p is TemplateLiteralPattern => p !== undefined)) {
+    return;
+  }
+
+  const pattern = patterns.map((p) => p.pattern).join(separator);
+  return {
+    pattern: separator === "|" ? `(${pattern})` : pattern,
+    isFinite: patterns.every((p) => p.isFinite),
+  };
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
@@ -1,5 +1,5 @@
 import ts from "typescript";
-import { getReferencedTypeNames } from "./traverseTypes";
+import { getReferencedTypeNames, isTypeNode } from "./traverseTypes";
 import { findNode } from "./findNode";
 
 describe("traverseTypes", () => {
@@ -61,6 +61,23 @@ describe("traverseTypes", () => {
       ]);
     });
 
+    it("should extract types referenced in a class", () => {
+      const source = `
+          export class SuperHero extends Person implements Flying {
+              power: Power;
+              private secret: Secret;
+              constructor(public villain: Villain) {}
+          }`;
+
+      const result = extractNames(source);
+      expect(result).toEqual([
+        { name: "SuperHero", partOfQualifiedName: false },
+        { name: "Person", partOfQualifiedName: false },
+        { name: "Power", partOfQualifiedName: false },
+        { name: "Villain", partOfQualifiedName: false },
+      ]);
+    });
+
     it("should extract type referenced in multiple extend clauses", () => {
       const source = `
             export interface SuperHero extends Person, Person2 {
@@ -337,6 +354,29 @@ describe("traverseTypes", () => {
       ]);
     });
 
+    it("should extract type from type alias with Exclude helper", () => {
+      const source = `
+        export type Person = Exclude<Villain, Hero> `;
+
+      const result = extractNames(source);
+      expect(result).toEqual([
+        { name: "Person", partOfQualifiedName: false },
+        { name: "Villain", partOfQualifiedName: false },
+        { name: "Hero", partOfQualifiedName: false },
+      ]);
+    });
+
+    it("should extract type from type alias with NonNullable & Awaited helpers", () => {
+      const source = `
+        export type Person = NonNullable<Awaited<Promise<Villain>>> `;
+
+      const result = extractNames(source);
+      expect(result).toEqual([
+        { name: "Person", partOfQualifiedName: false },
+        { name: "Villain", partOfQualifiedName: false },
+      ]);
+    });
+
     it("should extract type from type alias with Omit helper", () => {
       const source = `
         export type Person = Omit<Villain> `;
@@ -489,6 +529,47 @@ describe("traverseTypes", () => {
         { name: "Power", partOfQualifiedName: false },
       ]);
     });
+
+    it("should extract types of function parameters & return", () => {
+      const source = `export interface Hero {
+        fight: (villain: Villain, ...allies: Person[]) => Result
+      }`;
+
+      const result = extractNames(source);
+      expect(result).toEqual([
+        { name: "Hero", partOfQualifiedName: false },
+        { name: "Villain", partOfQualifiedName: false },
+        { name: "Person", partOfQualifiedName: false },
+        { name: "Result", partOfQualifiedName: false },
+      ]);
+    });
+
+    it("should extract type arguments of generic references", () => {
+      const source = `export interface Hero {
+        allies: Paginated<Person>
+      }`;
+
+      const result = extractNames(source);
+      expect(result).toEqual([
+        { name: "Hero", partOfQualifiedName: false },
+        { name: "Person", partOfQualifiedName: false },
+        { name: "Paginated", partOfQualifiedName: false },
+      ]);
+    });
+
+    it("should not extract type parameters of generic declarations", () => {
+      const source = `export interface Paginated<TItem> extends Page<TItem> {
+        items: TItem[],
+        owner: Person
+      }`;
+
+      const result = extractNames(source);
+      expect(result).toEqual([
+        { name: "Paginated", partOfQualifiedName: false },
+        { name: "Page", partOfQualifiedName: false },
+        { name: "Person", partOfQualifiedName: false },
+      ]);
+    });
   });
 });
 
@@ -498,18 +579,7 @@ function extractNames(sourceText: string) {
     sourceText,
     ts.ScriptTarget.Latest
   );
-  const declaration = findNode(
-    sourceFile,
-    (
-      node
-    ): node is
-      | ts.InterfaceDeclaration
-      | ts.TypeAliasDeclaration
-      | ts.EnumDeclaration =>
-      ts.isInterfaceDeclaration(node) ||
-      ts.isTypeAliasDeclaration(node) ||
-      ts.isEnumDeclaration(node)
-  );
+  const declaration = findNode(sourceFile, isTypeNode);
   if (!declaration) {
     throw new Error("No `type` or `interface` found!");
   }
@@ -1,19 +1,35 @@
 import ts from "typescript";
+import { getClassProperties } from "./classHandling";
 
 const typeScriptHelper = [
   "Array",
   "Promise",
+  "Set",
+  "ReadonlySet",
+  "Map",
+  "ReadonlyMap",
   "Omit",
   "Pick",
   "Record",
   "Partial",
   "Required",
+  "Exclude",
+  "Extract",
+  "NonNullable",
+  "Awaited",
+  "ReturnType",
+  "Parameters",
 ];
 
 export type TypeNode =
   | ts.InterfaceDeclaration
   | ts.TypeAliasDeclaration
-  | ts.EnumDeclaration;
+  | ts.EnumDeclaration
+  | NamedClassDeclaration;
+
+export type NamedClassDeclaration = ts.ClassDeclaration & {
+  name: ts.Identifier;
+};
 
 export type TypeNameReference = {
   name: string;
@@ -24,12 +40,13 @@ export function isTypeNode(node: ts.Node): node is TypeNode {
   return (
     ts.isInterfaceDeclaration(node) ||
     ts.isTypeAliasDeclaration(node) ||
-    ts.isEnumDeclaration(node)
+    ts.isEnumDeclaration(node) ||
+    (ts.isClassDeclaration(node) && Boolean(node.name))
   );
 }
 
 export function getReferencedTypeNames(
-  node: ts.InterfaceDeclaration | ts.TypeAliasDeclaration | ts.EnumDeclaration,
+  node: TypeNode,
   sourceFile: ts.SourceFile
 ): TypeNameReference[] {
   const referenceTypeNames = new Set<TypeNameReference>();
@@ -37,6 +54,12 @@ export function getReferencedTypeNames(
   // Adding the node name
   referenceTypeNames.add({ name: node.name.text, partOfQualifiedName: false });
 
+  // Type parameters of generic declarations are not references
+  const typeParameterNames =
+    !ts.isEnumDeclaration(node) && node.typeParameters
+      ? node.typeParameters.map((param) => param.name.text)
+      : [];
+
   const visitorExtract = (child: ts.Node) => {
     if (ts.isPropertySignature(child)) {
       const childNode = child as ts.PropertySignature;
@@ -70,6 +93,11 @@ export function getReferencedTypeNames(
       typeNode.types.forEach(handleTypeNode);
     } else if (ts.isIndexedAccessTypeNode(typeNode)) {
       handleTypeNode(typeNode.objectType);
+    } else if (ts.isFunctionTypeNode(typeNode)) {
+      typeNode.parameters.forEach(
+        (parameter) => parameter.type && handleTypeNode(parameter.type)
+      );
+      handleTypeNode(typeNode.type);
     }
   };
 
@@ -81,16 +109,21 @@ export function getReferencedTypeNames(
     }
 
     const typeName = typeRefNode.typeName.getText(sourceFile);
-    if (typeScriptHelper.indexOf(typeName) > -1 && typeRefNode.typeArguments) {
+    if (typeRefNode.typeArguments) {
       typeRefNode.typeArguments.forEach((t) => handleTypeNode(t));
-      return;
+      if (typeScriptHelper.indexOf(typeName) > -1) return;
     }
 
+    if (typeParameterNames.includes(typeName)) return;
+
     referenceTypeNames.add({ name: typeName, partOfQualifiedName: false });
   };
 
-  if (ts.isInterfaceDeclaration(node)) {
-    const heritageClauses = (node as ts.InterfaceDeclaration).heritageClauses;
+  if (ts.isInterfaceDeclaration(node) || ts.isClassDeclaration(node)) {
+    const heritageClauses = node.heritageClauses?.filter(
+      // `implements` doesn't add any property to a class
+      (clause) => clause.token === ts.SyntaxKind.ExtendsKeyword
+    );
 
     if (heritageClauses) {
       heritageClauses.forEach((clause) => {
@@ -112,7 +145,13 @@ export function getReferencedTypeNames(
       });
     }
 
-    node.forEachChild(visitorExtract);
+    if (ts.isClassDeclaration(node)) {
+      getClassProperties(node).forEach(
+        ({ type }) => type && handleTypeNode(type)
+      );
+    } else {
+      node.forEachChild(visitorExtract);
+    }
   } else if (ts.isTypeAliasDeclaration(node)) {
     handleTypeNode(node.type);
   }
@@ -0,0 +1,27 @@
+import ts from "typescript";
+import { findNode } from "./findNode";
+import { getTypeChecker } from "./typeChecker";
+
+describe("getTypeChecker", () => {
+  const sourceFile = ts.createSourceFile(
+    "index.ts",
+    `type Answer = string extends string ? "yes" : "no";`,
+    ts.ScriptTarget.Latest
+  );
+
+  it("should evaluate the types of the source file", () => {
+    const typeChecker = getTypeChecker(sourceFile);
+    const declaration = findNode(sourceFile, ts.isTypeAliasDeclaration);
+    if (!declaration) throw new Error("No `type` found!");
+
+    expect(
+      typeChecker.typeToString(
+        typeChecker.getTypeFromTypeNode(declaration.type)
+      )
+    ).toBe('"yes"');
+  });
+
+  it("should reuse the type checker of a source file", () => {
+    expect(getTypeChecker(sourceFile)).toBe(getTypeChecker(sourceFile));
+  });
+});
@@ -0,0 +1,41 @@
+import ts from "typescript";
+
+const typeCheckers = new WeakMap<ts.SourceFile, ts.TypeChecker>();
+
+const compilerOptions: ts.CompilerOptions = {
+  strict: true,
+  noEmit: true,
+  target: ts.ScriptTarget.Latest,
+  lib: ["lib.esnext.d.ts"],
+  types: [],
+};
+
+/**
+ * Get a type checker for a source file.
+ *
+ * The program is only created on the first call for a given source file, with
+ * the source file as only root file (imports are not resolved).
+ *
+ * @param sourceFile
+ */
+export function getTypeChecker(sourceFile: ts.SourceFile): ts.TypeChecker {
+  const existingTypeChecker = typeCheckers.get(sourceFile);
+  if (existingTypeChecker) return existingTypeChecker;
+
+  const host = ts.createCompilerHost(compilerOptions);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (fileName, ...rest) =>
+    fileName === sourceFile.fileName
+      ? sourceFile
+      : getSourceFile.call(host, fileName, ...rest);
+
+  const program = ts.createProgram({
+    rootNames: [sourceFile.fileName],
+    options: compilerOptions,
+    host,
+  });
+
+  const typeChecker = program.getTypeChecker();
+  typeCheckers.set(sourceFile, typeChecker);
+  return typeChecker;
+}
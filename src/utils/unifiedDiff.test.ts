@@ -0,0 +1,63 @@
+import { createUnifiedDiff } from "./unifiedDiff";
+
+describe("createUnifiedDiff", () => {
+  it("should return an empty string for equal contents", () => {
+    expect(createUnifiedDiff("a.ts", "a\nb\n", "a\nb\n")).toBe("");
+  });
+
+  it("should display the changes with their context", () => {
+    const oldText = ["1", "2", "3", "4", "5", "6", "7", "8", "9", ""].join(
+      "\n"
+    );
+    const newText = ["1", "2", "3", "4", "five", "6", "7", "8", "9", ""].join(
+      "\n"
+    );
+
+    expect(createUnifiedDiff("a.ts", oldText, newText)).toMatchInlineSnapshot(`
+      "--- a/a.ts
+      +++ b/a.ts
+      @@ -2,7 +2,7 @@
+       2
+       3
+       4
+      -5
+      +five
+       6
+       7
+       8"
+    `);
+  });
+
+  it("should split distant changes in hunks", () => {
+    const oldText = Array.from({ length: 20 }, (_, i) => `${i + 1}`).join("\n");
+    const newText = oldText.replace(/^2$/m, "two").replace("19", "19\n19.5");
+
+    expect(createUnifiedDiff("a.ts", oldText, newText)).toMatchInlineSnapshot(`
+      "--- a/a.ts
+      +++ b/a.ts
+      @@ -1,5 +1,5 @@
+       1
+      -2
+      +two
+       3
+       4
+       5
+      @@ -17,4 +17,5 @@
+       17
+       18
+       19
+      +19.5
+       20"
+    `);
+  });
+
+  it("should diff a new file", () => {
+    expect(createUnifiedDiff("a.ts", "", "a\nb\n")).toMatchInlineSnapshot(`
+      "--- a/a.ts
+      +++ b/a.ts
+      @@ -0,0 +1,2 @@
+      +a
+      +b"
+    `);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Maximum size of the LCS table, bigger changes are diffed as a single replacement.
+ */
+const MAX_LCS_SIZE = 10_000_000;
+
+/**
+ * Number of unchanged lines displayed around the changes.
+ */
+const CONTEXT_LINES = 3;
+
+type DiffLine = {
+  type: " " | "-" | "+";
+  line: string;
+};
+
+/**
+ * Create a unified diff (`diff -u`) between two versions of a file.
+ *
+ * @param path Path of the file, displayed in the header
+ * @param oldText Current content of the file
+ * @param newText Expected content of the file
+ * @returns The diff, empty string if the contents are equal
+ */
+export function createUnifiedDiff(
+  path: string,
+  oldText: string,
+  newText: string
+): string {
+  if (oldText === newText) return "";
+
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const changes = lines
+    .map(({ type }, index) => (type === " " ? -1 : index))
+    .filter((index) => index >= 0);
+
+  // Group the changes separated by less than two contexts
+  const hunks: Array<{ start: number; end: number }> = [];
+  changes.forEach((index) => {
+    const start = Math.max(0, index - CONTEXT_LINES);
+    const end = Math.min(lines.length, index + CONTEXT_LINES + 1);
+    const lastHunk = hunks[hunks.length - 1];
+    if (lastHunk && start <= lastHunk.end) {
+      lastHunk.end = end;
+    } else {
+      hunks.push({ start, end });
+    }
+  });
+
+  return [
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    ...hunks.flatMap(({ start, end }) => {
+      const before = lines.slice(0, start);
+      const hunkLines = lines.slice(start, end);
+      const oldStart = before.filter(({ type }) => type !== "+").length;
+      const newStart = before.filter(({ type }) => type !== "-").length;
+      const oldLength = hunkLines.filter(({ type }) => type !== "+").length;
+      const newLength = hunkLines.filter(({ type }) => type !== "-").length;
+
+      return [
+        `@@ -${formatRange(oldStart, oldLength)} +${formatRange(
+          newStart,
+          newLength
+        )} @@`,
+        ...hunkLines.map(({ type, line }) => `${type}${line}`),
+      ];
+    }),
+  ].join("\n");
+}
+
+function splitLines(text: string) {
+  const lines = text.split("\n");
+  // Ignore the final newline
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+function formatRange(start: number, length: number) {
+  // Ranges are 1-based, an empty range refers to the line before it
+  return length === 1
+    ? `${start + 1}`
+    : `${length ? start + 1 : start},${length}`;
+}
+
+/**
+ * Diff two lists of lines, with their longest common subsequence.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const context = (line: string): DiffLine => ({ type: " ", line });
+
+  let changes: DiffLine[];
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_SIZE) {
+    changes = [
+      ...a.map((line): DiffLine => ({ type: "-", line })),
+      ...b.map((line): DiffLine => ({ type: "+", line })),
+    ];
+  } else {
+    // `lcs[i * width + j]` is the length of the LCS of `a[i:]` and `b[j:]`
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          a[i] === b[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    changes = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        changes.push(context(a[i]));
+        i++;
+        j++;
+      } else if (
+        j === b.length ||
+        (i < a.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])
+      ) {
+        changes.push({ type: "-", line: a[i] });
+        i++;
+      } else {
+        changes.push({ type: "+", line: b[j] });
+        j++;
+      }
+    }
+  }
+
+  return [
+    ...oldLines.slice(0, prefix).map(context),
+    ...changes,
+    ...oldLines.slice(oldLines.length - suffix).map(context),
+  ];
+}
@@ -20,7 +20,15 @@ module.exports = [
     name: "example/person",
     input: "example/person.ts",
     output: "example/person.zod.ts",
-    maybeTypeNames: ["Maybe"],
   },
-  { name: "config", input: "src/config.ts", output: "src/config.zod.ts" },
+  {
+    name: "config",
+    input: "src/config.ts",
+    output: "src/config.zod.ts",
+    // Internal type of the generator (`ts.VariableStatement` can't be validated)
+    nameFilter: (name) => name !== "ZodSchemaResult",
+    customJSDocTags: {
+      passthrough: () => ".passthrough()",
+    },
+  },
 ];